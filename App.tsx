@@ -2,13 +2,13 @@
  * @file The main component of the Meme Budget application.
  * This component orchestrates the entire application's state, navigation,
  * and view rendering. It manages transactions, categories, budgets, events,
- * theme settings, and modal visibility.
+ * theme settings, and modal visibility, and keeps the undo history of data changes.
  */
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { useLocalStorage } from './hooks/useLocalStorage';
-import { Transaction, Budget, Category, View, Event } from './types';
-import { DEFAULT_CATEGORIES } from './constants';
+import { usePersistentState } from './hooks/usePersistentState';
+import { Transaction, Budget, BudgetTemplate, Category, CategoryRule, View, Event, RecurringRule, NotificationFrequency, AppTheme, BackupData } from './types';
+import { DEFAULT_CATEGORIES, DEFAULT_INCOME_CATEGORIES } from './constants';
 import Dashboard from './components/Dashboard';
 import Analytics from './components/Analytics';
 import Settings from './components/Settings';
@@ -17,47 +17,167 @@ import SideNav from './components/SideNav';
 // FIX: Corrected import path for AddTransactionModal.tsx
 import AddTransactionModal from './components/AddTransactionModal';
 import History from './components/History';
+import Search from './components/Search';
 import Events from './components/Events';
 import EventDetail from './components/EventDetail';
 import AddEventModal from './components/AddEventModal';
+import Recurring from './components/Recurring';
+import BudgetPlanner from './components/BudgetPlanner';
+import ReminderBanner from './components/ReminderBanner';
 import ThemeToggle from './components/ThemeToggle';
+import PeriodSelector from './components/PeriodSelector';
 import { PlusIcon } from './components/icons';
 import { useLocalization } from './context/LocalizationContext';
+import { TranslationKey } from './locales/en';
+import { useCurrency } from './context/CurrencyContext';
+import { useToast } from './context/ToastContext';
+import { useConfirm } from './context/ConfirmContext';
+import { useReminders } from './hooks/useReminders';
+import { useUndoHistory } from './hooks/useUndoHistory';
 import { lightTheme, darkTheme, roseTheme } from './theme';
 import { generateThemeCss } from './utils/theme';
+import { collectDueRecurringTransactions } from './utils/recurrence';
+import { getCurrentMonthKey, getTodayKey } from './utils/date';
+import { buildBudgetDigest } from './utils/reminders';
+import { createBackup } from './utils/backup';
+import { onStorageProblem } from './utils/storage';
+import { findPreviousBudgetMonth, resolveBudgets } from './utils/budgets';
+import { BulkAction, applyBulkAction } from './utils/bulk';
+import { convertBaseCurrencyData } from './utils/currency';
 
 
-/**
- * Defines the available theme options for the application.
- */
-type Theme = 'light' | 'dark' | 'rose';
-
 /**
  * The root component for the Meme Budget application.
  * It encapsulates all state and logic, providing a single source of truth.
  * @returns {React.ReactNode} The rendered application UI.
  */
 export default function App(): React.ReactNode {
-  const { t } = useLocalization();
+  const { t, locale, setLocale } = useLocalization();
+  const { convert, format, baseCurrency, setBaseCurrency, exchangeRates, setExchangeRates } = useCurrency();
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
   
   // --- State Management ---
   
   // Navigation and view state
   const [activeView, setActiveView] = useState<View>(View.Dashboard);
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  // The month shown by the Dashboard, Analytics and budget settings (YYYY-MM)
+  const [selectedMonthKey, setSelectedMonthKey] = useState(getCurrentMonthKey);
 
-  // Core application data, persisted in localStorage
-  const [categories, setCategories] = useLocalStorage<Category[]>('categories', DEFAULT_CATEGORIES);
-  const [transactions, setTransactions] = useLocalStorage<Transaction[]>('transactions', []);
-  const [budgets, setBudgets] = useLocalStorage<Record<string, Budget[]>>('budgets', {});
-  const [events, setEvents] = useLocalStorage<Event[]>('events', []);
-  const [appTheme, setAppTheme] = useLocalStorage<Theme>('theme', 'dark');
+  // Core application data, persisted on the device
+  const [categories, setCategories] = usePersistentState<Category[]>('categories', [...DEFAULT_CATEGORIES, ...DEFAULT_INCOME_CATEGORIES]);
+  const [categoryRules, setCategoryRules] = usePersistentState<CategoryRule[]>('categoryRules', []);
+  const [transactions, setTransactions] = usePersistentState<Transaction[]>('transactions', []);
+  const [recurringRules, setRecurringRules] = usePersistentState<RecurringRule[]>('recurringRules', []);
+  const [budgets, setBudgets] = usePersistentState<Record<string, Budget[]>>('budgets', {});
+  const [budgetTemplates, setBudgetTemplates] = usePersistentState<BudgetTemplate[]>('budgetTemplates', []);
+  const [events, setEvents] = usePersistentState<Event[]>('events', []);
+  const [appTheme, setAppTheme] = usePersistentState<AppTheme>('theme', 'dark');
+  const [notificationFrequency, setNotificationFrequency] = usePersistentState<NotificationFrequency>('notificationFrequency', 'monthly');
+  const [autoCopyBudgets, setAutoCopyBudgets] = usePersistentState<boolean>('autoCopyBudgets', false);
+  // Whether the default income categories were given to this device's data already
+  const [incomeCategoriesAdded, setIncomeCategoriesAdded] = usePersistentState<boolean>('incomeCategoriesAdded', false);
 
   // Modal visibility and context state
-  const [transactionModalContext, setTransactionModalContext] = useState<{ eventId?: string } | null>(null);
+  const [transactionModalContext, setTransactionModalContext] = useState<{ eventId?: string; transaction?: Transaction } | null>(null);
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
   const [eventToEdit, setEventToEdit] = useState<Event | null>(null);
 
+  // --- Undo History ---
+
+  // The data covered by undo and redo; preferences such as the theme are left out, except
+  // the base currency, which budgets and rule amounts are stored in
+  const dataSnapshot = useMemo(
+    () => ({ transactions, events, categories, budgets, budgetTemplates, recurringRules, categoryRules, baseCurrency }),
+    [transactions, events, categories, budgets, budgetTemplates, recurringRules, categoryRules, baseCurrency]
+  );
+
+  /**
+   * Sets all the data covered by undo and redo from a snapshot.
+   * @param {typeof dataSnapshot} snapshot - The data to restore.
+   */
+  const restoreSnapshot = (snapshot: typeof dataSnapshot) => {
+    setTransactions(snapshot.transactions);
+    setEvents(snapshot.events);
+    setCategories(snapshot.categories);
+    setBudgets(snapshot.budgets);
+    setBudgetTemplates(snapshot.budgetTemplates);
+    setRecurringRules(snapshot.recurringRules);
+    setCategoryRules(snapshot.categoryRules);
+    setBaseCurrency(snapshot.baseCurrency);
+  };
+
+  const history = useUndoHistory<typeof dataSnapshot, TranslationKey>(dataSnapshot, restoreSnapshot);
+
+  /**
+   * Shows the toast offering to undo the latest change. It replaces any earlier undo
+   * or redo toast, so only the latest offer is on screen.
+   * @param {string} message - Describes the change.
+   */
+  const showUndoToast = (message: string) => {
+    showToast(message, { id: 'undo', type: 'success', action: { label: t('undo'), onClick: handleUndo } });
+  };
+
+  /**
+   * Records that the data is about to change, and offers to undo the change.
+   * Call it right before changing the data.
+   * @param {TranslationKey} label - Describes the change (e.g., 'undo_deleteTransaction').
+   * @param {string} [message] - A message to show instead of the label, such as a success message.
+   */
+  const recordChange = (label: TranslationKey, message?: string) => {
+    history.record(label);
+    showUndoToast(message || t(label));
+  };
+
+  /**
+   * Undoes the latest change, offering to redo it.
+   */
+  const handleUndo = () => {
+    const label = history.undo();
+    if (label) {
+      showToast(t('undoneChange', { change: t(label) }), { id: 'undo', action: { label: t('redo'), onClick: handleRedo } });
+    }
+  };
+
+  /**
+   * Redoes the latest undone change, offering to undo it again.
+   */
+  const handleRedo = () => {
+    const label = history.redo();
+    if (label) showUndoToast(t(label));
+  };
+
+  /**
+   * Effect for the undo and redo keyboard shortcuts: Ctrl+Z (Cmd+Z on macOS) to undo,
+   * and Ctrl+Shift+Z or Ctrl+Y to redo. While typing in a field, the shortcuts are
+   * left to the field. It re-subscribes on every render to use the latest history.
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  /**
+   * Effect that tells the user about problems with the browser's storage, such as
+   * data that could not be read or saved.
+   */
+  useEffect(() => onStorageProblem(({ reason, key }) => {
+    showToast(t(`storage_${reason}`, { key: key || '' }), { id: `storage-${reason}`, type: 'error', duration: 8000 });
+  }), [t, showToast]);
+
   /**
    * Effect to apply the selected theme (light, dark, rose) to the application.
    * It updates the class on the root HTML element and injects CSS variables
@@ -87,33 +207,113 @@ export default function App(): React.ReactNode {
 
   }, [appTheme]);
 
+  /**
+   * Effect that adds the default income categories, once, for users whose categories
+   * were saved before income categories existed. Deleting them later doesn't bring them back.
+   */
+  useEffect(() => {
+    if (incomeCategoriesAdded) return;
+    setCategories(prev => [...prev, ...DEFAULT_INCOME_CATEGORIES.filter(d => !prev.some(c => c.id === d.id))]);
+    setIncomeCategoriesAdded(true);
+  }, [incomeCategoriesAdded]);
+
+  /**
+   * Effect that catches up on recurring transactions. On app load, and whenever the
+   * rules change, it posts a transaction for every occurrence that has fallen due since
+   * each rule was last posted. Posted transactions use deterministic IDs and are only
+   * added if not already present, so running this more than once never creates duplicates.
+   */
+  useEffect(() => {
+    const { transactions: dueTransactions, lastPostedDates } = collectDueRecurringTransactions(recurringRules, getTodayKey());
+    if (dueTransactions.length === 0) return;
+
+    setTransactions(prev => {
+      const existingIds = new Set(prev.map(t => t.id));
+      const newTransactions = dueTransactions.filter(t => !existingIds.has(t.id));
+      return newTransactions.length > 0 ? [...prev, ...newTransactions] : prev;
+    });
+    setRecurringRules(prev => prev.map(rule => {
+      const lastPosted = lastPostedDates[rule.id];
+      return lastPosted && (!rule.lastPostedDate || rule.lastPostedDate < lastPosted) ? { ...rule, lastPostedDate: lastPosted } : rule;
+    }));
+  }, [recurringRules]);
+
   /**
    * Adds a new transaction to the global state.
    * @param {Omit<Transaction, 'id'>} transaction - The transaction object to add, without an ID.
    */
   const addTransaction = (transaction: Omit<Transaction, 'id'>) => {
+    recordChange('undo_addTransaction');
     setTransactions(prev => [...prev, { ...transaction, id: crypto.randomUUID() }]);
   };
 
+  /**
+   * Adds several transactions at once, such as those imported from a bank statement.
+   * @param {Omit<Transaction, 'id'>[]} newTransactions - The transactions to add, without IDs.
+   */
+  const importTransactions = (newTransactions: Omit<Transaction, 'id'>[]) => {
+    recordChange('undo_importTransactions', t('csvImportSuccess', { count: newTransactions.length }));
+    setTransactions(prev => [...prev, ...newTransactions.map(transaction => ({ ...transaction, id: crypto.randomUUID() }))]);
+  };
+
+  /**
+   * Updates an existing transaction in the global state.
+   * The edits are merged into the saved transaction, so it keeps its original ID, event
+   * link, and fields the form doesn't edit, such as the recurring rule that posted it.
+   * @param {Transaction} transaction - The edited transaction.
+   */
+  const updateTransaction = (transaction: Transaction) => {
+    recordChange('undo_updateTransaction');
+    setTransactions(prev => prev.map(t => {
+      if (t.id !== transaction.id) return t;
+      // The form only sends split lines while the transaction is split, so the old ones are dropped
+      const { splits: _previousSplits, ...saved } = t;
+      return { ...saved, ...transaction, id: t.id, eventId: t.eventId };
+    }));
+  };
+
+  /**
+   * Opens the transaction modal to edit an existing transaction.
+   * @param {Transaction} transaction - The transaction to edit.
+   */
+  const handleEditTransaction = (transaction: Transaction) => {
+    setTransactionModalContext({ eventId: transaction.eventId, transaction });
+  };
+
   /**
    * Deletes a transaction from the global state.
    * @param {string} transactionId - The ID of the transaction to delete.
    */
   const deleteTransaction = (transactionId: string) => {
+    recordChange('undo_deleteTransaction');
     setTransactions(prev => prev.filter(t => t.id !== transactionId));
   };
 
+  /**
+   * Applies a bulk action to several transactions at once.
+   * @param {string[]} transactionIds - The IDs of the transactions the action applies to.
+   * @param {BulkAction} action - The action to apply.
+   */
+  const handleBulkAction = (transactionIds: string[], action: BulkAction) => {
+    const ids = new Set(transactionIds);
+    recordChange(action.kind === 'delete' ? 'undo_bulkDelete' : 'undo_bulkUpdate');
+    if (action.kind === 'delete') {
+      setTransactions(prev => prev.filter(t => !ids.has(t.id)));
+    } else {
+      setTransactions(prev => prev.map(t => (ids.has(t.id) ? applyBulkAction(t, action, categories) : t)));
+    }
+  };
+
   /**
    * Saves an event, either by creating a new one or updating an existing one.
    * @param {Omit<Event, 'id'> & { id?: string }} event - The event object to save. An optional ID indicates an update.
    */
   const saveEvent = (event: Omit<Event, 'id'> & { id?: string }) => {
+    recordChange('undo_saveEvent', t(event.id ? 'editEventSuccess' : 'addEventSuccess'));
     if (event.id) { // Update existing event
-      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, name: event.name, budget: event.budget } : e));
-      alert(t('editEventSuccess'));
+      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, name: event.name, budget: event.budget, currency: event.currency } : e));
     } else { // Add new event
-      setEvents(prev => [...prev, { name: event.name, budget: event.budget, id: crypto.randomUUID() }]);
-      alert(t('addEventSuccess'));
+      setEvents(prev => [...prev, { name: event.name, budget: event.budget, currency: event.currency, id: crypto.randomUUID() }]);
     }
   };
 
@@ -121,18 +321,69 @@ export default function App(): React.ReactNode {
    * Deletes an event and all its associated transactions after user confirmation.
    * @param {string} eventId - The ID of the event to delete.
    */
-  const deleteEvent = (eventId: string) => {
-    if (window.confirm(t('confirmDeleteEventDesc'))) {
+  const deleteEvent = async (eventId: string) => {
+    if (await confirm({ title: t('deleteEvent'), message: t('confirmDeleteEventDesc'), confirmLabel: t('delete'), danger: true })) {
       // If the user is viewing the deleted event, navigate back to the events list
       if (selectedEventId === eventId) {
         setSelectedEventId(null);
       }
+      recordChange('undo_deleteEvent', t('deleteEventSuccess'));
       setEvents(prev => prev.filter(e => e.id !== eventId));
       setTransactions(prev => prev.filter(t => t.eventId !== eventId));
-      alert(t('deleteEventSuccess'));
     }
   };
   
+  /**
+   * Saves a recurring rule, either by creating a new one or updating an existing one.
+   * Edits apply to future occurrences only; transactions already posted are left as they are.
+   * @param {Omit<RecurringRule, 'id' | 'lastPostedDate'> & { id?: string }} rule - The rule to save. An optional ID indicates an update.
+   */
+  const saveRecurringRule = (rule: Omit<RecurringRule, 'id' | 'lastPostedDate'> & { id?: string }) => {
+    recordChange('undo_saveRecurring', t(rule.id ? 'editRecurringSuccess' : 'addRecurringSuccess'));
+    if (rule.id) { // Update existing rule, keeping its posting progress
+      setRecurringRules(prev => prev.map(r => r.id === rule.id ? { ...rule, id: r.id, lastPostedDate: r.lastPostedDate } : r));
+    } else { // Add new rule; the catch-up effect posts any occurrences already due
+      setRecurringRules(prev => [...prev, { ...rule, id: crypto.randomUUID() }]);
+    }
+  };
+
+  /**
+   * Deletes a recurring rule after user confirmation.
+   * Transactions it has already posted are kept.
+   * @param {string} ruleId - The ID of the rule to delete.
+   */
+  const deleteRecurringRule = async (ruleId: string) => {
+    if (await confirm({ title: t('deleteRecurring'), message: t('confirmDeleteRecurringDesc'), confirmLabel: t('delete'), danger: true })) {
+      recordChange('undo_deleteRecurring');
+      setRecurringRules(prev => prev.filter(r => r.id !== ruleId));
+    }
+  };
+
+  /**
+   * Saves a budget template, either creating a new one or updating an existing one.
+   * @param {Omit<BudgetTemplate, 'id'> & { id?: string }} template - The template to save. An optional ID indicates an update.
+   */
+  const saveBudgetTemplate = (template: Omit<BudgetTemplate, 'id'> & { id?: string }) => {
+    recordChange('undo_saveTemplate', t('templateSavedSuccess'));
+    if (template.id) {
+      setBudgetTemplates(prev => prev.map(tpl => tpl.id === template.id ? { ...template, id: tpl.id } : tpl));
+    } else {
+      setBudgetTemplates(prev => [...prev, { ...template, id: crypto.randomUUID() }]);
+    }
+  };
+
+  /**
+   * Deletes a budget template after user confirmation.
+   * Months it was applied to keep their budgets.
+   * @param {string} templateId - The ID of the template to delete.
+   */
+  const deleteBudgetTemplate = async (templateId: string) => {
+    if (await confirm({ title: t('deleteTemplate'), message: t('confirmDeleteTemplateDesc'), confirmLabel: t('delete'), danger: true })) {
+      recordChange('undo_deleteTemplate');
+      setBudgetTemplates(prev => prev.filter(tpl => tpl.id !== templateId));
+    }
+  };
+
   /**
    * Opens the event modal for adding or editing an event.
    * @param {Event | null} event - The event to edit, or null to add a new one.
@@ -143,29 +394,147 @@ export default function App(): React.ReactNode {
   };
 
   // --- Memoized Calculations for Performance ---
-  const currentMonthKey = new Date().toISOString().slice(0, 7); // YYYY-MM
+  const currentMonthKey = getCurrentMonthKey(); // YYYY-MM
 
   // Filter out event-specific transactions from main budget calculations
   const mainTransactions = useMemo(() => transactions.filter(t => !t.eventId), [transactions]);
 
-  // Filter transactions for the current month for the Dashboard and Analytics views
+  // Budgets with percentage-of-income amounts recalculated from each month's income
+  const resolvedBudgets = useMemo(() => resolveBudgets(budgets, mainTransactions, convert), [budgets, mainTransactions, convert]);
+
+  // Filter transactions for the selected month for the Dashboard view
+  const selectedMonthTransactions = useMemo(() => {
+    return mainTransactions.filter(t => t.date.startsWith(selectedMonthKey));
+  }, [mainTransactions, selectedMonthKey]);
+
+  // Get budget settings for the selected month
+  const selectedMonthBudget = useMemo(() => {
+    return resolvedBudgets[selectedMonthKey] || [];
+  }, [resolvedBudgets, selectedMonthKey]);
+
+  // Reminders are always about the current month, whichever month is being viewed
   const currentMonthTransactions = useMemo(() => {
     return mainTransactions.filter(t => t.date.startsWith(currentMonthKey));
   }, [mainTransactions, currentMonthKey]);
 
-  // Get budget settings for the current month
   const currentMonthBudget = useMemo(() => {
-    return budgets[currentMonthKey] || [];
-  }, [budgets, currentMonthKey]);
+    return resolvedBudgets[currentMonthKey] || [];
+  }, [resolvedBudgets, currentMonthKey]);
+
+  /**
+   * Effect that starts a new month with a copy of the latest budgets, when the user
+   * has turned this on. It fills the current month and any future month being viewed,
+   * but only while no budget has been saved for it, so edits are never overwritten.
+   */
+  useEffect(() => {
+    if (!autoCopyBudgets) return;
+    const monthsToFill = [currentMonthKey, selectedMonthKey]
+      .filter(key => key >= currentMonthKey && budgets[key] === undefined && findPreviousBudgetMonth(budgets, key))
+      .sort();
+    if (monthsToFill.length === 0) return;
+
+    setBudgets(prev => {
+      const next = { ...prev };
+      monthsToFill.forEach(monthKey => {
+        const previousMonth = findPreviousBudgetMonth(next, monthKey);
+        if (previousMonth && next[monthKey] === undefined) next[monthKey] = next[previousMonth].map(budget => ({ ...budget }));
+      });
+      return next;
+    });
+  }, [autoCopyBudgets, budgets, currentMonthKey, selectedMonthKey]);
   
+  // The budget digest delivered by reminders, always about the current month
+  const reminderMessage = useMemo(() => buildBudgetDigest({
+    transactions: currentMonthTransactions,
+    budget: currentMonthBudget,
+    categories,
+    today: getTodayKey(),
+    t,
+    convert,
+    format,
+  }), [currentMonthTransactions, currentMonthBudget, categories, t, convert, format]);
+
+  const { permission: notificationPermission, requestPermission, banner: reminderBanner, dismissBanner } = useReminders(notificationFrequency, reminderMessage);
+
   /**
-   * Updates the budget for the current month in the global state.
-   * @param {Budget[]} newBudgets - An array of budget settings for the current month.
+   * Updates the budget for the selected month in the global state.
+   * @param {Budget[]} newBudgets - An array of budget settings for the selected month.
    */
   const setMonthBudget = (newBudgets: Budget[]) => {
-    setBudgets(prev => ({...prev, [currentMonthKey]: newBudgets}));
+    recordChange('undo_budgets', t('budgetSavedSuccess'));
+    setBudgets(prev => ({...prev, [selectedMonthKey]: newBudgets}));
   }
 
+  /**
+   * Updates the budgets of several months at once, as edited in the budget planner.
+   * @param {Record<string, Budget[]>} monthBudgets - The new budget settings, keyed by month (YYYY-MM).
+   */
+  const saveBudgets = (monthBudgets: Record<string, Budget[]>) => {
+    recordChange('undo_budgets', t('budgetSavedSuccess'));
+    setBudgets(prev => ({ ...prev, ...monthBudgets }));
+  };
+
+  /**
+   * Changes the base currency, converting the budgets, budget templates and rule amount
+   * ranges stored in it, so they keep their value in the new currency.
+   * @param {string} currency - The new base currency.
+   */
+  const changeBaseCurrency = (currency: string) => {
+    if (currency === baseCurrency) return;
+    const converted = convertBaseCurrencyData({ budgets, budgetTemplates, categoryRules }, amount => convert(amount, baseCurrency, currency));
+    recordChange('undo_baseCurrency', t('baseCurrencyChanged', { currency }));
+    setBudgets(converted.budgets);
+    setBudgetTemplates(converted.budgetTemplates);
+    setCategoryRules(converted.categoryRules);
+    setBaseCurrency(currency);
+  };
+
+  /**
+   * Gathers all application data and preferences into a backup.
+   * Includes every transaction, including those linked to events.
+   * @returns {BackupData} The backup at the current schema version.
+   */
+  const createBackupData = (): BackupData => createBackup({
+    transactions,
+    events,
+    categories,
+    budgets,
+    budgetTemplates,
+    recurringRules,
+    categoryRules,
+    settings: {
+      theme: appTheme,
+      language: locale,
+      notificationFrequency,
+      baseCurrency,
+      exchangeRates,
+      autoCopyBudgets,
+    },
+  });
+
+  /**
+   * Replaces all application data with the contents of a backup.
+   * Preferences missing from older backups are left unchanged.
+   * @param {BackupData} data - A backup, already migrated to the current schema version.
+   */
+  const restoreBackup = (data: BackupData) => {
+    recordChange('undo_restoreBackup', t('importSuccess'));
+    setTransactions(data.transactions);
+    setEvents(data.events);
+    setCategories(data.categories);
+    setBudgets(data.budgets);
+    setBudgetTemplates(data.budgetTemplates);
+    setRecurringRules(data.recurringRules);
+    setCategoryRules(data.categoryRules);
+    const { theme, language, notificationFrequency: frequency, baseCurrency: currency, exchangeRates: rates, autoCopyBudgets: autoCopy } = data.settings;
+    if (theme) setAppTheme(theme);
+    if (language) setLocale(language);
+    if (frequency) setNotificationFrequency(frequency);
+    if (currency) setBaseCurrency(currency);
+    if (rates) setExchangeRates(rates);
+    if (autoCopy !== undefined) setAutoCopyBudgets(autoCopy);
+  };
+
   /**
    * Sets the active view, resetting any event-specific view state to avoid stale views.
    * @param {View} view - The new view to display.
@@ -191,21 +560,34 @@ export default function App(): React.ReactNode {
             event={event}
             transactions={transactions.filter(t => t.eventId === selectedEventId)}
             categories={categories}
+            events={events}
             onBack={() => setSelectedEventId(null)}
             onAddExpense={() => setTransactionModalContext({ eventId: selectedEventId })}
             onEdit={handleOpenEventModal}
             onDelete={deleteEvent}
             deleteTransaction={deleteTransaction}
+            onEditTransaction={handleEditTransaction}
+            onBulkAction={handleBulkAction}
         />
     }
 
     switch (activeView) {
       case View.Dashboard:
-        return <Dashboard transactions={currentMonthTransactions} budget={currentMonthBudget} categories={categories} setActiveView={handleSetView} deleteTransaction={deleteTransaction} />;
+        return <Dashboard transactions={selectedMonthTransactions} budget={selectedMonthBudget} categories={categories} setActiveView={handleSetView} deleteTransaction={deleteTransaction} onEditTransaction={handleEditTransaction} />;
       case View.Analytics:
-        return <Analytics transactions={currentMonthTransactions} budget={currentMonthBudget} categories={categories} />;
+        return <Analytics transactions={mainTransactions} budgets={resolvedBudgets} categories={categories} selectedMonthKey={selectedMonthKey} onSelectMonth={setSelectedMonthKey} deleteTransaction={deleteTransaction} onEditTransaction={handleEditTransaction} />;
       case View.History:
-        return <History transactions={mainTransactions} categories={categories} deleteTransaction={deleteTransaction} />;
+        return <History transactions={mainTransactions} categories={categories} events={events} deleteTransaction={deleteTransaction} onEditTransaction={handleEditTransaction} onSearch={() => handleSetView(View.Search)} onBulkAction={handleBulkAction} />;
+      case View.Search:
+        return <Search
+          transactions={transactions}
+          categories={categories}
+          events={events}
+          deleteTransaction={deleteTransaction}
+          onEditTransaction={handleEditTransaction}
+          onBulkAction={handleBulkAction}
+          onBack={() => handleSetView(View.History)}
+        />;
       case View.Events:
         return <Events 
             events={events} 
@@ -219,17 +601,56 @@ export default function App(): React.ReactNode {
         return <Settings 
           categories={categories} 
           setCategories={setCategories}
-          budget={currentMonthBudget} 
+          categoryRules={categoryRules}
+          setCategoryRules={setCategoryRules}
+          budget={selectedMonthBudget} 
           setMonthBudget={setMonthBudget} 
+          budgets={resolvedBudgets}
+          autoCopyBudgets={autoCopyBudgets}
+          setAutoCopyBudgets={setAutoCopyBudgets}
+          budgetTemplates={budgetTemplates}
+          setBudgetTemplates={setBudgetTemplates}
+          onSaveTemplate={saveBudgetTemplate}
+          onOpenPlanner={() => handleSetView(View.BudgetPlanner)}
+          selectedMonthKey={selectedMonthKey}
+          onSelectMonth={setSelectedMonthKey}
           transactions={mainTransactions}
-          setTransactions={setTransactions}
+          allTransactions={transactions}
           events={events}
-          setEvents={setEvents}
-          budgets={budgets}
-          setBudgets={setBudgets}
+          setTransactions={setTransactions}
+          setRecurringRules={setRecurringRules}
+          onCreateBackup={createBackupData}
+          onRestoreBackup={restoreBackup}
+          onRecordChange={recordChange}
+          onChangeBaseCurrency={changeBaseCurrency}
+          onImportTransactions={importTransactions}
+          onManageRecurring={() => handleSetView(View.Recurring)}
+          notificationFrequency={notificationFrequency}
+          setNotificationFrequency={setNotificationFrequency}
+          notificationPermission={notificationPermission}
+          onRequestNotificationPermission={requestPermission}
+        />;
+      case View.Recurring:
+        return <Recurring
+          rules={recurringRules}
+          categories={categories}
+          onSaveRule={saveRecurringRule}
+          onDeleteRule={deleteRecurringRule}
+          onBack={() => handleSetView(View.Settings)}
+        />;
+      case View.BudgetPlanner:
+        return <BudgetPlanner
+          categories={categories}
+          budgets={resolvedBudgets}
+          onSaveBudgets={saveBudgets}
+          transactions={mainTransactions}
+          templates={budgetTemplates}
+          onSaveTemplate={saveBudgetTemplate}
+          onDeleteTemplate={deleteBudgetTemplate}
+          onBack={() => handleSetView(View.Settings)}
         />;
       default:
-        return <Dashboard transactions={currentMonthTransactions} budget={currentMonthBudget} categories={categories} setActiveView={handleSetView} deleteTransaction={deleteTransaction}/>;
+        return <Dashboard transactions={selectedMonthTransactions} budget={selectedMonthBudget} categories={categories} setActiveView={handleSetView} deleteTransaction={deleteTransaction} onEditTransaction={handleEditTransaction} />;
     }
   };
 
@@ -256,6 +677,12 @@ export default function App(): React.ReactNode {
           </header>
 
           <main className="p-4 md:pt-8">
+            {reminderBanner && <ReminderBanner message={reminderBanner} onDismiss={dismissBanner} />}
+            {!selectedEventId && activeView === View.Dashboard && (
+              <div className="mb-6">
+                <PeriodSelector monthKey={selectedMonthKey} onChange={setSelectedMonthKey} />
+              </div>
+            )}
             {renderView()}
           </main>
           
@@ -283,8 +710,13 @@ export default function App(): React.ReactNode {
         isOpen={!!transactionModalContext}
         onClose={() => setTransactionModalContext(null)}
         onAddTransaction={addTransaction}
+        onUpdateTransaction={updateTransaction}
         categories={categories}
+        transactions={transactions}
+        categoryRules={categoryRules}
         eventId={transactionModalContext?.eventId}
+        defaultCurrency={events.find(e => e.id === transactionModalContext?.eventId)?.currency}
+        transactionToEdit={transactionModalContext?.transaction}
       />
 
       <AddEventModal
@@ -293,6 +725,7 @@ export default function App(): React.ReactNode {
         onSaveEvent={saveEvent}
         eventToEdit={eventToEdit}
       />
+
     </div>
   );
 }
\ No newline at end of file
@@ -6,6 +6,9 @@
 import React, { useState, useEffect } from 'react';
 import { Event } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../constants';
 
 /**
  * Props for the AddEventModal component.
@@ -28,9 +31,12 @@ interface AddEventModalProps {
  */
 export default function AddEventModal({ isOpen, onClose, onSaveEvent, eventToEdit }: AddEventModalProps): React.ReactNode {
   const { t } = useLocalization();
+  const { showToast } = useToast();
+  const { baseCurrency } = useCurrency();
   // Form state
   const [name, setName] = useState('');
   const [budget, setBudget] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
   const isEditing = !!eventToEdit;
 
   /**
@@ -43,12 +49,14 @@ export default function AddEventModal({ isOpen, onClose, onSaveEvent, eventToEdi
       if (eventToEdit) {
         setName(eventToEdit.name);
         setBudget(eventToEdit.budget.toString());
+        setCurrency(eventToEdit.currency || DEFAULT_CURRENCY);
       } else {
         setName('');
         setBudget('');
+        setCurrency(baseCurrency);
       }
     }
-  }, [isOpen, eventToEdit]);
+  }, [isOpen, eventToEdit, baseCurrency]);
   
   /**
    * Handles the form submission.
@@ -58,18 +66,19 @@ export default function AddEventModal({ isOpen, onClose, onSaveEvent, eventToEdi
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
-      alert(t('errorEventName'));
+      showToast(t('errorEventName'), { type: 'error' });
       return;
     }
     const budgetAmount = parseFloat(budget);
     if (isNaN(budgetAmount) || budgetAmount <= 0) {
-      alert(t('errorEventBudget'));
+      showToast(t('errorEventBudget'), { type: 'error' });
       return;
     }
     onSaveEvent({
       id: eventToEdit?.id,
       name,
       budget: budgetAmount,
+      currency,
     });
     onClose();
   };
@@ -98,16 +107,23 @@ export default function AddEventModal({ isOpen, onClose, onSaveEvent, eventToEdi
           {/* Event Budget Input */}
           <div>
             <label htmlFor="event-budget" className="block text-sm font-medium text-text-secondary">{t('eventBudget')}</label>
-            <div className="relative mt-1">
-              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                <span className="text-text-secondary sm:text-sm">{t('currencySymbol')}</span>
-              </div>
+            <div className="mt-1 flex space-x-2">
+              <select
+                value={currency}
+                onChange={e => setCurrency(e.target.value)}
+                className="bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                aria-label={t('currency')}
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
               <input
                 type="number"
                 id="event-budget"
                 value={budget}
                 onChange={e => setBudget(e.target.value)}
-                className="w-full pl-7 pr-2 py-2 bg-input border-transparent rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
+                className="flex-1 min-w-0 px-2 py-2 bg-input border-transparent rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
                 placeholder="0.00"
                 step="0.01"
               />
@@ -1,66 +1,234 @@
 /**
- * @file Renders a modal for adding a new transaction (income or expense).
+ * @file Renders a modal for adding a new transaction (income or expense),
+ * or for editing an existing one.
  */
 
-import React, { useState, useEffect } from 'react';
-import { Transaction, Category } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Transaction, TransactionSplit, Category, CategoryRule } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
 import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../constants';
+import { findMatchingRule } from '../utils/categoryRules';
+import CategoryOptions from './CategoryOptions';
+import { filterCategoriesByKind } from '../utils/categories';
+import { isSplitBalanced } from '../utils/splits';
+import { PlusIcon, XMarkIcon } from './icons';
+import { DescriptionSuggestion, buildDescriptionIndex, getDescriptionSuggestions } from '../utils/suggestions';
+import { getTodayKey } from '../utils/date';
+import { useClickOutside } from '../hooks/useClickOutside';
 
 interface AddTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddTransaction: (transaction: Omit<Transaction, 'id'>) => void;
+  /** Callback to save changes to an existing transaction. */
+  onUpdateTransaction: (transaction: Transaction) => void;
   categories: Category[];
+  /** The transaction history, used to suggest previous descriptions while typing. */
+  transactions?: Transaction[];
+  /** The auto-categorisation rules used to suggest a category from the description. */
+  categoryRules?: CategoryRule[];
   eventId?: string;
+  /** The transaction to edit. If null or undefined, the modal is in 'add' mode. */
+  transactionToEdit?: Transaction | null;
+  /** The currency preselected for new transactions (e.g., an event's currency). Defaults to the base currency. */
+  defaultCurrency?: string;
 }
 
-export default function AddTransactionModal({ isOpen, onClose, onAddTransaction, categories, eventId }: AddTransactionModalProps): React.ReactNode {
+export default function AddTransactionModal({ isOpen, onClose, onAddTransaction, onUpdateTransaction, categories, transactions = [], categoryRules = [], eventId, transactionToEdit, defaultCurrency }: AddTransactionModalProps): React.ReactNode {
   const { t } = useLocalization();
+  const { showToast } = useToast();
+  const { baseCurrency, convert, format } = useCurrency();
+  const isEditing = !!transactionToEdit;
+  // When editing, the event link always comes from the transaction itself
+  const activeEventId = transactionToEdit ? transactionToEdit.eventId : eventId;
 
   const [type, setType] = useState<'income' | 'expense'>('expense');
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
   const [description, setDescription] = useState('');
   const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
   const [categoryId, setCategoryId] = useState('');
+  // The lines of a split expense as typed, or null when the expense isn't split
+  const [splitLines, setSplitLines] = useState<{ categoryId: string; amount: string }[] | null>(null);
+
+  // Description autocomplete state
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
+  const descriptionFieldRef = useRef<HTMLDivElement>(null);
+  useClickOutside(descriptionFieldRef, () => setShowSuggestions(false));
+
+  // The categories offered for the selected type
+  const typeCategories = useMemo(() => filterCategoriesByKind(categories, type), [categories, type]);
 
   useEffect(() => {
     if (isOpen) {
-      // Reset form on open
-      setType(eventId ? 'expense' : 'expense');
-      setAmount('');
-      setDescription('');
-      setDate(new Date().toISOString().slice(0, 10));
-      setCategoryId('');
+      if (transactionToEdit) {
+        // Populate the form with the transaction being edited
+        setType(transactionToEdit.type);
+        setAmount(transactionToEdit.amount.toString());
+        setCurrency(transactionToEdit.currency || DEFAULT_CURRENCY);
+        setDescription(transactionToEdit.description);
+        setDate(transactionToEdit.date);
+        setCategoryId(transactionToEdit.categoryId || '');
+        setSplitLines(transactionToEdit.splits ? transactionToEdit.splits.map(split => ({ categoryId: split.categoryId, amount: split.amount.toString() })) : null);
+      } else {
+        // Reset form on open
+        setType('expense');
+        setAmount('');
+        setCurrency(defaultCurrency || baseCurrency);
+        setDescription('');
+        setDate(new Date().toISOString().slice(0, 10));
+        setCategoryId('');
+        setSplitLines(null);
+      }
+      setShowSuggestions(false);
     }
-  }, [isOpen, eventId]);
+  }, [isOpen, transactionToEdit, defaultCurrency, baseCurrency]);
+
+  /**
+   * Switches between expense and income, clearing a category of the other kind.
+   * @param {'income' | 'expense'} newType - The type to switch to.
+   */
+  const handleTypeChange = (newType: 'income' | 'expense') => {
+    setType(newType);
+    if (!filterCategoriesByKind(categories, newType).some(c => c.id === categoryId)) setCategoryId('');
+    // Only expenses can be split
+    if (newType === 'income') setSplitLines(null);
+  };
+
+  /**
+   * Turns splitting on, starting with the current category and amount as the first
+   * line, or off, keeping the first line's category.
+   */
+  const handleToggleSplit = () => {
+    if (splitLines) {
+      setCategoryId(splitLines[0]?.categoryId || '');
+      setSplitLines(null);
+    } else {
+      setSplitLines([{ categoryId, amount }, { categoryId: '', amount: '' }]);
+    }
+  };
+
+  /**
+   * Updates a field of a split line.
+   * @param {number} index - The position of the line.
+   * @param {'categoryId' | 'amount'} field - The field to update.
+   * @param {string} value - The new value.
+   */
+  const handleSplitLineChange = (index: number, field: 'categoryId' | 'amount', value: string) => {
+    setSplitLines(prev => prev && prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  // What is left of the amount once the split lines are taken off; negative if they add up to more
+  const splitRemaining = splitLines
+    ? (parseFloat(amount) || 0) - splitLines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0)
+    : 0;
+
+  /**
+   * Memoized list of previously used descriptions, ranked by frequency and recency.
+   * Only built while the modal is open.
+   */
+  const descriptionIndex = useMemo(() => (isOpen ? buildDescriptionIndex(transactions, getTodayKey()) : []), [isOpen, transactions]);
+
+  /**
+   * Memoized autocomplete suggestions for the description typed so far.
+   */
+  const descriptionSuggestions = useMemo(
+    () => (showSuggestions ? getDescriptionSuggestions(descriptionIndex, description, type) : []),
+    [showSuggestions, descriptionIndex, description, type],
+  );
+
+  /**
+   * Fills the form from a suggested description: the description itself, the category
+   * it was last filed under, and its last amount and currency if no amount is entered yet.
+   * @param {DescriptionSuggestion} suggestion - The picked suggestion.
+   */
+  const handleSelectSuggestion = (suggestion: DescriptionSuggestion) => {
+    setDescription(suggestion.description);
+    if (suggestion.categoryId && typeCategories.some(c => c.id === suggestion.categoryId)) {
+      setCategoryId(suggestion.categoryId);
+    }
+    if (!amount) {
+      setAmount(suggestion.amount.toString());
+      setCurrency(suggestion.currency || DEFAULT_CURRENCY);
+    }
+    setShowSuggestions(false);
+  };
+
+  /**
+   * Handles keyboard navigation in the autocomplete list.
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - The keyboard event.
+   */
+  const handleDescriptionKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (descriptionSuggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedSuggestion(prev => (prev + step + descriptionSuggestions.length) % descriptionSuggestions.length);
+    } else if (e.key === 'Enter' && highlightedSuggestion >= 0) {
+      e.preventDefault();
+      handleSelectSuggestion(descriptionSuggestions[highlightedSuggestion]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  /**
+   * Memoized category suggested by the first matching rule, once a description is typed.
+   * Only offered when the category is of the selected type and differs from the selected category.
+   */
+  const suggestedCategory = useMemo(() => {
+    if (!description.trim()) return undefined;
+    const rule = findMatchingRule(categoryRules, { type, amount: parseFloat(amount) || 0, currency, description }, convert);
+    return rule && rule.categoryId !== categoryId ? typeCategories.find(c => c.id === rule.categoryId) : undefined;
+  }, [type, description, amount, currency, categoryId, categoryRules, typeCategories, convert]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const parsedAmount = parseFloat(amount);
     if (isNaN(parsedAmount) || parsedAmount <= 0) {
-      alert(t('errorAmount'));
+      showToast(t('errorAmount'), { type: 'error' });
       return;
     }
     if (!description.trim()) {
-      alert(t('errorDescription'));
+      showToast(t('errorDescription'), { type: 'error' });
       return;
     }
-    if (type === 'expense' && !categoryId) {
-      alert(t('errorCategory'));
+    const splits: TransactionSplit[] | undefined = splitLines?.map(line => ({ categoryId: line.categoryId, amount: parseFloat(line.amount) || 0 }));
+    if (splits) {
+      if (splits.length < 2 || splits.some(split => !split.categoryId || split.amount <= 0)) {
+        showToast(t('errorSplitLines'), { type: 'error' });
+        return;
+      }
+      if (!isSplitBalanced(parsedAmount, splits)) {
+        showToast(t('errorSplitTotal', { total: format(parsedAmount - splitRemaining, currency), amount: format(parsedAmount, currency) }), { type: 'error' });
+        return;
+      }
+    } else if (type === 'expense' && !categoryId) {
+      showToast(t('errorCategory'), { type: 'error' });
       return;
     }
 
     const newTransaction: Omit<Transaction, 'id'> = {
       type,
       amount: parsedAmount,
+      currency,
       description: description.trim(),
       date,
-      categoryId: type === 'expense' ? categoryId : undefined,
-      eventId: eventId,
+      // A split expense is filed under the category of its first line
+      categoryId: splits ? splits[0].categoryId : categoryId || undefined,
+      ...(splits ? { splits } : {}),
+      eventId: activeEventId,
     };
 
-    onAddTransaction(newTransaction);
+    if (transactionToEdit) {
+      onUpdateTransaction({ ...newTransaction, id: transactionToEdit.id });
+    } else {
+      onAddTransaction(newTransaction);
+    }
     onClose();
   };
 
@@ -70,17 +238,17 @@ export default function AddTransactionModal({ isOpen, onClose, onAddTransaction,
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
       <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          <h2 className="text-xl font-bold text-center">{t('newTransaction')}</h2>
+          <h2 className="text-xl font-bold text-center">{isEditing ? t('editTransaction') : t('newTransaction')}</h2>
 
           {/* Type Selector */}
-          {!eventId && ( // Don't show type selector for events, they are always expenses
+          {!activeEventId && ( // Don't show type selector for events, they are always expenses
             <div>
               <label className="block text-sm font-medium text-text-secondary">{t('type')}</label>
               <div className="mt-1 grid grid-cols-2 gap-2 rounded-lg bg-input p-1">
-                <button type="button" onClick={() => setType('expense')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === 'expense' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                <button type="button" onClick={() => handleTypeChange('expense')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === 'expense' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
                   {t('expense')}
                 </button>
-                <button type="button" onClick={() => setType('income')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === 'income' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                <button type="button" onClick={() => handleTypeChange('income')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === 'income' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
                   {t('income')}
                 </button>
               </div>
@@ -90,33 +258,73 @@ export default function AddTransactionModal({ isOpen, onClose, onAddTransaction,
           {/* Amount */}
           <div>
             <label htmlFor="amount" className="block text-sm font-medium text-text-secondary">{t('amount')}</label>
-            <div className="relative mt-1">
-              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                <span className="text-text-secondary sm:text-sm">{t('currencySymbol')}</span>
-              </div>
+            <div className="mt-1 flex space-x-2">
+              <select
+                value={currency}
+                onChange={e => setCurrency(e.target.value)}
+                className="bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                aria-label={t('currency')}
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
               <input
                 type="number"
                 id="amount"
                 value={amount}
                 onChange={e => setAmount(e.target.value)}
-                className="w-full pl-7 pr-2 py-2 bg-input border-transparent rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
+                className="flex-1 min-w-0 px-2 py-2 bg-input border-transparent rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
                 placeholder="0.00"
                 step="0.01"
               />
             </div>
           </div>
 
-          {/* Description */}
-          <div>
+          {/* Description, with autocomplete from previous transactions */}
+          <div className="relative" ref={descriptionFieldRef}>
             <label htmlFor="description" className="block text-sm font-medium text-text-secondary">{t('description')}</label>
             <input
               type="text"
               id="description"
               value={description}
-              onChange={e => setDescription(e.target.value)}
+              onChange={e => {
+                setDescription(e.target.value);
+                setShowSuggestions(true);
+                setHighlightedSuggestion(-1);
+              }}
+              onKeyDown={handleDescriptionKeyDown}
               className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
               placeholder="e.g., Coffee"
+              autoComplete="off"
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={descriptionSuggestions.length > 0}
+              aria-controls="description-suggestions"
             />
+            {descriptionSuggestions.length > 0 && (
+              <ul id="description-suggestions" role="listbox" className="absolute z-20 mt-1 w-full bg-surface border border-border rounded-lg shadow-lg max-h-60 overflow-auto">
+                {descriptionSuggestions.map((suggestion, index) => {
+                  const category = suggestion.categoryId ? categories.find(c => c.id === suggestion.categoryId) : undefined;
+                  return (
+                    <li
+                      key={suggestion.description}
+                      role="option"
+                      aria-selected={index === highlightedSuggestion}
+                      onMouseDown={e => e.preventDefault()} // Keep focus in the input
+                      onClick={() => handleSelectSuggestion(suggestion)}
+                      className={`p-2 m-1 rounded-md cursor-pointer flex justify-between items-center hover:bg-border/50 ${index === highlightedSuggestion ? 'bg-primary/10 text-primary' : ''}`}
+                    >
+                      <span className="truncate">{suggestion.description}</span>
+                      <span className="ml-3 text-sm text-text-secondary whitespace-nowrap">
+                        {category && `${category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name} · `}
+                        {format(suggestion.amount, suggestion.currency || DEFAULT_CURRENCY)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
           </div>
 
           {/* Date */}
@@ -132,7 +340,59 @@ export default function AddTransactionModal({ isOpen, onClose, onAddTransaction,
           </div>
 
           {/* Category */}
-          {type === 'expense' && (
+          {splitLines ? (
+            <div className="space-y-2">
+              <span className="block text-sm font-medium text-text-secondary">{t('category')}</span>
+              {splitLines.map((line, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select
+                    value={line.categoryId}
+                    onChange={e => handleSplitLineChange(index, 'categoryId', e.target.value)}
+                    aria-label={t('category')}
+                    className="flex-1 min-w-0 bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                  >
+                    <option value="" disabled>{t('selectCategory')}</option>
+                    <CategoryOptions categories={typeCategories} />
+                  </select>
+                  <input
+                    type="number"
+                    value={line.amount}
+                    onChange={e => handleSplitLineChange(index, 'amount', e.target.value)}
+                    aria-label={t('amount')}
+                    className="w-28 bg-input border-transparent rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none"
+                    placeholder="0.00"
+                    step="0.01"
+                    min="0"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSplitLines(prev => prev && prev.filter((_, i) => i !== index))}
+                    disabled={splitLines.length <= 2}
+                    className="p-2 rounded-md text-text-secondary hover:bg-input hover:text-danger transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    aria-label={t('removeSplitLine')}
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => setSplitLines(prev => prev && [...prev, { categoryId: '', amount: splitRemaining > 0 ? (Math.round(splitRemaining * 100) / 100).toString() : '' }])}
+                  className="flex items-center space-x-1 text-primary font-medium hover:underline"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  <span>{t('addSplitLine')}</span>
+                </button>
+                {!isSplitBalanced(parseFloat(amount) || 0, splitLines.map(line => ({ categoryId: line.categoryId, amount: parseFloat(line.amount) || 0 }))) && (
+                  <span className={splitRemaining < 0 ? 'text-danger' : 'text-text-secondary'}>
+                    {t(splitRemaining < 0 ? 'splitOver' : 'splitRemaining', { amount: format(Math.abs(splitRemaining), currency) })}
+                  </span>
+                )}
+              </div>
+              <button type="button" onClick={handleToggleSplit} className="text-sm text-text-secondary hover:underline">{t('unsplitTransaction')}</button>
+            </div>
+          ) : (
             <div>
               <label htmlFor="category" className="block text-sm font-medium text-text-secondary">{t('category')}</label>
               <select
@@ -141,13 +401,23 @@ export default function AddTransactionModal({ isOpen, onClose, onAddTransaction,
                 onChange={e => setCategoryId(e.target.value)}
                 className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
               >
-                <option value="" disabled>{t('selectCategory')}</option>
-                {categories.map(cat => (
-                  <option key={cat.id} value={cat.id}>
-                    {cat.name.startsWith('category_') ? t(cat.name as TranslationKey) : cat.name}
-                  </option>
-                ))}
+                {type === 'income'
+                  ? <option value="">{t('noIncomeCategory')}</option>
+                  : <option value="" disabled>{t('selectCategory')}</option>}
+                <CategoryOptions categories={typeCategories} />
               </select>
+              {suggestedCategory && (
+                <button
+                  type="button"
+                  onClick={() => setCategoryId(suggestedCategory.id)}
+                  className="mt-2 py-1 px-3 rounded-full text-sm font-medium bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                >
+                  {t('suggestedCategory', { category: suggestedCategory.name.startsWith('category_') ? t(suggestedCategory.name as TranslationKey) : suggestedCategory.name })}
+                </button>
+              )}
+              {type === 'expense' && (
+                <button type="button" onClick={handleToggleSplit} className="mt-2 block text-sm text-primary font-medium hover:underline">{t('splitTransaction')}</button>
+              )}
             </div>
           )}
 
@@ -3,24 +3,48 @@
  * @file Renders the analytics view.
  * This component visualizes spending for each category against its budget
  * using progress bars, helping users understand their spending habits.
+ * The period can be a single month or a range such as the last 30 days or the
+ * quarter so far, with the monthly budgets it spans added together. Categories
+ * nested in a group roll up into the group's row, which can be expanded to show
+ * each of them. Trend charts
+ * below show how income, expenses and each category evolve month by month, and
+ * donut charts break the period's expenses down by category and its income by source.
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Transaction, Budget, Category } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
 // FIX: Corrected import path for locales/en.ts
 import { TranslationKey } from '../locales/en';
+import { getTodayKey, parseDateKey } from '../utils/date';
+import { ANALYTICS_RANGE_PRESETS, AnalyticsRangePreset, DateRange, getBudgetForRange, getMonthDateRange, getPresetDateRange } from '../utils/analytics';
+import { getCarryOver } from '../utils/budgets';
+import { filterCategoriesByKind, getCategoryGroups } from '../utils/categories';
+import { getCategoryAmount } from '../utils/splits';
+import { ChevronDownIcon, ChevronUpIcon } from './icons';
+import PeriodSelector from './PeriodSelector';
+import SpendingTrends from './SpendingTrends';
+import CategoryBreakdown from './CategoryBreakdown';
 
 /**
  * Props for the Analytics component.
  */
 interface AnalyticsProps {
-  /** The list of transactions for the current month. */
+  /** The list of all main transactions (excluding event transactions). */
   transactions: Transaction[];
-  /** The budget settings for the current month. */
-  budget: Budget[];
+  /** All budget settings, keyed by month (YYYY-MM). */
+  budgets: Record<string, Budget[]>;
   /** The list of all available categories. */
   categories: Category[];
+  /** The month shown when the 'month' range is selected, in YYYY-MM format. */
+  selectedMonthKey: string;
+  /** Function to change the selected month. */
+  onSelectMonth: (monthKey: string) => void;
+  /** Function to delete a transaction by its ID. */
+  deleteTransaction: (id: string) => void;
+  /** Function to open a transaction for editing. */
+  onEditTransaction: (transaction: Transaction) => void;
 }
 
 /**
@@ -28,98 +52,293 @@ interface AnalyticsProps {
  * @param {AnalyticsProps} props - The props for the component.
  * @returns The rendered analytics UI.
  */
-export default function Analytics({ transactions, budget, categories }: AnalyticsProps): React.ReactNode {
-  const { t } = useLocalization();
+export default function Analytics({ transactions, budgets, categories, selectedMonthKey, onSelectMonth, deleteTransaction, onEditTransaction }: AnalyticsProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { convert, format } = useCurrency();
+
+  // The selected range preset, and the dates of the custom range
+  const [preset, setPreset] = useState<AnalyticsRangePreset>('month');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getMonthDateRange(selectedMonthKey));
+  // The IDs of the groups expanded to show their categories
+  const [expandedGroups, setExpandedGroups] = useState<string[]>([]);
+
+  /**
+   * Memoized calculation of the date range being analysed.
+   */
+  const range: DateRange = useMemo(() => {
+    if (preset === 'month') return getMonthDateRange(selectedMonthKey);
+    if (preset === 'custom') return customRange;
+    return getPresetDateRange(preset, getTodayKey());
+  }, [preset, selectedMonthKey, customRange]);
+
+  /**
+   * Memoized calculation of the budgeted amount per category over the range.
+   */
+  const budgetByCategory = useMemo(() => getBudgetForRange(budgets, range), [budgets, range]);
+
+  /**
+   * Memoized calculation of the amounts carried over into the selected month by
+   * categories with rollover turned on. Only a single month has a carry-over.
+   */
+  const carryOver = useMemo(
+    () => (preset === 'month' ? getCarryOver(budgets, transactions, selectedMonthKey, convert) : new Map<string, number>()),
+    [preset, budgets, transactions, selectedMonthKey, convert]
+  );
 
   /**
-   * Memoized calculation to filter only expense transactions.
+   * Memoized calculation to filter only expense transactions within the range.
    */
-  const expenses = useMemo(() => transactions.filter(t => t.type === 'expense'), [transactions]);
+  const expenses = useMemo(
+    () => transactions.filter(t => t.type === 'expense' && t.date >= range.from && t.date <= range.to),
+    [transactions, range]
+  );
+
+  /**
+   * Memoized calculation to filter only income transactions within the range.
+   */
+  const incomes = useMemo(
+    () => transactions.filter(t => t.type === 'income' && t.date >= range.from && t.date <= range.to),
+    [transactions, range]
+  );
+
+  /**
+   * Formats a date key for display, e.g., "Jul 3, 2023".
+   * @param {string} dateKey - The date in YYYY-MM-DD format.
+   * @returns The formatted date.
+   */
+  const formatDate = (dateKey: string) =>
+    parseDateKey(dateKey).toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
 
   /**
    * Memoized calculation to process and aggregate spending data per category.
    * It combines data from categories, budgets, and expenses, sorts them by
    * spending percentage (over-budget items first), and prepares it for rendering.
+   * Each group is a single row adding up the spending of its categories. A budget
+   * set on the group's own category covers the whole group; without one, the
+   * budgets of its categories are added up.
    */
   const spendingData = useMemo(() => {
-    return categories.map(category => {
-      const categoryBudget = budget.find(b => b.categoryId === category.id)?.amount || 0;
+    /**
+     * Builds the spending row of a single category.
+     * @param {Category} category - The category.
+     * @returns The category's spending, budget and display details.
+     */
+    const buildRow = (category: Category) => {
+      const categoryBudget = budgetByCategory.get(category.id) || 0;
+      const carried = carryOver.get(category.id) || 0;
       const categorySpent = expenses
-        .filter(e => e.categoryId === category.id)
-        .reduce((sum, e) => sum + e.amount, 0);
+        .reduce((sum, e) => sum + convert(getCategoryAmount(e, category.id), e.currency), 0);
 
       return {
+        id: category.id,
         name: category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name,
         spent: categorySpent,
-        budget: categoryBudget,
+        // The budget available to spend: the month's budget plus what was carried over
+        budget: Math.max(categoryBudget + carried, 0),
+        baseBudget: categoryBudget,
+        carried,
         color: category.color,
       };
-    }).filter(d => d.budget > 0 || d.spent > 0) // Only show categories with activity
-    .sort((a, b) => { // Sort by percentage of budget spent
+    };
+    type SpendingRow = ReturnType<typeof buildRow>;
+
+    const hasActivity = (d: SpendingRow) => d.baseBudget > 0 || d.carried !== 0 || d.spent > 0; // Only show categories with activity
+    const byPercentSpent = (a: SpendingRow, b: SpendingRow) => { // Sort by percentage of budget spent
         const percentA = a.budget > 0 ? a.spent / a.budget : (a.spent > 0 ? Infinity : 0);
         const percentB = b.budget > 0 ? b.spent / b.budget : (b.spent > 0 ? Infinity : 0);
         return percentB - percentA;
-    });
-  }, [categories, budget, expenses, t]);
+    };
+    const sum = (rows: SpendingRow[], field: 'spent' | 'budget' | 'baseBudget' | 'carried') => rows.reduce((total, row) => total + row[field], 0);
+
+    return getCategoryGroups(filterCategoriesByKind(categories, 'expense')).map(({ parent, children }) => {
+      const own = buildRow(parent);
+      const childRows = children.map(buildRow).filter(hasActivity).sort(byPercentSpent);
+      if (childRows.length === 0) return { ...own, children: childRows };
+      const hasGroupBudget = own.baseBudget > 0 || own.carried !== 0;
+      return {
+        ...own,
+        spent: own.spent + sum(childRows, 'spent'),
+        budget: hasGroupBudget ? own.budget : sum(childRows, 'budget'),
+        baseBudget: hasGroupBudget ? own.baseBudget : sum(childRows, 'baseBudget'),
+        carried: hasGroupBudget ? own.carried : sum(childRows, 'carried'),
+        children: childRows,
+      };
+    }).filter(hasActivity).sort(byPercentSpent);
+  }, [categories, budgetByCategory, carryOver, expenses, t, convert]);
+
+  /**
+   * Expands or collapses the categories of a group.
+   * @param {string} groupId - The ID of the group's own category.
+   */
+  const toggleGroup = (groupId: string) => {
+    setExpandedGroups(prev => (prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]));
+  };
+
+  /**
+   * Renders the name, amounts and progress bar of a spending row.
+   * @param data - The row of a category or group.
+   * @param {boolean} isChild - Whether the row is a category inside an expanded group.
+   * @returns The rendered row.
+   */
+  const renderSpendingRow = (data: Omit<typeof spendingData[number], 'children'>, isChild: boolean) => {
+    const isOverBudget = (data.budget > 0 || data.carried < 0) && data.spent > data.budget;
+    const percentage = data.budget > 0 ? Math.min((data.spent / data.budget) * 100, 100) : (data.spent > 0 ? 100 : 0);
 
-  // Render a message if there's no data to display.
-  if (spendingData.length === 0) {
     return (
+      <>
+        <div className="flex justify-between items-baseline mb-1">
+          <span className={`${isChild ? 'text-sm' : 'font-medium'} text-text-primary`}>{data.name}</span>
+          <span className="text-sm text-text-secondary whitespace-nowrap">
+            {format(data.spent)} / {format(data.budget)}
+          </span>
+        </div>
+        {data.carried !== 0 && (
+          <p className="text-right text-xs text-text-secondary mb-1">
+            {t('budgetPlusCarried', { budget: format(data.baseBudget), carried: format(data.carried, undefined, { signDisplay: 'always' }) })}
+          </p>
+        )}
+        {/* Progress bar for visual representation */}
+        <div
+          className={`w-full bg-input rounded-full ${isChild ? 'h-2' : 'h-4'} relative overflow-hidden`}
+          role="progressbar"
+          aria-valuenow={data.spent}
+          aria-valuemin={0}
+          aria-valuemax={data.budget > 0 ? data.budget : data.spent}
+          aria-label={`${data.name} spending`}
+          aria-valuetext={`${format(data.spent)} / ${format(data.budget)}`}
+        >
+          <div 
+            className={`${isChild ? 'h-2' : 'h-4'} rounded-full transition-all duration-500`} 
+            style={{ 
+                width: `${percentage}%`, 
+                backgroundColor: isOverBudget ? 'hsl(var(--danger))' : data.color
+            }}
+          ></div>
+        </div>
+        {/* Warning message if over budget */}
+        {isOverBudget && (
+          <p className="text-right text-xs text-danger mt-1">
+            {t('overBudgetWarning', {amount: format(data.spent - data.budget)})}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  const totalSpent = spendingData.reduce((sum, d) => sum + d.spent, 0);
+  const totalBudget = spendingData.reduce((sum, d) => sum + d.budget, 0);
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+
+  return (
+    <div className="space-y-8">
+      {/* Range Selector */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap justify-center gap-2" role="group" aria-label={t('analyticsRange')}>
+          {ANALYTICS_RANGE_PRESETS.map(option => (
+            <button
+              key={option}
+              onClick={() => setPreset(option)}
+              className={`py-1 px-3 rounded-full text-sm font-medium transition-colors ${preset === option ? 'bg-primary text-white' : 'bg-input hover:bg-border'}`}
+              aria-pressed={preset === option}
+            >
+              {t(`analyticsRange_${option}` as TranslationKey)}
+            </button>
+          ))}
+        </div>
+        {preset === 'month' && <PeriodSelector monthKey={selectedMonthKey} onChange={onSelectMonth} />}
+        {preset === 'custom' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="analytics-from" className="block text-sm font-medium text-text-secondary">{t('exportFrom')}</label>
+              <input
+                type="date"
+                id="analytics-from"
+                value={customRange.from}
+                onChange={e => setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="analytics-to" className="block text-sm font-medium text-text-secondary">{t('exportTo')}</label>
+              <input
+                type="date"
+                id="analytics-to"
+                value={customRange.to}
+                onChange={e => setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+              />
+            </div>
+          </div>
+        )}
+        {preset !== 'month' && isRangeValid && (
+          <p className="text-center text-sm text-text-secondary">{formatDate(range.from)} – {formatDate(range.to)}</p>
+        )}
+      </div>
+
+      {!isRangeValid ? (
+        <p className="text-center text-danger">{t('errorEndDate')}</p>
+      ) : spendingData.length === 0 ? (
+        // Render a message if there's no data to display.
         <div className="text-center py-10 px-4">
             <h2 className="text-xl font-semibold mb-2">{t('spendingAnalytics')}</h2>
             <p className="text-text-secondary">
                 {t('noSpendingData')}
             </p>
         </div>
-    );
-  }
-
-  return (
-    <div className="space-y-8">
+      ) : (
       <div>
         <h2 className="text-xl font-semibold mb-4 text-center">{t('spendingVsBudget')}</h2>
+        {/* Totals for the whole range */}
+        <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 mb-4 flex justify-between items-baseline">
+          <span className="font-semibold">{t('analyticsTotal')}</span>
+          <span className={`text-sm whitespace-nowrap ${totalBudget > 0 && totalSpent > totalBudget ? 'text-danger' : 'text-text-secondary'}`}>
+            {format(totalSpent)} / {format(totalBudget)}
+          </span>
+        </div>
         <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 sm:p-6 space-y-6">
-          {spendingData.map((data) => {
-            const isOverBudget = data.budget > 0 && data.spent > data.budget;
-            const percentage = data.budget > 0 ? Math.min((data.spent / data.budget) * 100, 100) : (data.spent > 0 ? 100 : 0);
-            
+          {spendingData.map(data => {
+            const isExpanded = expandedGroups.includes(data.id);
             return (
-              <div key={data.name}>
-                <div className="flex justify-between items-baseline mb-1">
-                  <span className="font-medium text-text-primary">{data.name}</span>
-                  <span className="text-sm text-text-secondary whitespace-nowrap">
-                    {t('currencySymbol')}{data.spent.toFixed(2)} / {t('currencySymbol')}{data.budget.toFixed(2)}
-                  </span>
-                </div>
-                {/* Progress bar for visual representation */}
-                <div
-                  className="w-full bg-input rounded-full h-4 relative overflow-hidden"
-                  role="progressbar"
-                  aria-valuenow={data.spent}
-                  aria-valuemin={0}
-                  aria-valuemax={data.budget > 0 ? data.budget : data.spent}
-                  aria-label={`${data.name} spending`}
-                  aria-valuetext={`${t('currencySymbol')}${data.spent.toFixed(2)} / ${t('currencySymbol')}${data.budget.toFixed(2)}`}
-                >
-                  <div 
-                    className="h-4 rounded-full transition-all duration-500" 
-                    style={{ 
-                        width: `${percentage}%`, 
-                        backgroundColor: isOverBudget ? 'hsl(var(--danger))' : data.color
-                    }}
-                  ></div>
-                </div>
-                {/* Warning message if over budget */}
-                {isOverBudget && (
-                  <p className="text-right text-xs text-danger mt-1">
-                    {t('overBudgetWarning', {amount: `${t('currencySymbol')}${(data.spent - data.budget).toFixed(2)}`})}
-                  </p>
+              <div key={data.id}>
+                {renderSpendingRow(data, false)}
+                {data.children.length > 0 && (
+                  <>
+                    <button
+                      onClick={() => toggleGroup(data.id)}
+                      className="mt-1 flex items-center space-x-1 text-xs font-medium text-text-secondary hover:text-primary"
+                      aria-expanded={isExpanded}
+                    >
+                      {isExpanded ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+                      <span>{t(isExpanded ? 'hideGroupCategories' : 'showGroupCategories', { count: data.children.length })}</span>
+                    </button>
+                    {isExpanded && (
+                      <div className="mt-3 pl-4 border-l-2 border-border space-y-4">
+                        {data.children.map(child => <div key={child.id}>{renderSpendingRow(child, true)}</div>)}
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             );
           })}
         </div>
       </div>
+      )}
+
+      {isRangeValid && (
+        <>
+          <CategoryBreakdown kind="expense" transactions={expenses} categories={categories} deleteTransaction={deleteTransaction} onEditTransaction={onEditTransaction} />
+          <CategoryBreakdown kind="income" transactions={incomes} categories={categories} deleteTransaction={deleteTransaction} onEditTransaction={onEditTransaction} />
+        </>
+      )}
+
+      {/* Month-by-month trends up to the end of the selected period */}
+      <SpendingTrends
+        transactions={transactions}
+        budgets={budgets}
+        categories={categories}
+        lastMonthKey={(isRangeValid ? range.to : `${selectedMonthKey}-01`).slice(0, 7)}
+      />
     </div>
   );
 }
\ No newline at end of file
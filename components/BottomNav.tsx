@@ -67,13 +67,13 @@ export default function BottomNav({ activeView, setActiveView }: BottomNavProps)
       <NavItem
         icon={<HistoryIcon className="w-6 h-6" />}
         label={t('history')}
-        isActive={activeView === View.History}
+        isActive={activeView === View.History || activeView === View.Search}
         onClick={() => setActiveView(View.History)}
       />
       <NavItem
         icon={<CogIcon className="w-6 h-6" />}
         label={t('settings')}
-        isActive={activeView === View.Settings}
+        isActive={activeView === View.Settings || activeView === View.Recurring || activeView === View.BudgetPlanner}
         onClick={() => setActiveView(View.Settings)}
       />
     </nav>
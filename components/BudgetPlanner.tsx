@@ -0,0 +1,327 @@
+/**
+ * @file Renders the budget planner: a grid of categories by months for setting budgets
+ * months ahead, with the actual spending of each month shown next to what was planned.
+ * It also manages the budget templates that can be applied to any month.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Budget, BudgetTemplate, Category, Transaction } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { ArrowLeftIcon, ChevronLeftIcon, ChevronRightIcon, EditIcon, PlusIcon, TrashIcon } from './icons';
+import BudgetTemplateModal from './BudgetTemplateModal';
+import { addMonths, formatMonthKey, getCurrentMonthKey } from '../utils/date';
+import { buildMonthlyTrends, getTrailingMonthKeys } from '../utils/trends';
+import { getPercentAmount } from '../utils/budgets';
+import { filterCategoriesByKind, getParentCategory, sortCategoriesByGroup } from '../utils/categories';
+
+/**
+ * Props for the BudgetPlanner component.
+ */
+interface BudgetPlannerProps {
+  /** The list of all available categories. */
+  categories: Category[];
+  /** All budget settings, keyed by month (YYYY-MM). */
+  budgets: Record<string, Budget[]>;
+  /** Callback to save the budgets of one or more months, keyed by month. */
+  onSaveBudgets: (monthBudgets: Record<string, Budget[]>) => void;
+  /** The list of all main transactions (excluding event transactions), for the actual amounts. */
+  transactions: Transaction[];
+  /** The list of all budget templates. */
+  templates: BudgetTemplate[];
+  /** Callback to save a new or edited template. An optional ID indicates an update. */
+  onSaveTemplate: (template: Omit<BudgetTemplate, 'id'> & { id?: string }) => void;
+  /** Callback to delete a template. */
+  onDeleteTemplate: (templateId: string) => void;
+  /** Callback to navigate back to the settings view. */
+  onBack: () => void;
+}
+
+/** The number of months shown side by side in the grid. */
+const MONTHS_SHOWN = 6;
+
+/** An edited cell of the grid, before it is saved. */
+interface DraftCell {
+  amount: string;
+  rollover: boolean;
+  /** The percentage of income the amount follows, until the cell is edited. */
+  percentOfIncome?: number;
+}
+
+/**
+ * The budget planner view.
+ * @param {BudgetPlannerProps} props - The props for the component.
+ * @returns The rendered planner.
+ */
+export default function BudgetPlanner({ categories, budgets, onSaveBudgets, transactions, templates, onSaveTemplate, onDeleteTemplate, onBack }: BudgetPlannerProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { convert, format } = useCurrency();
+  const currentMonthKey = getCurrentMonthKey();
+
+  // The first month shown in the grid
+  const [startMonthKey, setStartMonthKey] = useState(currentMonthKey);
+  // Edited cells not saved yet, keyed by month and then by category
+  const [draft, setDraft] = useState<Record<string, Record<string, DraftCell>>>({});
+  const [showActual, setShowActual] = useState(true);
+  // State for the template modal
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [templateToEdit, setTemplateToEdit] = useState<BudgetTemplate | null>(null);
+
+  const plannedCategories = useMemo(() => sortCategoriesByGroup(filterCategoriesByKind(categories, 'expense')).filter(c => c.id !== 'other'), [categories]);
+  const monthKeys = useMemo(() => getTrailingMonthKeys(addMonths(startMonthKey, MONTHS_SHOWN - 1), MONTHS_SHOWN), [startMonthKey]);
+  const actuals = useMemo(() => buildMonthlyTrends(transactions, budgets, monthKeys, convert), [transactions, budgets, monthKeys, convert]);
+  const hasChanges = Object.keys(draft).length > 0;
+
+  /**
+   * Gets the value of a cell: the edited value if there is one, otherwise the saved budget.
+   * @param {string} monthKey - The month.
+   * @param {string} categoryId - The category.
+   * @returns {DraftCell} The amount as typed, the rollover setting and any percentage of income.
+   */
+  const getCell = (monthKey: string, categoryId: string): DraftCell => {
+    const edited = draft[monthKey]?.[categoryId];
+    if (edited) return edited;
+    const saved = (budgets[monthKey] || []).find(b => b.categoryId === categoryId);
+    return { amount: saved ? String(saved.amount) : '', rollover: !!saved?.rollover, percentOfIncome: saved?.percentOfIncome };
+  };
+
+  /**
+   * Gets the planned total of a month, including unsaved edits.
+   * @param {string} monthKey - The month.
+   * @returns {number} The sum of the month's budgets.
+   */
+  const getPlannedTotal = (monthKey: string) =>
+    plannedCategories.reduce((sum, category) => sum + (parseFloat(getCell(monthKey, category.id).amount) || 0), 0);
+
+  /**
+   * Records an edit to a single cell. Typing an amount turns a percentage budget
+   * into a fixed one.
+   * @param {string} monthKey - The month.
+   * @param {string} categoryId - The category.
+   * @param {string} amount - The amount as typed.
+   */
+  const handleCellChange = (monthKey: string, categoryId: string, amount: string) => {
+    const cell = getCell(monthKey, categoryId);
+    setDraft(prev => ({ ...prev, [monthKey]: { ...prev[monthKey], [categoryId]: { ...cell, amount, percentOfIncome: undefined } } }));
+  };
+
+  /**
+   * Fills a month's column with the amounts of a template. Categories the template
+   * leaves out are cleared. The change is only stored once the user saves.
+   * @param {string} monthKey - The month.
+   * @param {string} templateId - The ID of the template to apply.
+   */
+  const handleApplyTemplate = (monthKey: string, templateId: string) => {
+    const template = templates.find(tpl => tpl.id === templateId);
+    if (!template) return;
+    const income = actuals[monthKeys.indexOf(monthKey)]?.income || 0;
+    const column = plannedCategories.reduce((acc, category) => {
+      const budget = template.budgets.find(b => b.categoryId === category.id);
+      // Percentage budgets are worked out from the income of the month they are applied to
+      const amount = budget?.percentOfIncome !== undefined ? getPercentAmount(budget.percentOfIncome, income) : budget?.amount;
+      acc[category.id] = { amount: budget ? String(amount) : '', rollover: !!budget?.rollover, percentOfIncome: budget?.percentOfIncome };
+      return acc;
+    }, {} as Record<string, DraftCell>);
+    setDraft(prev => ({ ...prev, [monthKey]: column }));
+  };
+
+  /**
+   * Saves every edited month. Amounts of zero or less remove the category's budget.
+   */
+  const handleSave = () => {
+    const monthBudgets = Object.keys(draft).reduce((acc, monthKey) => {
+      acc[monthKey] = plannedCategories
+        .map(category => {
+          const cell = getCell(monthKey, category.id);
+          return {
+            categoryId: category.id,
+            amount: parseFloat(cell.amount) || 0,
+            ...(cell.percentOfIncome !== undefined ? { percentOfIncome: cell.percentOfIncome } : {}),
+            ...(cell.rollover ? { rollover: true } : {}),
+          };
+        })
+        .filter(b => b.amount > 0 || (b.percentOfIncome || 0) > 0);
+      return acc;
+    }, {} as Record<string, Budget[]>);
+    onSaveBudgets(monthBudgets);
+    setDraft({});
+  };
+
+  /**
+   * Opens the template modal for adding or editing a template.
+   * @param {BudgetTemplate | null} template - The template to edit, or null to add a new one.
+   */
+  const handleOpenTemplateModal = (template: BudgetTemplate | null) => {
+    setTemplateToEdit(template);
+    setIsTemplateModalOpen(true);
+  };
+
+  /**
+   * Gets the display name of a category.
+   * @param {Category} category - The category.
+   * @returns The translated name for default categories, or the user's own name.
+   */
+  const getCategoryName = (category: Category) => category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name;
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between space-x-4">
+        <div className="flex items-center space-x-4 min-w-0">
+          <button onClick={onBack} className="p-2 rounded-full hover:bg-input flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('backToSettings')}>
+            <ArrowLeftIcon className="w-6 h-6" />
+          </button>
+          <h1 className="text-xl font-semibold truncate">{t('budgetPlanner')}</h1>
+        </div>
+      </header>
+
+      {/* Planner Grid */}
+      <section className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <button onClick={() => setStartMonthKey(prev => addMonths(prev, -1))} className="p-2 rounded-full hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('previousMonth')}>
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <span className="font-semibold capitalize text-center">
+            {formatMonthKey(monthKeys[0], locale, 'short')} – {formatMonthKey(monthKeys[monthKeys.length - 1], locale, 'short')}
+          </span>
+          <button onClick={() => setStartMonthKey(prev => addMonths(prev, 1))} className="p-2 rounded-full hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('nextMonth')}>
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <label className="flex items-center space-x-2 text-sm font-medium">
+          <input type="checkbox" checked={showActual} onChange={e => setShowActual(e.target.checked)} className="accent-primary" />
+          <span>{t('plannerShowActual')}</span>
+        </label>
+
+        <div className="overflow-x-auto -mx-4 px-4">
+          <table className="min-w-full text-sm border-separate border-spacing-y-1">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-surface text-left font-medium text-text-secondary pr-3">{t('category')}</th>
+                {monthKeys.map(monthKey => (
+                  <th key={monthKey} className={`px-1 text-center font-semibold capitalize whitespace-nowrap ${monthKey === currentMonthKey ? 'text-primary' : ''}`}>
+                    <div>{formatMonthKey(monthKey, locale, 'short')}</div>
+                    {templates.length > 0 && (
+                      <select
+                        value=""
+                        onChange={e => handleApplyTemplate(monthKey, e.target.value)}
+                        className="mt-1 w-24 bg-input rounded-md p-1 text-xs font-normal focus:ring-2 focus:ring-primary focus:outline-none"
+                        aria-label={t('applyTemplateTo', { month: formatMonthKey(monthKey, locale) })}
+                      >
+                        <option value="" disabled>{t('applyTemplate')}</option>
+                        {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                      </select>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {plannedCategories.map(category => (
+                <tr key={category.id}>
+                  <th scope="row" className={`sticky left-0 bg-surface text-left font-medium pr-3 max-w-[8rem] truncate ${getParentCategory(categories, category) ? 'pl-4' : ''}`}>
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: category.color }}></span>
+                    {getCategoryName(category)}
+                  </th>
+                  {monthKeys.map((monthKey, index) => {
+                    const cell = getCell(monthKey, category.id);
+                    const planned = parseFloat(cell.amount) || 0;
+                    const actual = actuals[index].expensesByCategory[category.id] || 0;
+                    return (
+                      <td key={monthKey} className="px-1 align-top">
+                        <input
+                          type="number"
+                          placeholder="0"
+                          value={cell.amount}
+                          onChange={e => handleCellChange(monthKey, category.id, e.target.value)}
+                          className={`w-24 bg-input rounded-md p-1 text-right focus:ring-2 focus:ring-primary focus:outline-none ${draft[monthKey]?.[category.id] ? 'ring-1 ring-primary' : ''}`}
+                          aria-label={`${getCategoryName(category)} · ${formatMonthKey(monthKey, locale)}`}
+                          min="0"
+                        />
+                        {cell.percentOfIncome !== undefined && (
+                          <div className="text-xs text-right mt-0.5 text-primary" title={t('percentOfIncomeToggle')}>{cell.percentOfIncome}%</div>
+                        )}
+                        {showActual && actual > 0 && (
+                          <div className={`text-xs text-right mt-0.5 ${planned > 0 && actual > planned ? 'text-danger' : 'text-text-secondary'}`}>
+                            {format(actual)}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th scope="row" className="sticky left-0 bg-surface text-left font-semibold pr-3 pt-2">{t('plannerPlanned')}</th>
+                {monthKeys.map(monthKey => (
+                  <td key={monthKey} className="px-1 pt-2 text-right font-semibold whitespace-nowrap">{format(getPlannedTotal(monthKey))}</td>
+                ))}
+              </tr>
+              {showActual && (
+                <>
+                  <tr>
+                    <th scope="row" className="sticky left-0 bg-surface text-left font-medium text-text-secondary pr-3">{t('plannerActual')}</th>
+                    {actuals.map(actual => (
+                      <td key={actual.monthKey} className={`px-1 text-right whitespace-nowrap ${actual.expenses > getPlannedTotal(actual.monthKey) && getPlannedTotal(actual.monthKey) > 0 ? 'text-danger' : 'text-text-secondary'}`}>
+                        {format(actual.expenses)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <th scope="row" className="sticky left-0 bg-surface text-left font-medium text-text-secondary pr-3">{t('income')}</th>
+                    {actuals.map(actual => (
+                      <td key={actual.monthKey} className="px-1 text-right whitespace-nowrap text-success">{format(actual.income)}</td>
+                    ))}
+                  </tr>
+                </>
+              )}
+            </tfoot>
+          </table>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button onClick={() => setDraft({})} disabled={!hasChanges} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors disabled:opacity-50">{t('plannerDiscard')}</button>
+          <button onClick={handleSave} disabled={!hasChanges} className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors disabled:opacity-50">{t('saveBudget')}</button>
+        </div>
+      </section>
+
+      {/* Budget Templates */}
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold">{t('budgetTemplates')}</h2>
+          <button onClick={() => handleOpenTemplateModal(null)} className="flex items-center bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-lg shadow-lg">
+            <PlusIcon className="w-5 h-5 mr-2" />
+            {t('addTemplate')}
+          </button>
+        </div>
+        <p className="text-sm text-text-secondary mb-4">{t('budgetTemplatesDesc')}</p>
+        <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+          {templates.length === 0 ? (
+            <p className="text-center text-text-secondary py-2">{t('noTemplates')}</p>
+          ) : templates.map(template => (
+            <div key={template.id} className="flex items-center p-2 rounded-lg hover:bg-input">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{template.name}</p>
+                <p className="text-sm text-text-secondary">{t('templateSummary', { count: template.budgets.length, total: format(template.budgets.reduce((sum, b) => sum + b.amount, 0)) })}</p>
+              </div>
+              <div className="ml-3 flex items-center space-x-2 flex-shrink-0">
+                <button onClick={() => handleOpenTemplateModal(template)} aria-label={t('editTemplate')} className="p-1 text-text-secondary hover:text-primary rounded-full"><EditIcon className="w-5 h-5"/></button>
+                <button onClick={() => onDeleteTemplate(template.id)} aria-label={t('deleteTemplate')} className="p-1 text-text-secondary hover:text-danger rounded-full"><TrashIcon className="w-5 h-5"/></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <BudgetTemplateModal
+        isOpen={isTemplateModalOpen}
+        onClose={() => setIsTemplateModalOpen(false)}
+        onSave={onSaveTemplate}
+        categories={categories}
+        templateToEdit={templateToEdit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * @file Renders a modal for adding a new budget template or editing an existing one.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Budget, BudgetTemplate, Category } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { getCurrencySymbol } from '../utils/currency';
+import { DynamicCategoryIcon } from './icons';
+import { filterCategoriesByKind, getParentCategory, sortCategoriesByGroup } from '../utils/categories';
+
+/**
+ * Props for the BudgetTemplateModal component.
+ */
+interface BudgetTemplateModalProps {
+  /** Whether the modal is currently open. */
+  isOpen: boolean;
+  /** Function to call when the modal should be closed. */
+  onClose: () => void;
+  /** Callback function to save the new or updated template. An optional ID indicates an update. */
+  onSave: (template: Omit<BudgetTemplate, 'id'> & { id?: string }) => void;
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The template to edit. If null, the modal is in 'add' mode. */
+  templateToEdit: BudgetTemplate | null;
+  /** The amounts a new template starts with, e.g., the budgets of the month being edited. */
+  initialBudgets?: Budget[];
+}
+
+/**
+ * A modal component for creating and editing budget templates.
+ * @param {BudgetTemplateModalProps} props - The props for the component.
+ * @returns The rendered modal component or null if not open.
+ */
+export default function BudgetTemplateModal({ isOpen, onClose, onSave, categories, templateToEdit, initialBudgets }: BudgetTemplateModalProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { showToast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  /**
+   * Effect to populate the form fields when the modal opens, either from
+   * the template being edited or from the initial budgets for a new template.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setName(templateToEdit?.name || '');
+      const source = templateToEdit ? templateToEdit.budgets : initialBudgets || [];
+      setAmounts(source.reduce((acc, b) => ({ ...acc, [b.categoryId]: String(b.amount) }), {} as Record<string, string>));
+    }
+  }, [isOpen, templateToEdit, initialBudgets]);
+
+  /**
+   * Handles the form submission.
+   * Validates the input and calls the onSave callback.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      showToast(t('errorTemplateName'), { type: 'error' });
+      return;
+    }
+    // Keep the rollover settings of the amounts the form started from, and their
+    // percentages of income unless the amount was changed
+    const previous = templateToEdit ? templateToEdit.budgets : initialBudgets || [];
+    const budgets: Budget[] = categories
+      .map(category => {
+        const amount = parseFloat(amounts[category.id]) || 0;
+        const source = previous.find(b => b.categoryId === category.id);
+        const percentOfIncome = source && source.amount === amount ? source.percentOfIncome : undefined;
+        return {
+          categoryId: category.id,
+          amount,
+          ...(percentOfIncome !== undefined ? { percentOfIncome } : {}),
+          ...(source?.rollover ? { rollover: true } : {}),
+        };
+      })
+      .filter(b => b.amount > 0);
+
+    onSave({ id: templateToEdit?.id, name: name.trim(), budgets });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{templateToEdit ? t('editTemplate') : t('addTemplate')}</h2>
+
+          {/* Name */}
+          <div>
+            <label htmlFor="template-name" className="block text-sm font-medium text-text-secondary">{t('templateName')}</label>
+            <input
+              type="text"
+              id="template-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+              placeholder={t('templateNamePlaceholder')}
+              required
+            />
+          </div>
+
+          {/* Amounts */}
+          <div className="space-y-2">
+            {sortCategoriesByGroup(filterCategoriesByKind(categories, 'expense')).filter(c => c.id !== 'other').map(category => (
+              <div key={category.id} className={`flex items-center space-x-3 ${getParentCategory(categories, category) ? 'pl-6' : ''}`}>
+                <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}20`, color: category.color }}>
+                  <DynamicCategoryIcon name={category.icon} className="w-5 h-5" />
+                </div>
+                <label htmlFor={`template-${category.id}`} className="flex-1 font-medium truncate">{category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name}</label>
+                <span className="text-text-secondary">{getCurrencySymbol(baseCurrency, locale)}</span>
+                <input
+                  id={`template-${category.id}`}
+                  type="number"
+                  placeholder="0.00"
+                  value={amounts[category.id] || ''}
+                  onChange={e => setAmounts(prev => ({ ...prev, [category.id]: e.target.value }))}
+                  className="w-28 bg-input rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none"
+                  step="0.01"
+                  min="0"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button type="submit" className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors">{t('save')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
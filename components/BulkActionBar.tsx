@@ -0,0 +1,96 @@
+/**
+ * @file Renders the toolbar of a transaction list's multi-select mode, with the number
+ * of selected transactions, select all, and the bulk actions. Each action opens a
+ * confirmation with the totals of the transactions it affects.
+ */
+
+import React, { useState } from 'react';
+import { Transaction, Category, Event } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { TranslationKey } from '../locales/en';
+import { Selection } from '../hooks/useSelection';
+import { BulkAction } from '../utils/bulk';
+import BulkActionModal from './BulkActionModal';
+
+/** The bulk actions, in the order they are offered. */
+const BULK_ACTION_KINDS: BulkAction['kind'][] = ['category', 'event', 'shiftDate', 'type', 'delete'];
+
+/**
+ * Props for the BulkActionBar component.
+ */
+interface BulkActionBarProps {
+  /** The selection state of the list. */
+  selection: Selection;
+  /** The transactions shown in the list, which "select all" selects. */
+  transactions: Transaction[];
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The list of all events. */
+  events: Event[];
+  /** Callback to apply an action to the transactions with the given IDs. */
+  onBulkAction: (transactionIds: string[], action: BulkAction) => void;
+}
+
+/**
+ * The toolbar shown while a transaction list is in multi-select mode.
+ * @param {BulkActionBarProps} props - The props for the component.
+ * @returns The rendered toolbar.
+ */
+export default function BulkActionBar({ selection, transactions, categories, events, onBulkAction }: BulkActionBarProps): React.ReactNode {
+  const { t } = useLocalization();
+  // The action waiting for confirmation, if any
+  const [pendingKind, setPendingKind] = useState<BulkAction['kind'] | null>(null);
+
+  const selectedTransactions = transactions.filter(transaction => selection.selectedIds.has(transaction.id));
+  const allSelected = transactions.length > 0 && selectedTransactions.length === transactions.length;
+
+  /**
+   * Applies the confirmed action and leaves multi-select mode.
+   * @param {string[]} transactionIds - The IDs of the affected transactions.
+   * @param {BulkAction} action - The action.
+   */
+  const handleConfirm = (transactionIds: string[], action: BulkAction) => {
+    onBulkAction(transactionIds, action);
+    selection.stop();
+  };
+
+  return (
+    <div className="sticky top-0 z-20 bg-surface border border-border rounded-2xl shadow-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{t('selectedCount', { count: String(selectedTransactions.length) })}</span>
+        <div className="flex items-center space-x-3 text-sm">
+          <button
+            onClick={() => selection.selectAll(allSelected ? [] : transactions.map(transaction => transaction.id))}
+            className="text-primary font-medium hover:underline"
+          >
+            {allSelected ? t('deselectAll') : t('selectAll')}
+          </button>
+          <button onClick={selection.stop} className="text-text-secondary hover:underline">{t('cancel')}</button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {BULK_ACTION_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => setPendingKind(kind)}
+            disabled={selectedTransactions.length === 0}
+            className={`py-1 px-3 rounded-full text-sm font-medium transition-colors disabled:opacity-50 disabled:pointer-events-none ${kind === 'delete' ? 'bg-danger/10 text-danger hover:bg-danger/20' : 'bg-primary/10 text-primary hover:bg-primary/20'}`}
+          >
+            {t(`bulk_${kind}` as TranslationKey)}
+          </button>
+        ))}
+      </div>
+
+      {pendingKind && (
+        <BulkActionModal
+          kind={pendingKind}
+          transactions={selectedTransactions}
+          categories={categories}
+          events={events}
+          onClose={() => setPendingKind(null)}
+          onConfirm={handleConfirm}
+        />
+      )}
+    </div>
+  );
+}
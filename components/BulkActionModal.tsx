@@ -0,0 +1,161 @@
+/**
+ * @file Renders a modal for confirming a bulk action on the selected transactions.
+ * It asks for what the action needs (a category, an event, a number of days or a
+ * type) and summarises the totals of the transactions that will be affected.
+ */
+
+import React, { useState } from 'react';
+import { Transaction, Category, Event } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import CategoryOptions from './CategoryOptions';
+import { filterCategoriesByKind } from '../utils/categories';
+import { BulkAction, canApplyBulkAction, getTransactionTotals } from '../utils/bulk';
+
+/**
+ * Props for the BulkActionModal component.
+ */
+interface BulkActionModalProps {
+  /** The kind of action to confirm. */
+  kind: BulkAction['kind'];
+  /** The selected transactions. */
+  transactions: Transaction[];
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The list of all events. */
+  events: Event[];
+  /** Function to call when the modal should be closed. */
+  onClose: () => void;
+  /** Callback with the action and the IDs of the transactions it applies to. */
+  onConfirm: (transactionIds: string[], action: BulkAction) => void;
+}
+
+/**
+ * A modal component for confirming a bulk action. It is rendered only while open.
+ * @param {BulkActionModalProps} props - The props for the component.
+ * @returns The rendered modal component.
+ */
+export default function BulkActionModal({ kind, transactions, categories, events, onClose, onConfirm }: BulkActionModalProps): React.ReactNode {
+  const { t } = useLocalization();
+  const { convert, format } = useCurrency();
+  const [categoryId, setCategoryId] = useState('');
+  const [eventId, setEventId] = useState('');
+  const [days, setDays] = useState('');
+  const [type, setType] = useState<'income' | 'expense'>(transactions.every(tr => tr.type === 'expense') ? 'income' : 'expense');
+
+  /**
+   * Builds the action from the form.
+   * @returns {BulkAction | null} The action, or null while the form is incomplete.
+   */
+  const buildAction = (): BulkAction | null => {
+    switch (kind) {
+      case 'category':
+        return categoryId ? { kind, categoryId } : null;
+      case 'event':
+        return { kind, eventId: eventId || undefined };
+      case 'shiftDate': {
+        const parsedDays = parseInt(days, 10);
+        return parsedDays ? { kind, days: parsedDays } : null;
+      }
+      case 'type':
+        return { kind, type };
+      default:
+        return { kind: 'delete' };
+    }
+  };
+
+  const action = buildAction();
+  const affected = action ? transactions.filter(transaction => canApplyBulkAction(transaction, action, categories)) : [];
+  const totals = getTransactionTotals(affected, convert);
+  const skippedCount = action ? transactions.length - affected.length : 0;
+
+  /**
+   * Handles the form submission by passing the action on.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || affected.length === 0) return;
+    onConfirm(affected.map(transaction => transaction.id), action);
+    onClose();
+  };
+
+  const inputClassName = 'mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{t(`bulk_${kind}` as TranslationKey)}</h2>
+
+          {kind === 'category' && (
+            <div>
+              <label htmlFor="bulk-category" className="block text-sm font-medium text-text-secondary">{t('category')}</label>
+              <select id="bulk-category" value={categoryId} onChange={e => setCategoryId(e.target.value)} className={inputClassName}>
+                <option value="" disabled>{t('selectCategory')}</option>
+                <CategoryOptions categories={[...filterCategoriesByKind(categories, 'expense'), ...filterCategoriesByKind(categories, 'income')]} />
+              </select>
+            </div>
+          )}
+          {kind === 'event' && (
+            <div>
+              <label htmlFor="bulk-event" className="block text-sm font-medium text-text-secondary">{t('event')}</label>
+              <select id="bulk-event" value={eventId} onChange={e => setEventId(e.target.value)} className={inputClassName}>
+                <option value="">{t('bulkRemoveFromEvent')}</option>
+                {events.map(event => <option key={event.id} value={event.id}>{event.name}</option>)}
+              </select>
+            </div>
+          )}
+          {kind === 'shiftDate' && (
+            <div>
+              <label htmlFor="bulk-days" className="block text-sm font-medium text-text-secondary">{t('bulkShiftDays')}</label>
+              <input id="bulk-days" type="number" value={days} onChange={e => setDays(e.target.value)} className={inputClassName} placeholder="0" step="1" />
+            </div>
+          )}
+          {kind === 'type' && (
+            <div>
+              <label htmlFor="bulk-type" className="block text-sm font-medium text-text-secondary">{t('type')}</label>
+              <select id="bulk-type" value={type} onChange={e => setType(e.target.value as 'income' | 'expense')} className={inputClassName}>
+                <option value="expense">{t('expense')}</option>
+                <option value="income">{t('income')}</option>
+              </select>
+            </div>
+          )}
+
+          {/* Summary of the affected transactions */}
+          {action && (
+            <div className="bg-input rounded-lg p-3 space-y-2">
+              <p className="text-sm font-medium text-center">
+                {t(kind === 'delete' ? 'bulkDeleteSummary' : 'bulkChangeSummary', { count: String(totals.count) })}
+              </p>
+              <div className="flex justify-around text-center">
+                <div>
+                  <p className="text-xs text-text-secondary">{t('income')}</p>
+                  <p className="font-semibold text-success">{format(totals.income)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-text-secondary">{t('expenses')}</p>
+                  <p className="font-semibold text-danger">{format(totals.expenses)}</p>
+                </div>
+              </div>
+              {skippedCount > 0 && <p className="text-xs text-text-secondary text-center">{t('bulkSkipped', { count: String(skippedCount) })}</p>}
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button
+              type="submit"
+              disabled={affected.length === 0}
+              className={`py-2 px-6 rounded-lg text-white font-bold transition-colors disabled:opacity-50 disabled:pointer-events-none ${kind === 'delete' ? 'bg-danger hover:opacity-90' : 'bg-primary hover:bg-primary-hover'}`}
+            >
+              {kind === 'delete' ? t('delete') : t('bulkApply')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
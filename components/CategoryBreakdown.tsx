@@ -0,0 +1,185 @@
+/**
+ * @file Renders the share of each category in the expenses of the selected period
+ * as a donut chart, or for income, where the period's money came from. Tapping a
+ * slice, or its row in the legend, lists the transactions behind it. Each line of a
+ * split expense counts in its own category's slice. Categories nested in a group share the group's slice,
+ * and transactions without a category, or whose category no longer exists, are
+ * grouped in their own slice so they are not lost from the total.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Transaction, Category } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { TranslationKey } from '../locales/en';
+import DonutChart, { DonutSlice } from './charts/DonutChart';
+import TransactionItem from './TransactionItem';
+import { XMarkIcon } from './icons';
+import { getParentCategory } from '../utils/categories';
+import { getCategoryAmounts } from '../utils/splits';
+
+/**
+ * Props for the CategoryBreakdown component.
+ */
+interface CategoryBreakdownProps {
+  /** Whether the breakdown is of expenses or of income. */
+  kind: 'expense' | 'income';
+  /** The transactions of the selected period, all of the given kind. */
+  transactions: Transaction[];
+  /** The list of all available categories. */
+  categories: Category[];
+  /** Function to delete a transaction by its ID. */
+  deleteTransaction: (id: string) => void;
+  /** Function to open a transaction for editing. */
+  onEditTransaction: (transaction: Transaction) => void;
+}
+
+/** The ID of the slice for transactions whose category doesn't exist. */
+const UNCATEGORISED_ID = '__uncategorised';
+
+/**
+ * A category breakdown of the analytics view.
+ * @param {CategoryBreakdownProps} props - The props for the component.
+ * @returns The rendered breakdown.
+ */
+export default function CategoryBreakdown({ kind, transactions, categories, deleteTransaction, onEditTransaction }: CategoryBreakdownProps): React.ReactNode {
+  const { t } = useLocalization();
+  const { convert, format } = useCurrency();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activeSwipedItemId, setActiveSwipedItemId] = useState<string | null>(null);
+
+  /**
+   * Memoized map from each category ID to the ID of its slice: its group's category,
+   * or itself for top-level categories.
+   */
+  const sliceIds = useMemo(
+    () => new Map(categories.map(c => [c.id, getParentCategory(categories, c)?.id || c.id])),
+    [categories]
+  );
+
+  /**
+   * Gets the slice a category belongs to.
+   * @param {string | undefined} categoryId - The ID of the category.
+   * @returns {string} The ID of its slice, or of the uncategorised slice.
+   */
+  const getSliceId = (categoryId: string | undefined) =>
+    (categoryId && sliceIds.get(categoryId)) || UNCATEGORISED_ID;
+
+  const title = kind === 'income' ? t('incomeSources') : t('categoryBreakdown');
+
+  /**
+   * Memoized calculation of the slices, largest first.
+   */
+  const slices: DonutSlice[] = useMemo(() => {
+    const totals = new Map<string, number>();
+    transactions.forEach(transaction => {
+      getCategoryAmounts(transaction).forEach(part => {
+        const id = getSliceId(part.categoryId);
+        totals.set(id, (totals.get(id) || 0) + convert(part.amount, transaction.currency));
+      });
+    });
+    return [...totals.entries()]
+      .map(([id, value]) => {
+        const category = categories.find(c => c.id === id);
+        return {
+          id,
+          label: !category ? t(kind === 'income' ? 'uncategorisedIncome' : 'uncategorisedSlice') : category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name,
+          color: category ? category.color : 'hsl(var(--text-secondary))',
+          value,
+        };
+      })
+      .filter(slice => slice.value > 0)
+      .sort((a, b) => b.value - a.value);
+  }, [kind, transactions, categories, sliceIds, convert, t]);
+
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const selectedSlice = slices.find(slice => slice.id === selectedId);
+
+  // Clear the selection when its slice disappears, e.g., after changing the period
+  useEffect(() => {
+    if (selectedId && !selectedSlice) setSelectedId(null);
+  }, [selectedId, selectedSlice]);
+
+  /**
+   * Memoized list of the transactions in the selected slice, newest first. A split
+   * expense is listed in the slice of each of its lines.
+   */
+  const drillDownTransactions = useMemo(() => {
+    if (!selectedId) return [];
+    return transactions
+      .filter(transaction => getCategoryAmounts(transaction).some(part => getSliceId(part.categoryId) === selectedId))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }, [transactions, selectedId, sliceIds]);
+
+  /**
+   * Selects a slice, or clears the selection if it is already selected.
+   * @param {string} id - The ID of the slice.
+   */
+  const toggleSlice = (id: string) => {
+    setSelectedId(prev => (prev === id ? null : id));
+    setActiveSwipedItemId(null);
+  };
+
+  if (slices.length === 0) return null;
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-4 text-center">{title}</h2>
+      <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 sm:p-6 space-y-4">
+        <DonutChart
+          title={title}
+          slices={slices}
+          selectedId={selectedId}
+          onSelect={toggleSlice}
+          centerLabel={format(selectedSlice ? selectedSlice.value : total)}
+          centerCaption={selectedSlice ? selectedSlice.label : t(kind === 'income' ? 'income' : 'expenses')}
+        />
+
+        {/* Legend, with each category's share of the total */}
+        <ul className="space-y-1">
+          {slices.map(slice => (
+            <li key={slice.id}>
+              <button
+                onClick={() => toggleSlice(slice.id)}
+                className={`w-full flex items-center justify-between p-2 rounded-lg text-sm transition-colors ${slice.id === selectedId ? 'bg-input' : 'hover:bg-input'}`}
+                aria-pressed={slice.id === selectedId}
+              >
+                <span className="flex items-center space-x-2 min-w-0">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: slice.color }}></span>
+                  <span className="truncate">{slice.label}</span>
+                </span>
+                <span className="flex items-center space-x-3 whitespace-nowrap">
+                  <span className="text-text-secondary">{Math.round((slice.value / total) * 100)}%</span>
+                  <span className="font-medium">{format(slice.value)}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {/* Transactions of the selected slice */}
+        {selectedSlice && (
+          <div className="border-t border-border pt-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">{t('categoryTransactions', { category: selectedSlice.label })}</h3>
+              <button onClick={() => setSelectedId(null)} className="p-1 rounded-full text-text-secondary hover:bg-input" aria-label={t('close')}>
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+            {drillDownTransactions.map(transaction => (
+              <TransactionItem
+                key={transaction.id}
+                transaction={transaction}
+                getCategory={id => categories.find(c => c.id === id)}
+                onDelete={deleteTransaction}
+                onEdit={onEditTransaction}
+                activeSwipedItemId={activeSwipedItemId}
+                setActiveSwipedItemId={setActiveSwipedItemId}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
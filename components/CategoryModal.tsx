@@ -1,14 +1,18 @@
 /**
  * @file Renders a modal for adding or editing a spending category.
- * It allows users to set a category name, choose a color, and select a representative icon.
+ * It allows users to set a category name, choose whether it is for expenses or income,
+ * choose a color, select a representative icon, and nest the category under another
+ * one of the same kind to form a group.
  */
 
 import React, { useState, useEffect } from 'react';
 import { Category } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
 // FIX: Corrected import path for locales/en.ts
 import { TranslationKey } from '../locales/en';
 import { DynamicCategoryIcon, ICON_LIST } from './icons';
+import { filterCategoriesByKind, getPossibleParents } from '../utils/categories';
 
 /**
  * Props for the CategoryModal component.
@@ -22,6 +26,10 @@ interface CategoryModalProps {
   onSave: (category: Omit<Category, 'id'> & { id?: string }) => void;
   /** The category to edit. If null, the modal is in 'add new' mode. */
   categoryToEdit: Category | null;
+  /** The list of all categories, to choose a parent from. */
+  categories: Category[];
+  /** The kind a new category starts as. Defaults to 'expense'. */
+  newCategoryKind?: 'expense' | 'income';
 }
 
 /** A predefined palette of colors for users to choose from for their categories. */
@@ -36,12 +44,19 @@ const COLORS = [
  * @param {CategoryModalProps} props - The props for the component.
  * @returns {React.ReactNode} The rendered modal component or null if not open.
  */
-export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit }: CategoryModalProps): React.ReactNode {
+export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit, categories, newCategoryKind = 'expense' }: CategoryModalProps): React.ReactNode {
   const { t } = useLocalization();
+  const { showToast } = useToast();
   // Form state for category properties
   const [name, setName] = useState('');
   const [color, setColor] = useState(COLORS[0]);
   const [icon, setIcon] = useState(ICON_LIST[0]);
+  const [parentId, setParentId] = useState('');
+  const [kind, setKind] = useState<'expense' | 'income'>('expense');
+
+  // Categories with children of their own can't be nested, as groups are one level deep
+  const possibleParents = getPossibleParents(filterCategoriesByKind(categories, kind), categoryToEdit?.id);
+  const hasChildren = !!categoryToEdit && categories.some(c => c.parentId === categoryToEdit.id);
 
   /**
    * An effect to populate the form fields when the modal opens.
@@ -56,14 +71,28 @@ export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit
         setName(categoryName.startsWith('category_') ? t(categoryName as TranslationKey) : categoryName);
         setColor(categoryToEdit.color);
         setIcon(categoryToEdit.icon);
+        setParentId(categoryToEdit.parentId || '');
+        setKind(categoryToEdit.kind || 'expense');
       } else {
         // Reset to defaults for a new category
         setName('');
         setColor(COLORS[Math.floor(Math.random() * COLORS.length)]); // Start with a random color
         setIcon('tag'); // Default icon
+        setParentId('');
+        setKind(newCategoryKind);
       }
     }
-  }, [isOpen, categoryToEdit, t]);
+  }, [isOpen, categoryToEdit, newCategoryKind, t]);
+
+  /**
+   * Switches a new category between expenses and income. Parents are of the same
+   * kind, so the chosen parent is cleared.
+   * @param {'expense' | 'income'} newKind - The kind to switch to.
+   */
+  const handleKindChange = (newKind: 'expense' | 'income') => {
+    setKind(newKind);
+    setParentId('');
+  };
 
   /**
    * Handles the form submission.
@@ -74,7 +103,7 @@ export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
-      alert(t('errorCategoryName'));
+      showToast(t('errorCategoryName'), { type: 'error' });
       return;
     }
     onSave({
@@ -82,6 +111,8 @@ export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit
       name: name.trim(),
       color,
       icon,
+      parentId: parentId || undefined,
+      ...(kind === 'income' ? { kind } : {}),
     });
     onClose();
   };
@@ -103,11 +134,46 @@ export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit
               value={name}
               onChange={e => setName(e.target.value)}
               className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
-              placeholder={t('category_groceries')}
+              placeholder={t(kind === 'income' ? 'category_salary' : 'category_groceries')}
               disabled={categoryToEdit?.name.startsWith('category_')}
             />
           </div>
 
+          {/* Kind Selector, only for new categories as transactions may already use an existing one */}
+          {!categoryToEdit && (
+            <div>
+              <label className="block text-sm font-medium text-text-secondary">{t('categoryKind')}</label>
+              <div className="mt-1 grid grid-cols-2 gap-2 rounded-lg bg-input p-1">
+                <button type="button" onClick={() => handleKindChange('expense')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${kind === 'expense' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                  {t('expense')}
+                </button>
+                <button type="button" onClick={() => handleKindChange('income')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${kind === 'income' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                  {t('income')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Parent Category */}
+          {categoryToEdit?.id !== 'other' && (
+            <div>
+              <label htmlFor="category-parent" className="block text-sm font-medium text-text-secondary">{t('parentCategory')}</label>
+              <select
+                id="category-parent"
+                value={parentId}
+                onChange={e => setParentId(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none disabled:opacity-60"
+                disabled={hasChildren}
+              >
+                <option value="">{t('noParentCategory')}</option>
+                {possibleParents.map(c => (
+                  <option key={c.id} value={c.id}>{c.name.startsWith('category_') ? t(c.name as TranslationKey) : c.name}</option>
+                ))}
+              </select>
+              {hasChildren && <p className="text-xs text-text-secondary mt-1">{t('parentCategoryHasChildren')}</p>}
+            </div>
+          )}
+
           {/* Color Picker */}
           <div>
             <label className="block text-sm font-medium text-text-secondary">{t('categoryColor')}</label>
@@ -129,7 +195,7 @@ export default function CategoryModal({ isOpen, onClose, onSave, categoryToEdit
           <div>
             <label className="block text-sm font-medium text-text-secondary">{t('categoryIcon')}</label>
             <div className="mt-2 grid grid-cols-8 gap-2">
-              {ICON_LIST.filter(i => !['trending-up'].includes(i)).map(iconName => (
+              {ICON_LIST.filter(i => kind === 'income' || !['trending-up'].includes(i)).map(iconName => (
                 <button
                   type="button"
                   key={iconName}
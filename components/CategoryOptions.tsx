@@ -0,0 +1,49 @@
+/**
+ * @file Renders the options of a category picker, with nested categories listed
+ * under their group.
+ */
+
+import React from 'react';
+import { Category } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { TranslationKey } from '../locales/en';
+import { getCategoryGroups } from '../utils/categories';
+
+/**
+ * Props for the CategoryOptions component.
+ */
+interface CategoryOptionsProps {
+  /** The list of all available categories. */
+  categories: Category[];
+}
+
+/**
+ * The `<option>` elements for a `<select>` of categories. Each group becomes an
+ * `<optgroup>` holding the group's own category followed by its children.
+ * @param {CategoryOptionsProps} props - The props for the component.
+ * @returns The rendered options.
+ */
+export default function CategoryOptions({ categories }: CategoryOptionsProps): React.ReactNode {
+  const { t } = useLocalization();
+
+  /**
+   * Gets the display name of a category.
+   * @param {Category} category - The category.
+   * @returns {string} The translated name for default categories, or the custom name.
+   */
+  const getCategoryName = (category: Category) =>
+    category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name;
+
+  return (
+    <>
+      {getCategoryGroups(categories).map(({ parent, children }) => children.length === 0 ? (
+        <option key={parent.id} value={parent.id}>{getCategoryName(parent)}</option>
+      ) : (
+        <optgroup key={parent.id} label={getCategoryName(parent)}>
+          <option value={parent.id}>{getCategoryName(parent)}</option>
+          {children.map(child => <option key={child.id} value={child.id}>{getCategoryName(child)}</option>)}
+        </optgroup>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * @file Renders a modal for adding a new auto-categorisation rule or editing an existing one.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Category, CategoryRule } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { getCurrencySymbol } from '../utils/currency';
+import CategoryOptions from './CategoryOptions';
+import { filterCategoriesByKind } from '../utils/categories';
+
+/**
+ * Props for the CategoryRuleModal component.
+ */
+interface CategoryRuleModalProps {
+  /** Whether the modal is currently open. */
+  isOpen: boolean;
+  /** Function to call when the modal should be closed. */
+  onClose: () => void;
+  /** Callback function to save the new or updated rule. An optional ID indicates an update. */
+  onSave: (rule: Omit<CategoryRule, 'id'> & { id?: string }) => void;
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The rule to edit. If null, the modal is in 'add' mode. */
+  ruleToEdit: CategoryRule | null;
+}
+
+/** The transaction types a rule can apply to, in display order. */
+const RULE_TYPES: CategoryRule['type'][] = ['expense', 'income', 'any'];
+
+/**
+ * A modal component for creating and editing auto-categorisation rules.
+ * @param {CategoryRuleModalProps} props - The props for the component.
+ * @returns The rendered modal component or null if not open.
+ */
+export default function CategoryRuleModal({ isOpen, onClose, onSave, categories, ruleToEdit }: CategoryRuleModalProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { showToast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  // Form state
+  const [descriptionContains, setDescriptionContains] = useState('');
+  const [type, setType] = useState<CategoryRule['type']>('expense');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  /**
+   * Effect to populate the form fields when the modal opens, either from
+   * the rule being edited or with defaults for a new rule.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      setDescriptionContains(ruleToEdit?.descriptionContains || '');
+      setType(ruleToEdit?.type || 'expense');
+      setMinAmount(ruleToEdit?.minAmount !== undefined ? ruleToEdit.minAmount.toString() : '');
+      setMaxAmount(ruleToEdit?.maxAmount !== undefined ? ruleToEdit.maxAmount.toString() : '');
+      setCategoryId(ruleToEdit?.categoryId || '');
+    }
+  }, [isOpen, ruleToEdit]);
+
+  /**
+   * Handles the form submission.
+   * Validates the input and calls the onSave callback.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedMin = minAmount ? parseFloat(minAmount) : undefined;
+    const parsedMax = maxAmount ? parseFloat(maxAmount) : undefined;
+    if (!descriptionContains.trim() && parsedMin === undefined && parsedMax === undefined) {
+      showToast(t('errorRuleCondition'), { type: 'error' });
+      return;
+    }
+    if ([parsedMin, parsedMax].some(value => value !== undefined && (isNaN(value) || value < 0))
+      || (parsedMin !== undefined && parsedMax !== undefined && parsedMin > parsedMax)) {
+      showToast(t('errorRuleAmountRange'), { type: 'error' });
+      return;
+    }
+    // A rule saved before categories had kinds may point to a category of the wrong kind
+    if (!categoryId || !getRuleCategories(type).some(c => c.id === categoryId)) {
+      showToast(t('errorCategory'), { type: 'error' });
+      return;
+    }
+
+    onSave({
+      id: ruleToEdit?.id,
+      descriptionContains: descriptionContains.trim() || undefined,
+      type,
+      minAmount: parsedMin,
+      maxAmount: parsedMax,
+      categoryId,
+    });
+    onClose();
+  };
+
+  /**
+   * Gets the categories a rule of a type can assign. A rule only applies to transactions
+   * of its category's kind, so rules for both types use expense categories, and income
+   * categories are left to income rules.
+   * @param {CategoryRule['type']} ruleType - The type the rule applies to.
+   * @returns {Category[]} The categories the rule can assign.
+   */
+  const getRuleCategories = (ruleType: CategoryRule['type']) => filterCategoriesByKind(categories, ruleType === 'income' ? 'income' : 'expense');
+
+  const ruleCategories = getRuleCategories(type);
+
+  /**
+   * Changes the type the rule applies to, clearing a category the new type can't use.
+   * @param {CategoryRule['type']} newType - The new type.
+   */
+  const handleTypeChange = (newType: CategoryRule['type']) => {
+    setType(newType);
+    if (!getRuleCategories(newType).some(c => c.id === categoryId)) setCategoryId('');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{ruleToEdit ? t('editRule') : t('addRule')}</h2>
+
+          {/* Type Selector */}
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">{t('ruleAppliesTo')}</label>
+            <div className="mt-1 grid grid-cols-3 gap-2 rounded-lg bg-input p-1">
+              {RULE_TYPES.map(ruleType => (
+                <button key={ruleType} type="button" onClick={() => handleTypeChange(ruleType)} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === ruleType ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                  {t(`ruleType_${ruleType}` as TranslationKey)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Description */}
+          <div>
+            <label htmlFor="rule-description" className="block text-sm font-medium text-text-secondary">{t('ruleDescriptionContains')}</label>
+            <input
+              type="text"
+              id="rule-description"
+              value={descriptionContains}
+              onChange={e => setDescriptionContains(e.target.value)}
+              className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+              placeholder="e.g., Uber"
+            />
+          </div>
+
+          {/* Amount Range */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="rule-min" className="block text-sm font-medium text-text-secondary">{t('ruleMinAmount', { currency: getCurrencySymbol(baseCurrency, locale) })}</label>
+              <input
+                type="number"
+                id="rule-min"
+                value={minAmount}
+                onChange={e => setMinAmount(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                placeholder="0.00"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label htmlFor="rule-max" className="block text-sm font-medium text-text-secondary">{t('ruleMaxAmount', { currency: getCurrencySymbol(baseCurrency, locale) })}</label>
+              <input
+                type="number"
+                id="rule-max"
+                value={maxAmount}
+                onChange={e => setMaxAmount(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                placeholder="0.00"
+                step="0.01"
+              />
+            </div>
+          </div>
+
+          {/* Category */}
+          <div>
+            <label htmlFor="rule-category" className="block text-sm font-medium text-text-secondary">{t('category')}</label>
+            <select
+              id="rule-category"
+              value={categoryId}
+              onChange={e => setCategoryId(e.target.value)}
+              className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+              <option value="" disabled>{t('selectCategory')}</option>
+              <CategoryOptions categories={ruleCategories} />
+            </select>
+            {type === 'any' && <p className="mt-1 text-xs text-text-secondary">{t('ruleAnyTypeHint')}</p>}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button type="submit" className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors">{t('save')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * @file Renders the in-app confirmation dialog used in place of `window.confirm`.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { useLocalization } from '../context/LocalizationContext';
+
+/**
+ * Options for a confirmation dialog.
+ */
+export interface ConfirmOptions {
+  /** The question or warning to show. */
+  message: string;
+  /** An optional heading above the message. */
+  title?: string;
+  /** The label of the confirm button. Defaults to "Confirm". */
+  confirmLabel?: string;
+  /** Whether the action is destructive, which colors the confirm button as a danger. */
+  danger?: boolean;
+}
+
+/**
+ * Props for the ConfirmDialog component.
+ */
+interface ConfirmDialogProps extends ConfirmOptions {
+  /** Callback with the user's answer. */
+  onResult: (confirmed: boolean) => void;
+}
+
+/**
+ * A modal dialog asking the user to confirm or cancel an action. Escape and clicks
+ * outside the dialog cancel. It is rendered only while open.
+ * @param {ConfirmDialogProps} props - The props for the component.
+ * @returns The rendered dialog.
+ */
+export default function ConfirmDialog({ message, title, confirmLabel, danger = false, onResult }: ConfirmDialogProps): React.ReactNode {
+  const { t } = useLocalization();
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  // Focus the cancel button, so a stray Enter never confirms a destructive action,
+  // and cancel on Escape
+  useEffect(() => {
+    cancelRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onResult(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onResult]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[55] p-4" onClick={() => onResult(false)}>
+      <div
+        className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-sm p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={title ? 'confirm-dialog-title' : undefined}
+        aria-describedby="confirm-dialog-message"
+      >
+        {title && <h2 id="confirm-dialog-title" className="text-xl font-bold text-center">{title}</h2>}
+        <p id="confirm-dialog-message" className="text-text-secondary">{message}</p>
+        <div className="flex justify-end space-x-3 pt-2">
+          <button ref={cancelRef} type="button" onClick={() => onResult(false)} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+          <button
+            type="button"
+            onClick={() => onResult(true)}
+            className={`py-2 px-6 rounded-lg text-white font-bold transition-colors ${danger ? 'bg-danger hover:opacity-90' : 'bg-primary hover:bg-primary-hover'}`}
+          >
+            {confirmLabel || t('confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+/**
+ * @file Renders the wizard for importing transactions from a bank statement CSV file.
+ * The first step maps the file's columns to transaction fields and chooses how dates
+ * and amounts are written; the second step reviews the parsed rows, flags duplicates
+ * of existing transactions, and assigns categories before anything is imported.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Category, CategoryRule, Transaction } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { SUPPORTED_CURRENCIES } from '../constants';
+import {
+  CSV_DATE_FORMATS, CsvColumnMapping, CsvDateFormat, CsvField, DecimalSeparator,
+  buildImportRows, guessColumnMapping, guessDateFormat, parseCsv,
+} from '../utils/csv';
+import { findMatchingRule } from '../utils/categoryRules';
+import CategoryOptions from './CategoryOptions';
+import { filterCategoriesByKind } from '../utils/categories';
+
+/**
+ * Props for the CsvImportModal component.
+ */
+interface CsvImportModalProps {
+  /** The contents of the selected CSV file. */
+  fileText: string;
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The transactions already in the app, used to detect duplicates. */
+  existingTransactions: Transaction[];
+  /** The auto-categorisation rules used to preselect each row's category. */
+  categoryRules: CategoryRule[];
+  /** Function to call when the modal should be closed without importing. */
+  onClose: () => void;
+  /** Callback with the transactions to add once the user confirms the import. */
+  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+}
+
+/** The mappable fields in display order, and whether each one is required. */
+const FIELDS: { field: CsvField; required: boolean }[] = [
+  { field: 'date', required: true },
+  { field: 'description', required: true },
+  { field: 'amount', required: true },
+  { field: 'type', required: false },
+];
+
+/** The number of file rows shown in the mapping preview. */
+const PREVIEW_ROWS = 3;
+
+/** Shared styling for the wizard's select inputs. */
+const SELECT_CLASS = 'mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none';
+
+/**
+ * A modal wizard for importing bank statement transactions from CSV.
+ * @param {CsvImportModalProps} props - The props for the component.
+ * @returns The rendered modal component.
+ */
+export default function CsvImportModal({ fileText, categories, existingTransactions, categoryRules, onClose, onImport }: CsvImportModalProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { showToast } = useToast();
+  const { baseCurrency, format, convert } = useCurrency();
+
+  // The file is parsed once; the header row and column guesses are based on its first line
+  const rows = useMemo(() => parseCsv(fileText), [fileText]);
+
+  // Mapping step state
+  const [step, setStep] = useState<'mapping' | 'review'>('mapping');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(rows[0] || []));
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>(() => {
+    const dateColumn = guessColumnMapping(rows[0] || []).date;
+    return guessDateFormat(dateColumn === null ? [] : rows.slice(1, 11).map(row => row[dateColumn] || ''));
+  });
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(locale === 'es' ? ',' : '.');
+  const [currency, setCurrency] = useState(baseCurrency);
+
+  // Review step state, keyed by the row's index in `importRows`
+  const [selected, setSelected] = useState<Record<number, boolean>>({});
+  const [rowCategories, setRowCategories] = useState<Record<number, string>>({});
+
+  const columnCount = useMemo(() => Math.max(0, ...rows.map(row => row.length)), [rows]);
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+
+  /**
+   * Memoized list of parsed rows for the review step, using the chosen mapping and formats.
+   */
+  const importRows = useMemo(
+    () => buildImportRows(dataRows, mapping, { dateFormat, decimalSeparator }, existingTransactions, hasHeader ? 2 : 1),
+    [dataRows, mapping, dateFormat, decimalSeparator, existingTransactions, hasHeader],
+  );
+  const invalidRows = importRows.filter(row => row.error);
+  const selectedCount = importRows.filter((row, index) => row.transaction && selected[index]).length;
+
+  /**
+   * Gets the display name of a column: its header, or its position when the file has no header.
+   * @param {number} index - The column index.
+   * @returns {string} The column name.
+   */
+  const getColumnName = (index: number) => (hasHeader && rows[0]?.[index]) || t('csvColumn', { number: index + 1 });
+
+  const expenseCategories = useMemo(() => filterCategoriesByKind(categories, 'expense'), [categories]);
+  const incomeCategories = useMemo(() => filterCategoriesByKind(categories, 'income'), [categories]);
+
+  /**
+   * Moves on to the review step once the required columns are mapped. New rows are
+   * selected unless they duplicate an existing transaction, and rows start in the
+   * category of the first matching rule if it is of their kind; otherwise expenses
+   * start in 'Other' and income without a category.
+   */
+  const handleNext = () => {
+    if (FIELDS.some(({ field, required }) => required && mapping[field] === null)) {
+      showToast(t('csvErrorMapping'), { type: 'error' });
+      return;
+    }
+    const initialSelection: Record<number, boolean> = {};
+    const initialCategories: Record<number, string> = {};
+    importRows.forEach((row, index) => {
+      initialSelection[index] = !!row.transaction && !row.duplicate;
+      const rule = row.transaction && findMatchingRule(categoryRules, { ...row.transaction, currency }, convert);
+      const kindCategories = row.transaction?.type === 'income' ? incomeCategories : expenseCategories;
+      initialCategories[index] = rule && kindCategories.some(c => c.id === rule.categoryId) ? rule.categoryId : row.transaction?.type === 'income' ? '' : 'other';
+    });
+    setSelected(initialSelection);
+    setRowCategories(initialCategories);
+    setStep('review');
+  };
+
+  /**
+   * Assigns a category to every selected expense at once.
+   * @param {string} categoryId - The category to assign.
+   */
+  const handleCategoryForAll = (categoryId: string) => {
+    if (!categoryId) return;
+    setRowCategories(prev => {
+      const next = { ...prev };
+      importRows.forEach((row, index) => {
+        if (selected[index] && row.transaction?.type === 'expense') next[index] = categoryId;
+      });
+      return next;
+    });
+  };
+
+  /**
+   * Imports the selected rows as transactions in the chosen currency.
+   */
+  const handleImport = () => {
+    const transactions: Omit<Transaction, 'id'>[] = [];
+    importRows.forEach((row, index) => {
+      if (!row.transaction || !selected[index]) return;
+      transactions.push({
+        ...row.transaction,
+        currency,
+        categoryId: row.transaction.type === 'expense' ? rowCategories[index] || 'other' : rowCategories[index] || undefined,
+      });
+    });
+    onImport(transactions);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{t('csvImportTitle')}</h2>
+
+          {step === 'mapping' ? (
+            <>
+              <p className="text-sm text-text-secondary">{t('csvMappingDesc')}</p>
+
+              <label className="flex items-center space-x-2 text-sm font-medium">
+                <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} className="accent-primary" />
+                <span>{t('csvHasHeader')}</span>
+              </label>
+
+              {/* Column Mapping */}
+              <div className="grid grid-cols-2 gap-3">
+                {FIELDS.map(({ field, required }) => (
+                  <div key={field}>
+                    <label htmlFor={`csv-${field}`} className="block text-sm font-medium text-text-secondary">
+                      {t(`csvField_${field}` as TranslationKey)}{required ? ' *' : ''}
+                    </label>
+                    <select
+                      id={`csv-${field}`}
+                      value={mapping[field] === null ? '' : String(mapping[field])}
+                      onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? null : Number(e.target.value) }))}
+                      className={SELECT_CLASS}
+                    >
+                      <option value="">{required ? t('csvSelectColumn') : t('csvTypeFromSign')}</option>
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <option key={index} value={index}>{getColumnName(index)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Formats */}
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor="csv-date-format" className="block text-sm font-medium text-text-secondary">{t('csvDateFormat')}</label>
+                  <select id="csv-date-format" value={dateFormat} onChange={e => setDateFormat(e.target.value as CsvDateFormat)} className={SELECT_CLASS}>
+                    {CSV_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="csv-decimal" className="block text-sm font-medium text-text-secondary">{t('csvDecimalSeparator')}</label>
+                  <select id="csv-decimal" value={decimalSeparator} onChange={e => setDecimalSeparator(e.target.value as DecimalSeparator)} className={SELECT_CLASS}>
+                    <option value=".">{t('csvDecimalDot')}</option>
+                    <option value=",">{t('csvDecimalComma')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="csv-currency" className="block text-sm font-medium text-text-secondary">{t('currency')}</label>
+                  <select id="csv-currency" value={currency} onChange={e => setCurrency(e.target.value)} className={SELECT_CLASS}>
+                    {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              {/* File Preview */}
+              <div className="overflow-x-auto bg-input rounded-lg p-3">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-text-secondary">
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <th key={index} className="text-left font-medium pr-4 pb-1 whitespace-nowrap">{getColumnName(index)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {Array.from({ length: columnCount }, (_, index) => (
+                          <td key={index} className="pr-4 py-1 whitespace-nowrap">{row[index] || ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Action Buttons */}
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+                <button type="button" onClick={handleNext} className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors">{t('next')}</button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-text-secondary">{t('csvReviewDesc')}</p>
+
+              <div>
+                <label htmlFor="csv-category-all" className="block text-sm font-medium text-text-secondary">{t('csvCategoryForSelected')}</label>
+                <select id="csv-category-all" value="" onChange={e => handleCategoryForAll(e.target.value)} className={SELECT_CLASS}>
+                  <option value="" disabled>{t('selectCategory')}</option>
+                  <CategoryOptions categories={expenseCategories} />
+                </select>
+              </div>
+
+              {/* Parsed Rows */}
+              <div className="space-y-2">
+                {importRows.map((row, index) => row.transaction && (
+                  <div key={index} className={`flex items-center p-2 rounded-lg bg-input ${selected[index] ? '' : 'opacity-60'}`}>
+                    <input
+                      type="checkbox"
+                      checked={!!selected[index]}
+                      onChange={e => setSelected(prev => ({ ...prev, [index]: e.target.checked }))}
+                      className="accent-primary flex-shrink-0"
+                      aria-label={row.transaction.description}
+                    />
+                    <div className="ml-3 flex-1 min-w-0">
+                      <p className="font-medium truncate">{row.transaction.description}</p>
+                      <p className="text-sm text-text-secondary">
+                        {new Date(row.transaction.date + 'T00:00:00').toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        {row.duplicate && <span className="ml-2 text-danger font-semibold">{t('csvDuplicate')}</span>}
+                      </p>
+                    </div>
+                    {row.transaction.type === 'expense' ? (
+                      <select
+                        value={rowCategories[index] || 'other'}
+                        onChange={e => setRowCategories(prev => ({ ...prev, [index]: e.target.value }))}
+                        className="ml-3 w-32 bg-surface border-transparent rounded-md p-1 text-sm focus:ring-2 focus:ring-primary focus:outline-none"
+                        aria-label={t('category')}
+                      >
+                        <CategoryOptions categories={expenseCategories} />
+                      </select>
+                    ) : (
+                      <select
+                        value={rowCategories[index] || ''}
+                        onChange={e => setRowCategories(prev => ({ ...prev, [index]: e.target.value }))}
+                        className="ml-3 w-32 bg-surface border-transparent rounded-md p-1 text-sm focus:ring-2 focus:ring-primary focus:outline-none"
+                        aria-label={t('category')}
+                      >
+                        <option value="">{t('noIncomeCategory')}</option>
+                        <CategoryOptions categories={incomeCategories} />
+                      </select>
+                    )}
+                    <div className={`ml-3 w-28 text-right font-semibold whitespace-nowrap ${row.transaction.type === 'income' ? 'text-success' : 'text-danger'}`}>
+                      {format(row.transaction.type === 'income' ? row.transaction.amount : -row.transaction.amount, currency, { signDisplay: 'always' })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Invalid Rows */}
+              {invalidRows.length > 0 && (
+                <div className="bg-input rounded-lg p-3 space-y-1">
+                  <p className="text-sm font-semibold text-danger">{t('csvInvalidRows', { count: invalidRows.length })}</p>
+                  <ul className="text-sm text-text-secondary space-y-1">
+                    {invalidRows.slice(0, 10).map(row => (
+                      <li key={row.line}>{t('csvRowError', { line: row.line, reason: t(`csvError_${row.error}` as TranslationKey) })}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex justify-between items-center pt-2">
+                <button type="button" onClick={() => setStep('mapping')} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('back')}</button>
+                <button type="button" onClick={handleImport} disabled={selectedCount === 0} className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors disabled:opacity-50">
+                  {t('csvImportCount', { count: selectedCount })}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
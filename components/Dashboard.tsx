@@ -8,6 +8,7 @@ import React, { useMemo, useState } from 'react';
 import { Transaction, Budget, Category, View } from '../types';
 import { ChartIcon, CogIcon } from './icons';
 import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
 // FIX: Corrected import path for TransactionItem.tsx
 import TransactionItem from './TransactionItem';
 
@@ -15,9 +16,9 @@ import TransactionItem from './TransactionItem';
  * Props for the Dashboard component.
  */
 interface DashboardProps {
-  /** The list of transactions for the current month. */
+  /** The list of transactions for the selected month. */
   transactions: Transaction[];
-  /** The budget settings for the current month. */
+  /** The budget settings for the selected month. */
   budget: Budget[];
   /** The list of all available categories. */
   categories: Category[];
@@ -25,6 +26,8 @@ interface DashboardProps {
   setActiveView: (view: View) => void;
   /** Function to delete a transaction. */
   deleteTransaction: (id: string) => void;
+  /** Function to open a transaction for editing. */
+  onEditTransaction: (transaction: Transaction) => void;
 }
 
 /**
@@ -32,22 +35,24 @@ interface DashboardProps {
  * @param {DashboardProps} props - The props for the component.
  * @returns The rendered dashboard UI.
  */
-export default function Dashboard({ transactions, budget, categories, setActiveView, deleteTransaction }: DashboardProps): React.ReactNode {
+export default function Dashboard({ transactions, budget, categories, setActiveView, deleteTransaction, onEditTransaction }: DashboardProps): React.ReactNode {
   const { t } = useLocalization();
+  const { convert, format } = useCurrency();
   const [activeSwipedItemId, setActiveSwipedItemId] = useState<string | null>(null);
 
   /**
-   * Memoized calculation of total income, expenses, and current balance for the month.
+   * Memoized calculation of total income, expenses, and current balance for the month,
+   * converted into the base currency.
    */
   const { totalIncome, totalExpenses, balance } = useMemo(() => {
     const income = transactions
       .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + convert(t.amount, t.currency), 0);
     const expenses = transactions
       .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0);
+      .reduce((sum, t) => sum + convert(t.amount, t.currency), 0);
     return { totalIncome: income, totalExpenses: expenses, balance: income - expenses };
-  }, [transactions]);
+  }, [transactions, convert]);
 
   /**
    * Memoized calculation to get the 5 most recent transactions.
@@ -71,17 +76,17 @@ export default function Dashboard({ transactions, budget, categories, setActiveV
           <div className="text-center">
             <p className="text-sm text-text-secondary">{t('currentBalance')}</p>
             <p className={`text-3xl font-bold ${balance >= 0 ? 'text-success' : 'text-danger'}`}>
-              {t('currencySymbol')}{balance.toFixed(2)}
+              {format(balance)}
             </p>
           </div>
           <div className="flex justify-between text-center">
             <div>
               <p className="text-sm text-text-secondary">{t('income')}</p>
-              <p className="text-lg font-semibold text-success">{t('currencySymbol')}{totalIncome.toFixed(2)}</p>
+              <p className="text-lg font-semibold text-success">{format(totalIncome)}</p>
             </div>
             <div>
               <p className="text-sm text-text-secondary">{t('expenses')}</p>
-              <p className="text-lg font-semibold text-danger">{t('currencySymbol')}{totalExpenses.toFixed(2)}</p>
+              <p className="text-lg font-semibold text-danger">{format(totalExpenses)}</p>
             </div>
           </div>
         </div>
@@ -116,6 +121,7 @@ export default function Dashboard({ transactions, budget, categories, setActiveV
                 transaction={transaction}
                 getCategory={getCategory}
                 onDelete={deleteTransaction}
+                onEdit={onEditTransaction}
                 activeSwipedItemId={activeSwipedItemId}
                 setActiveSwipedItemId={setActiveSwipedItemId}
               />
@@ -1,15 +1,21 @@
 /**
  * @file Renders the detailed view for a single event budget.
  * This component displays a summary of the event's budget, spending progress,
- * and a list of all associated transactions.
+ * and a list of all associated transactions, which can be selected together for
+ * bulk actions.
  */
 
 import React, { useState } from 'react';
 import { Event, Transaction, Category } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { DEFAULT_CURRENCY } from '../constants';
 import { ArrowLeftIcon, PlusIcon, EditIcon, TrashIcon } from './icons';
 // FIX: Corrected import path for TransactionItem.tsx
 import TransactionItem from './TransactionItem';
+import BulkActionBar from './BulkActionBar';
+import { useSelection } from '../hooks/useSelection';
+import { BulkAction } from '../utils/bulk';
 
 /**
  * Props for the EventDetail component.
@@ -21,6 +27,8 @@ interface EventDetailProps {
   transactions: Transaction[];
   /** The list of all available categories. */
   categories: Category[];
+  /** The list of all events, for moving transactions to another event. */
+  events: Event[];
   /** Callback function to navigate back to the events list. */
   onBack: () => void;
   /** Callback function to open the modal for adding a new expense to this event. */
@@ -31,6 +39,10 @@ interface EventDetailProps {
   onDelete: (eventId: string) => void;
   /** Function to delete a transaction. */
   deleteTransaction: (id: string) => void;
+  /** Function to open a transaction for editing. */
+  onEditTransaction: (transaction: Transaction) => void;
+  /** Callback to apply a bulk action to the transactions with the given IDs. */
+  onBulkAction: (transactionIds: string[], action: BulkAction) => void;
 }
 
 /**
@@ -38,12 +50,15 @@ interface EventDetailProps {
  * @param {EventDetailProps} props - The props for the component.
  * @returns The rendered event detail UI.
  */
-export default function EventDetail({ event, transactions, categories, onBack, onAddExpense, onEdit, onDelete, deleteTransaction }: EventDetailProps): React.ReactNode {
+export default function EventDetail({ event, transactions, categories, events, onBack, onAddExpense, onEdit, onDelete, deleteTransaction, onEditTransaction, onBulkAction }: EventDetailProps): React.ReactNode {
     const { t } = useLocalization();
+    const { convert, format } = useCurrency();
     const [activeSwipedItemId, setActiveSwipedItemId] = useState<string | null>(null);
+    const selection = useSelection();
 
-    // Calculate spending summary for the event.
-    const spent = transactions.reduce((sum, t) => sum + t.amount, 0);
+    // Calculate spending summary for the event, in the currency of the event's budget.
+    const eventCurrency = event.currency || DEFAULT_CURRENCY;
+    const spent = transactions.reduce((sum, t) => sum + convert(t.amount, t.currency, eventCurrency), 0);
     const remaining = event.budget - spent;
     const percentage = event.budget > 0 ? Math.min((spent / event.budget) * 100, 100) : 0;
     const isOverBudget = spent > event.budget;
@@ -58,6 +73,18 @@ export default function EventDetail({ event, transactions, categories, onBack, o
     // Sort transactions to show the most recent first.
     const sortedTransactions = [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
+    /**
+     * Starts or ends multi-select mode, closing any swiped item.
+     */
+    const toggleSelecting = () => {
+        setActiveSwipedItemId(null);
+        if (selection.isSelecting) {
+            selection.stop();
+        } else {
+            selection.start();
+        }
+    };
+
     return (
         <div className="space-y-6">
             <header className="flex items-center justify-between space-x-4">
@@ -95,15 +122,15 @@ export default function EventDetail({ event, transactions, categories, onBack, o
                 <div className="flex justify-between text-center">
                     <div>
                         <p className="text-sm text-text-secondary">{t('totalSpent')}</p>
-                        <p className="text-lg font-semibold text-danger">{t('currencySymbol')}{spent.toFixed(2)}</p>
+                        <p className="text-lg font-semibold text-danger">{format(spent, eventCurrency)}</p>
                     </div>
                      <div>
                         <p className="text-sm text-text-secondary">{t('budget')}</p>
-                        <p className="text-lg font-semibold text-text-primary">{t('currencySymbol')}{event.budget.toFixed(2)}</p>
+                        <p className="text-lg font-semibold text-text-primary">{format(event.budget, eventCurrency)}</p>
                     </div>
                     <div>
                         <p className="text-sm text-text-secondary">{t('remaining')}</p>
-                        <p className={`text-lg font-semibold ${remaining >= 0 ? 'text-success' : 'text-danger'}`}>{t('currencySymbol')}{remaining.toFixed(2)}</p>
+                        <p className={`text-lg font-semibold ${remaining >= 0 ? 'text-success' : 'text-danger'}`}>{format(remaining, eventCurrency)}</p>
                     </div>
                 </div>
             </section>
@@ -112,14 +139,32 @@ export default function EventDetail({ event, transactions, categories, onBack, o
             <section>
                 <div className="flex justify-between items-center mb-2">
                     <h2 className="text-lg font-semibold text-text-primary">{t('eventTransactions')}</h2>
-                    <button
-                        onClick={onAddExpense}
-                        className="flex items-center text-sm bg-primary hover:bg-primary-hover text-white font-bold py-2 px-3 rounded-lg shadow focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-50"
-                    >
-                        <PlusIcon className="w-4 h-4 mr-1" />
-                        {t('expense')}
-                    </button>
+                    <div className="flex items-center space-x-2">
+                        {sortedTransactions.length > 0 && (
+                            <button onClick={toggleSelecting} className="py-2 px-3 rounded-lg text-sm font-medium text-primary hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary">
+                                {selection.isSelecting ? t('done') : t('select')}
+                            </button>
+                        )}
+                        <button
+                            onClick={onAddExpense}
+                            className="flex items-center text-sm bg-primary hover:bg-primary-hover text-white font-bold py-2 px-3 rounded-lg shadow focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-50"
+                        >
+                            <PlusIcon className="w-4 h-4 mr-1" />
+                            {t('expense')}
+                        </button>
+                    </div>
                 </div>
+                {selection.isSelecting && (
+                    <div className="mb-2">
+                        <BulkActionBar
+                            selection={selection}
+                            transactions={sortedTransactions}
+                            categories={categories}
+                            events={events}
+                            onBulkAction={onBulkAction}
+                        />
+                    </div>
+                )}
                  <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
                     {sortedTransactions.length > 0 ? (
                         sortedTransactions.map(transaction => (
@@ -128,8 +173,12 @@ export default function EventDetail({ event, transactions, categories, onBack, o
                               transaction={transaction}
                               getCategory={getCategory}
                               onDelete={deleteTransaction}
+                              onEdit={onEditTransaction}
                               activeSwipedItemId={activeSwipedItemId}
                               setActiveSwipedItemId={setActiveSwipedItemId}
+                              isSelecting={selection.isSelecting}
+                              isSelected={selection.selectedIds.has(transaction.id)}
+                              onToggleSelect={selection.toggle}
                             />
                         ))
                     ) : (
@@ -8,6 +8,8 @@
 import React from 'react';
 import { Event, Transaction } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { DEFAULT_CURRENCY } from '../constants';
 import { PlusIcon, EditIcon, TrashIcon } from './icons';
 
 /**
@@ -35,16 +37,18 @@ interface EventsProps {
  */
 export default function Events({ events, transactions, onSelectEvent, onAddEvent, onEditEvent, onDeleteEvent }: EventsProps): React.ReactNode {
     const { t } = useLocalization();
+    const { convert, format } = useCurrency();
 
     /**
-     * Calculates the total amount spent for a specific event.
-     * @param {string} eventId - The ID of the event.
+     * Calculates the total amount spent for a specific event, in the event's currency.
+     * @param {Event} event - The event.
      * @returns The total spent amount.
      */
-    const getEventSpent = (eventId: string) => {
+    const getEventSpent = (event: Event) => {
+        const eventCurrency = event.currency || DEFAULT_CURRENCY;
         return transactions
-            .filter(t => t.eventId === eventId)
-            .reduce((sum, t) => sum + t.amount, 0);
+            .filter(t => t.eventId === event.id)
+            .reduce((sum, t) => sum + convert(t.amount, t.currency, eventCurrency), 0);
     };
     
     // Display events in reverse chronological order (newest first).
@@ -66,7 +70,8 @@ export default function Events({ events, transactions, onSelectEvent, onAddEvent
             {sortedEvents.length > 0 ? (
                 <div className="space-y-4">
                     {sortedEvents.map(event => {
-                        const spent = getEventSpent(event.id);
+                        const spent = getEventSpent(event);
+                        const eventCurrency = event.currency || DEFAULT_CURRENCY;
                         const remaining = event.budget - spent;
                         const percentage = event.budget > 0 ? Math.min((spent / event.budget) * 100, 100) : 0;
                         const isOverBudget = spent > event.budget;
@@ -104,15 +109,15 @@ export default function Events({ events, transactions, onSelectEvent, onAddEvent
                                     {/* Spending Summary */}
                                     <div className="flex justify-between text-sm">
                                         <div className="text-text-secondary">
-                                            <span className="font-semibold text-danger">{t('currencySymbol')}{spent.toFixed(2)}</span> {t('spent')}
+                                            <span className="font-semibold text-danger">{format(spent, eventCurrency)}</span> {t('spent')}
                                         </div>
                                         <div className="text-text-secondary">
-                                            {t('budget')}: <span className="font-semibold text-text-primary">{t('currencySymbol')}{event.budget.toFixed(2)}</span>
+                                            {t('budget')}: <span className="font-semibold text-text-primary">{format(event.budget, eventCurrency)}</span>
                                         </div>
                                     </div>
                                     {isOverBudget && (
                                         <p className="text-right text-xs text-danger">
-                                            {t('overBudgetWarning', { amount: `${t('currencySymbol')}${(spent - event.budget).toFixed(2)}` })}
+                                            {t('overBudgetWarning', { amount: format(spent - event.budget, eventCurrency) })}
                                         </p>
                                     )}
                                 </div>
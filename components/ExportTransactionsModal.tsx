@@ -0,0 +1,186 @@
+/**
+ * @file Renders a modal for exporting transactions within a date range as a flat
+ * CSV or Excel file, for sharing with an accountant without the whole app state.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Category, Event, Transaction } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { getDaysInMonth, getTodayKey } from '../utils/date';
+import { toCsv } from '../utils/csv';
+import { createXlsx } from '../utils/xlsx';
+import { buildTransactionTable, downloadBlob, filterByDateRange } from '../utils/export';
+
+/**
+ * Props for the ExportTransactionsModal component.
+ */
+interface ExportTransactionsModalProps {
+  /** Whether the modal is currently open. */
+  isOpen: boolean;
+  /** Function to call when the modal should be closed. */
+  onClose: () => void;
+  /** The list of all transactions, including those linked to events. */
+  transactions: Transaction[];
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The list of all events. */
+  events: Event[];
+}
+
+/** The file formats offered for the export. */
+type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Gets the date range of a preset period relative to today.
+ * @param {'thisMonth' | 'lastMonth' | 'thisYear'} preset - The period.
+ * @returns {{ from: string; to: string }} The first and last dates of the period.
+ */
+const getPresetRange = (preset: 'thisMonth' | 'lastMonth' | 'thisYear') => {
+  const today = getTodayKey();
+  const year = Number(today.slice(0, 4));
+  const month = Number(today.slice(5, 7));
+  if (preset === 'thisYear') {
+    return { from: `${year}-01-01`, to: `${year}-12-31` };
+  }
+  const [rangeYear, rangeMonth] = preset === 'thisMonth' ? [year, month] : month === 1 ? [year - 1, 12] : [year, month - 1];
+  const monthKey = `${rangeYear}-${String(rangeMonth).padStart(2, '0')}`;
+  return { from: `${monthKey}-01`, to: `${monthKey}-${getDaysInMonth(rangeYear, rangeMonth - 1)}` };
+};
+
+/**
+ * A modal component for exporting transactions to CSV or Excel.
+ * @param {ExportTransactionsModalProps} props - The props for the component.
+ * @returns The rendered modal component or null if not open.
+ */
+export default function ExportTransactionsModal({ isOpen, onClose, transactions, categories, events }: ExportTransactionsModalProps): React.ReactNode {
+  const { t } = useLocalization();
+  const { showToast } = useToast();
+  const { convert, baseCurrency } = useCurrency();
+
+  // Form state
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('csv');
+  const [includeEvents, setIncludeEvents] = useState(true);
+
+  /**
+   * Effect to reset the form to the current month whenever the modal opens.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      const range = getPresetRange('thisMonth');
+      setFrom(range.from);
+      setTo(range.to);
+      setFileFormat('csv');
+      setIncludeEvents(true);
+    }
+  }, [isOpen]);
+
+  // The transactions eligible for export, with or without event expenses
+  const exportable = useMemo(() => (includeEvents ? transactions : transactions.filter(t => !t.eventId)), [transactions, includeEvents]);
+  const count = useMemo(() => filterByDateRange(exportable, from, to).length, [exportable, from, to]);
+
+  /**
+   * Applies a preset date range.
+   * @param {'thisMonth' | 'lastMonth' | 'thisYear'} preset - The period to select.
+   */
+  const handlePreset = (preset: 'thisMonth' | 'lastMonth' | 'thisYear') => {
+    const range = getPresetRange(preset);
+    setFrom(range.from);
+    setTo(range.to);
+  };
+
+  /**
+   * Handles the form submission.
+   * Validates the date range, builds the table and downloads it in the chosen format.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!from || !to || to < from) {
+      showToast(t('errorEndDate'), { type: 'error' });
+      return;
+    }
+    const table = buildTransactionTable({ transactions: exportable, categories, events, from, to, t, convert, baseCurrency });
+    const fileName = `meme-budget-transactions-${from}-${to}`;
+    if (fileFormat === 'xlsx') {
+      downloadBlob(createXlsx(table, t('exportSheetName')), `${fileName}.xlsx`);
+    } else {
+      downloadBlob(new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    }
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{t('exportTransactions')}</h2>
+
+          {/* Date Range */}
+          <div className="flex flex-wrap gap-2">
+            {(['thisMonth', 'lastMonth', 'thisYear'] as const).map(preset => (
+              <button key={preset} type="button" onClick={() => handlePreset(preset)} className="py-1 px-3 rounded-full bg-input text-sm font-medium hover:bg-border transition-colors">
+                {t(`exportPreset_${preset}`)}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="export-from" className="block text-sm font-medium text-text-secondary">{t('exportFrom')}</label>
+              <input
+                type="date"
+                id="export-from"
+                value={from}
+                onChange={e => setFrom(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="export-to" className="block text-sm font-medium text-text-secondary">{t('exportTo')}</label>
+              <input
+                type="date"
+                id="export-to"
+                value={to}
+                onChange={e => setTo(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                required
+              />
+            </div>
+          </div>
+
+          {/* File Format */}
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">{t('exportFormat')}</label>
+            <div className="mt-1 grid grid-cols-2 gap-2 rounded-lg bg-input p-1">
+              <button type="button" onClick={() => setFileFormat('csv')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${fileFormat === 'csv' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                CSV
+              </button>
+              <button type="button" onClick={() => setFileFormat('xlsx')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${fileFormat === 'xlsx' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                Excel (.xlsx)
+              </button>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm font-medium">
+            <input type="checkbox" checked={includeEvents} onChange={e => setIncludeEvents(e.target.checked)} className="accent-primary" />
+            <span>{t('exportIncludeEvents')}</span>
+          </label>
+
+          <p className="text-sm text-text-secondary">{t('exportCount', { count })}</p>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button type="submit" disabled={count === 0} className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors disabled:opacity-50">{t('exportData')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
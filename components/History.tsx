@@ -1,15 +1,22 @@
 /**
  * @file Renders the history view.
- * This component displays past months' financial summaries in an accordion layout.
- * Users can expand each month to see detailed transactions.
+ * This component displays monthly financial summaries, including the current month, in an accordion layout.
+ * Users can expand each month to see detailed transactions, or open the search view
+ * to find transactions across all months. The transactions of the expanded month can
+ * be selected together for bulk actions.
  */
 
 import React, { useMemo, useState } from 'react';
-import { Transaction, Category } from '../types';
+import { Transaction, Category, Event } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
-import { ChevronDownIcon, ChevronUpIcon, ArrowUpDownIcon, DynamicCategoryIcon } from './icons';
+import { useCurrency } from '../context/CurrencyContext';
+import { ChevronDownIcon, ChevronUpIcon, ArrowUpDownIcon, DynamicCategoryIcon, MagnifyingGlassIcon } from './icons';
 // FIX: Corrected import path for TransactionItem.tsx
 import TransactionItem from './TransactionItem';
+import BulkActionBar from './BulkActionBar';
+import { formatMonthKey } from '../utils/date';
+import { useSelection } from '../hooks/useSelection';
+import { BulkAction } from '../utils/bulk';
 
 /**
  * Props for the History component.
@@ -19,8 +26,16 @@ interface HistoryProps {
   transactions: Transaction[];
   /** The list of all available categories. */
   categories: Category[];
+  /** The list of all events. */
+  events: Event[];
   /** Function to delete a transaction. */
   deleteTransaction: (id: string) => void;
+  /** Function to open a transaction for editing. */
+  onEditTransaction: (transaction: Transaction) => void;
+  /** Callback to open the search view. */
+  onSearch: () => void;
+  /** Callback to apply a bulk action to the transactions with the given IDs. */
+  onBulkAction: (transactionIds: string[], action: BulkAction) => void;
 }
 
 /**
@@ -28,14 +43,16 @@ interface HistoryProps {
  * @param {HistoryProps} props - The props for the component.
  * @returns The rendered history UI.
  */
-export default function History({ transactions, categories, deleteTransaction }: HistoryProps): React.ReactNode {
+export default function History({ transactions, categories, events, deleteTransaction, onEditTransaction, onSearch, onBulkAction }: HistoryProps): React.ReactNode {
     const { t, locale } = useLocalization();
+    const { convert, format } = useCurrency();
     // State to manage which month's details are currently expanded
     const [expandedMonth, setExpandedMonth] = useState<string | null>(null);
     // State to manage the sort order of transactions within an expanded month
     const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
     // State to manage the currently swiped item in the list
     const [activeSwipedItemId, setActiveSwipedItemId] = useState<string | null>(null);
+    const selection = useSelection();
 
 
     /**
@@ -47,25 +64,24 @@ export default function History({ transactions, categories, deleteTransaction }:
 
     /**
      * Memoized calculation to group and summarize transactions by month.
-     * It excludes the current month and sorts the past months chronologically.
+     * It includes every month, the current one too, sorted chronologically.
      */
     const historicalData = useMemo(() => {
-        const currentMonthKey = new Date().toISOString().slice(0, 7);
         const dataByMonth: Record<string, { income: number, expenses: number, transactions: Transaction[] }> = {};
 
-        // Group transactions by month (YYYY-MM)
+        // Group transactions by month (YYYY-MM), converting amounts into the base currency
         transactions.forEach(t => {
             const monthKey = t.date.slice(0, 7);
-            if (monthKey === currentMonthKey) return; // Skip current month
 
             if (!dataByMonth[monthKey]) {
                 dataByMonth[monthKey] = { income: 0, expenses: 0, transactions: [] };
             }
 
+            const amount = convert(t.amount, t.currency);
             if (t.type === 'income') {
-                dataByMonth[monthKey].income += t.amount;
+                dataByMonth[monthKey].income += amount;
             } else {
-                dataByMonth[monthKey].expenses += t.amount;
+                dataByMonth[monthKey].expenses += amount;
             }
             dataByMonth[monthKey].transactions.push(t);
         });
@@ -80,18 +96,14 @@ export default function History({ transactions, categories, deleteTransaction }:
             .sort((a, b) => b[0].localeCompare(a[0])) // Sort months, newest first
             .map(([key, value]) => ({ month: key, ...value }));
 
-    }, [transactions]);
+    }, [transactions, convert]);
 
     /**
      * Formats a month key (e.g., "2023-07") into a localized, readable string (e.g., "July 2023").
      * @param {string} monthKey - The month key to format.
      * @returns The formatted month string.
      */
-    const formatMonth = (monthKey: string) => {
-        const [year, month] = monthKey.split('-');
-        const date = new Date(parseInt(year), parseInt(month) - 1);
-        return date.toLocaleString(locale, { month: 'long', year: 'numeric' });
-    };
+    const formatMonth = (monthKey: string) => formatMonthKey(monthKey, locale);
     
     /**
      * Toggles the expanded month, and resets the swiped item state to ensure
@@ -101,8 +113,39 @@ export default function History({ transactions, categories, deleteTransaction }:
     const toggleMonth = (monthKey: string | null) => {
       setExpandedMonth(monthKey);
       setActiveSwipedItemId(null); // Reset swipe state when opening/closing
+      // The selection only covers the expanded month
+      if (monthKey) {
+        selection.selectAll([]);
+      } else {
+        selection.stop();
+      }
     }
 
+    /**
+     * Starts or ends multi-select mode, closing any swiped item.
+     */
+    const toggleSelecting = () => {
+      setActiveSwipedItemId(null);
+      if (selection.isSelecting) {
+        selection.stop();
+      } else {
+        selection.start();
+      }
+    };
+
+    /**
+     * Sorts transactions by date in the chosen order.
+     * @param {Transaction[]} list - The transactions to sort.
+     * @returns {Transaction[]} A sorted copy of the list.
+     */
+    const sortByDate = (list: Transaction[]) => [...list].sort((a, b) => {
+        const dateA = new Date(a.date).getTime();
+        const dateB = new Date(b.date).getTime();
+        return sortOrder === 'desc' ? dateB - dateA : dateA - dateB;
+    });
+
+    const expandedTransactions = historicalData.find(data => data.month === expandedMonth)?.transactions || [];
+
     if (historicalData.length === 0) {
         return (
             <>
@@ -118,7 +161,7 @@ export default function History({ transactions, categories, deleteTransaction }:
                                 <div>
                                     <h3 className="font-bold text-lg">{t('lastMonthExample')}</h3>
                                     <p className="text-sm text-success">
-                                        {t('totalBalance')}: {t('currencySymbol')}850.50
+                                        {t('totalBalance')}: {format(850.5)}
                                     </p>
                                 </div>
                                 <ChevronUpIcon className="w-6 h-6"/>
@@ -134,7 +177,7 @@ export default function History({ transactions, categories, deleteTransaction }:
                                         <p className="text-sm text-text-secondary">May 1</p>
                                     </div>
                                     <div className="ml-3 font-semibold text-success">
-                                        +{t('currencySymbol')}2200.00
+                                        {format(2200, undefined, { signDisplay: 'always' })}
                                     </div>
                                 </div>
                                 <div className="flex items-center p-2 rounded-lg">
@@ -146,7 +189,7 @@ export default function History({ transactions, categories, deleteTransaction }:
                                         <p className="text-sm text-text-secondary">May 1</p>
                                     </div>
                                     <div className="ml-3 font-semibold text-danger">
-                                        -{t('currencySymbol')}1345.00
+                                        {format(-1345, undefined, { signDisplay: 'always' })}
                                     </div>
                                 </div>
                                  <div className="flex items-center p-2 rounded-lg">
@@ -158,7 +201,7 @@ export default function History({ transactions, categories, deleteTransaction }:
                                         <p className="text-sm text-text-secondary">May 3</p>
                                     </div>
                                     <div className="ml-3 font-semibold text-danger">
-                                        -{t('currencySymbol')}4.50
+                                        {format(-4.5, undefined, { signDisplay: 'always' })}
                                     </div>
                                 </div>
                             </div>
@@ -181,7 +224,32 @@ export default function History({ transactions, categories, deleteTransaction }:
 
     return (
         <div className="space-y-4">
-             <h2 className="text-xl font-semibold text-center">{t('history')}</h2>
+            <div className="relative flex items-center justify-center">
+                <h2 className="text-xl font-semibold">{t('history')}</h2>
+                <div className="absolute right-0 flex items-center space-x-1">
+                    {expandedMonth && (
+                        <button onClick={toggleSelecting} className="py-1 px-3 rounded-lg text-sm font-medium text-primary hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary">
+                            {selection.isSelecting ? t('done') : t('select')}
+                        </button>
+                    )}
+                    <button
+                        onClick={onSearch}
+                        className="p-2 rounded-full hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary"
+                        aria-label={t('searchTransactions')}
+                    >
+                        <MagnifyingGlassIcon className="w-6 h-6" />
+                    </button>
+                </div>
+            </div>
+            {selection.isSelecting && (
+                <BulkActionBar
+                    selection={selection}
+                    transactions={expandedTransactions}
+                    categories={categories}
+                    events={events}
+                    onBulkAction={onBulkAction}
+                />
+            )}
             {historicalData.map(data => {
                 const balance = data.income - data.expenses;
                 const isExpanded = expandedMonth === data.month;
@@ -196,7 +264,7 @@ export default function History({ transactions, categories, deleteTransaction }:
                             <div>
                                 <h3 className="font-bold text-lg">{formatMonth(data.month)}</h3>
                                 <p className={`text-sm ${balance >= 0 ? 'text-success' : 'text-danger'}`}>
-                                    {t('totalBalance')}: {t('currencySymbol')}{balance.toFixed(2)}
+                                    {t('totalBalance')}: {format(balance)}
                                 </p>
                             </div>
                             {isExpanded ? <ChevronUpIcon className="w-6 h-6"/> : <ChevronDownIcon className="w-6 h-6"/>}
@@ -207,11 +275,11 @@ export default function History({ transactions, categories, deleteTransaction }:
                                 <div className="flex justify-between text-center pt-3">
                                     <div>
                                       <p className="text-sm text-text-secondary">{t('income')}</p>
-                                      <p className="text-md font-semibold text-success">{t('currencySymbol')}{data.income.toFixed(2)}</p>
+                                      <p className="text-md font-semibold text-success">{format(data.income)}</p>
                                     </div>
                                     <div>
                                       <p className="text-sm text-text-secondary">{t('expenses')}</p>
-                                      <p className="text-md font-semibold text-danger">{t('currencySymbol')}{data.expenses.toFixed(2)}</p>
+                                      <p className="text-md font-semibold text-danger">{format(data.expenses)}</p>
                                     </div>
                                 </div>
                                 <div className="flex justify-between items-center pt-2 border-t border-border">
@@ -227,20 +295,19 @@ export default function History({ transactions, categories, deleteTransaction }:
                                 </div>
                                 {/* List of transactions for the month */}
                                 <div className="space-y-3">
-                                {[...data.transactions]
-                                    .sort((a, b) => {
-                                        const dateA = new Date(a.date).getTime();
-                                        const dateB = new Date(b.date).getTime();
-                                        return sortOrder === 'desc' ? dateB - dateA : dateA - dateB;
-                                    })
+                                {sortByDate(data.transactions)
                                     .map(transaction => (
                                         <TransactionItem
                                           key={transaction.id}
                                           transaction={transaction}
                                           getCategory={getCategory}
                                           onDelete={deleteTransaction}
+                                          onEdit={onEditTransaction}
                                           activeSwipedItemId={activeSwipedItemId}
                                           setActiveSwipedItemId={setActiveSwipedItemId}
+                                          isSelecting={selection.isSelecting}
+                                          isSelected={selection.selectedIds.has(transaction.id)}
+                                          onToggleSelect={selection.toggle}
                                         />
                                     ))}
                                 </div>
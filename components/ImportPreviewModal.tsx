@@ -0,0 +1,129 @@
+/**
+ * @file Renders a modal that previews a backup import before it is applied.
+ * It lets the user choose between replacing all data and merging the backup into it,
+ * shows how many records will be added, changed or removed, and lists the records
+ * that failed validation and will be dropped.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { BackupData } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { TranslationKey } from '../locales/en';
+import { BackupEntity, ImportMode, planImport } from '../utils/backup';
+
+/**
+ * Props for the ImportPreviewModal component.
+ */
+interface ImportPreviewModalProps {
+  /** The migrated backup to import. */
+  incoming: BackupData;
+  /** The current application data, to compare the backup against. */
+  current: BackupData;
+  /** Function to call when the modal should be closed without importing. */
+  onClose: () => void;
+  /** Callback with the resulting data once the user confirms the import. */
+  onConfirm: (result: BackupData) => void;
+}
+
+/** The kinds of records shown in the preview, with their translation keys. */
+const ENTITY_LABELS: { entity: BackupEntity; label: TranslationKey }[] = [
+  { entity: 'transactions', label: 'importEntity_transactions' },
+  { entity: 'events', label: 'importEntity_events' },
+  { entity: 'categories', label: 'importEntity_categories' },
+  { entity: 'budgets', label: 'importEntity_budgets' },
+  { entity: 'budgetTemplates', label: 'importEntity_budgetTemplates' },
+  { entity: 'recurringRules', label: 'importEntity_recurringRules' },
+  { entity: 'categoryRules', label: 'importEntity_categoryRules' },
+];
+
+/** The maximum number of dropped records listed individually. */
+const MAX_DROPPED_SHOWN = 20;
+
+/**
+ * A modal component for reviewing and confirming a backup import.
+ * @param {ImportPreviewModalProps} props - The props for the component.
+ * @returns The rendered modal component.
+ */
+export default function ImportPreviewModal({ incoming, current, onClose, onConfirm }: ImportPreviewModalProps): React.ReactNode {
+  const { t } = useLocalization();
+  // Imports start in 'replace' mode, matching how restoring a backup has always worked
+  const [mode, setMode] = useState<ImportMode>('replace');
+
+  /**
+   * Memoized import plan for the selected mode. Recomputed when the mode changes,
+   * since references in the backup may resolve to current data only when merging.
+   */
+  const plan = useMemo(() => planImport(current, incoming, mode), [current, incoming, mode]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{t('importPreviewTitle')}</h2>
+
+          {/* Mode Selector */}
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">{t('importMode')}</label>
+            <div className="mt-1 grid grid-cols-2 gap-2 rounded-lg bg-input p-1">
+              <button type="button" onClick={() => setMode('replace')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${mode === 'replace' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                {t('importModeReplace')}
+              </button>
+              <button type="button" onClick={() => setMode('merge')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${mode === 'merge' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                {t('importModeMerge')}
+              </button>
+            </div>
+            <p className="text-sm text-text-secondary mt-2">{mode === 'replace' ? t('importConfirm') : t('importMergeDesc')}</p>
+          </div>
+
+          {/* Diff Summary */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-text-secondary">
+                <th className="text-left font-medium py-1"></th>
+                <th className="text-right font-medium py-1">{t('importAdded')}</th>
+                <th className="text-right font-medium py-1">{t('importChanged')}</th>
+                <th className="text-right font-medium py-1">{t('importRemoved')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ENTITY_LABELS.map(({ entity, label }) => {
+                const diff = plan.diff[entity];
+                return (
+                  <tr key={entity} className="border-t border-border">
+                    <td className="py-2 font-medium">{t(label)}</td>
+                    <td className="py-2 text-right text-success">{diff.added}</td>
+                    <td className="py-2 text-right text-primary">{diff.changed}</td>
+                    <td className={`py-2 text-right ${diff.removed > 0 ? 'text-danger' : ''}`}>{diff.removed}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {/* Dropped Records */}
+          {plan.dropped.length > 0 && (
+            <div className="bg-input rounded-lg p-3 space-y-1">
+              <p className="text-sm font-semibold text-danger">{t('importDroppedTitle', { count: plan.dropped.length })}</p>
+              <ul className="text-sm text-text-secondary space-y-1">
+                {plan.dropped.slice(0, MAX_DROPPED_SHOWN).map((record, index) => (
+                  <li key={index} className="truncate">
+                    {t(`importEntity_${record.entity}` as TranslationKey)} · {record.label}: {t(`importReason_${record.reason}` as TranslationKey)}
+                  </li>
+                ))}
+                {plan.dropped.length > MAX_DROPPED_SHOWN && (
+                  <li>{t('importDroppedMore', { count: plan.dropped.length - MAX_DROPPED_SHOWN })}</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button type="button" onClick={() => onConfirm(plan.result)} className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors">{t('importData')}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * @file Renders a modal for splitting a month's income between needs, wants and
+ * savings (the 50/30/20 rule by default) and turning the split into percentage
+ * budgets for the categories in each group.
+ */
+
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { INCOME_SPLIT_GROUPS, DEFAULT_INCOME_SPLIT_ASSIGNMENTS } from '../constants';
+import { getPercentAmount } from '../utils/budgets';
+import { DynamicCategoryIcon } from './icons';
+
+/** A group of the split, or 'none' for categories left out of it. */
+type SplitGroupId = typeof INCOME_SPLIT_GROUPS[number]['id'] | 'none';
+
+/**
+ * Props for the IncomePresetModal component.
+ */
+interface IncomePresetModalProps {
+  /** Function to call when the modal should be closed. */
+  onClose: () => void;
+  /** Callback with the percentage of income for each category ID in a group. */
+  onApply: (percentages: Record<string, number>) => void;
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The income of the month being budgeted, in the base currency. */
+  income: number;
+}
+
+/**
+ * A modal component for applying a 50/30/20-style split of income to the budgets.
+ * It is rendered only while open.
+ * @param {IncomePresetModalProps} props - The props for the component.
+ * @returns The rendered modal component.
+ */
+export default function IncomePresetModal({ onClose, onApply, categories, income }: IncomePresetModalProps): React.ReactNode {
+  const { t } = useLocalization();
+  const { showToast } = useToast();
+  const { format } = useCurrency();
+  const budgetCategories = categories.filter(c => c.id !== 'other');
+
+  const [groupPercents, setGroupPercents] = useState<Record<string, string>>(
+    INCOME_SPLIT_GROUPS.reduce((acc, group) => ({ ...acc, [group.id]: String(group.percent) }), {} as Record<string, string>)
+  );
+  const [assignments, setAssignments] = useState<Record<string, SplitGroupId>>(
+    budgetCategories.reduce((acc, c) => ({ ...acc, [c.id]: DEFAULT_INCOME_SPLIT_ASSIGNMENTS[c.id] || 'none' }), {} as Record<string, SplitGroupId>)
+  );
+
+  /**
+   * Gets the percentage of a group, ignoring invalid input.
+   * @param {string} groupId - The ID of the group.
+   * @returns {number} The percentage.
+   */
+  const getGroupPercent = (groupId: string) => Math.max(parseFloat(groupPercents[groupId]) || 0, 0);
+
+  /**
+   * Gets the IDs of the categories assigned to a group.
+   * @param {string} groupId - The ID of the group.
+   * @returns {string[]} The category IDs.
+   */
+  const getGroupCategoryIds = (groupId: string) => budgetCategories.filter(c => assignments[c.id] === groupId).map(c => c.id);
+
+  const totalPercent = INCOME_SPLIT_GROUPS.reduce((sum, group) => sum + getGroupPercent(group.id), 0);
+  // Percentages of groups without categories aren't budgeted and stay as left over income
+  const assignedPercent = INCOME_SPLIT_GROUPS.reduce((sum, group) => sum + (getGroupCategoryIds(group.id).length > 0 ? getGroupPercent(group.id) : 0), 0);
+  const leftOverPercent = Math.max(100 - assignedPercent, 0);
+
+  /**
+   * Handles the form submission: splits each group's percentage evenly across its
+   * categories and passes the result on.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (totalPercent > 100) {
+      showToast(t('incomeSplitTotalError', { total: String(totalPercent) }), { type: 'error' });
+      return;
+    }
+    const percentages: Record<string, number> = {};
+    INCOME_SPLIT_GROUPS.forEach(group => {
+      const categoryIds = getGroupCategoryIds(group.id);
+      categoryIds.forEach(categoryId => {
+        percentages[categoryId] = Math.round((getGroupPercent(group.id) / categoryIds.length) * 10) / 10;
+      });
+    });
+    onApply(percentages);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{t('incomeSplit')}</h2>
+          <p className="text-sm text-text-secondary">{t('incomeSplitDesc')}</p>
+
+          {/* Group percentages */}
+          <div className="grid grid-cols-3 gap-3">
+            {INCOME_SPLIT_GROUPS.map(group => (
+              <div key={group.id}>
+                <label htmlFor={`split-${group.id}`} className="block text-sm font-medium text-text-secondary">{t(`incomeSplitGroup_${group.id}` as TranslationKey)}</label>
+                <div className="mt-1 flex items-center space-x-1">
+                  <input
+                    id={`split-${group.id}`}
+                    type="number"
+                    value={groupPercents[group.id]}
+                    onChange={e => setGroupPercents(prev => ({ ...prev, [group.id]: e.target.value }))}
+                    className="w-full bg-input rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none"
+                    step="1"
+                    min="0"
+                    max="100"
+                  />
+                  <span className="text-text-secondary">%</span>
+                </div>
+                <p className="text-xs text-text-secondary mt-1">{format(getPercentAmount(getGroupPercent(group.id), income))}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Category assignments */}
+          <div className="space-y-2">
+            {budgetCategories.map(category => (
+              <div key={category.id} className="flex items-center space-x-3">
+                <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}20`, color: category.color }}>
+                  <DynamicCategoryIcon name={category.icon} className="w-5 h-5" />
+                </div>
+                <label htmlFor={`split-category-${category.id}`} className="flex-1 font-medium truncate">{category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name}</label>
+                <select
+                  id={`split-category-${category.id}`}
+                  value={assignments[category.id]}
+                  onChange={e => setAssignments(prev => ({ ...prev, [category.id]: e.target.value as SplitGroupId }))}
+                  className="bg-input rounded-md p-2 text-sm focus:ring-2 focus:ring-primary focus:outline-none"
+                >
+                  {INCOME_SPLIT_GROUPS.map(group => (
+                    <option key={group.id} value={group.id}>{t(`incomeSplitGroup_${group.id}` as TranslationKey)}</option>
+                  ))}
+                  <option value="none">{t('incomeSplitGroup_none')}</option>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {totalPercent > 100 ? (
+            <p className="text-sm text-danger">{t('incomeSplitTotalError', { total: String(totalPercent) })}</p>
+          ) : leftOverPercent > 0 && (
+            <p className="text-sm text-text-secondary">{t('incomeSplitUnassigned', { percent: String(leftOverPercent), amount: format(getPercentAmount(leftOverPercent, income)) })}</p>
+          )}
+          {income === 0 && <p className="text-sm text-text-secondary">{t('percentOfIncomeNoIncome')}</p>}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button type="submit" className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors">{t('incomeSplitApply')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
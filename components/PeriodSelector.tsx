@@ -0,0 +1,118 @@
+/**
+ * @file Renders the month selector shared by the Dashboard, Analytics and budget settings.
+ * Users can step to the previous or next month, or open a month picker to jump to
+ * any month, including future months for planning.
+ */
+
+import React, { useState, useRef } from 'react';
+import { useLocalization } from '../context/LocalizationContext';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { addMonths, formatMonthKey, getCurrentMonthKey, parseDateKey } from '../utils/date';
+import { ChevronLeftIcon, ChevronRightIcon } from './icons';
+
+/**
+ * Props for the PeriodSelector component.
+ */
+interface PeriodSelectorProps {
+  /** The selected month in YYYY-MM format. */
+  monthKey: string;
+  /** Callback with the newly selected month. */
+  onChange: (monthKey: string) => void;
+}
+
+/**
+ * Gets the short localized name of a month (e.g., "Jan").
+ * @param {string} monthKey - The month in YYYY-MM format.
+ * @param {string} locale - The locale to format for.
+ * @returns {string} The short month name.
+ */
+const getShortMonthName = (monthKey: string, locale: string) =>
+  parseDateKey(`${monthKey}-01`).toLocaleString(locale, { month: 'short', timeZone: 'UTC' });
+
+/**
+ * A month selector with previous/next buttons and a month picker.
+ * @param {PeriodSelectorProps} props - The props for the component.
+ * @returns The rendered selector.
+ */
+export default function PeriodSelector({ monthKey, onChange }: PeriodSelectorProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  // The year shown in the picker, which can be browsed independently of the selection
+  const [pickerYear, setPickerYear] = useState(Number(monthKey.slice(0, 4)));
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Close the picker when clicking outside of it
+  useClickOutside(pickerRef, () => setIsPickerOpen(false));
+
+  const currentMonthKey = getCurrentMonthKey();
+
+  /**
+   * Opens or closes the month picker, starting on the year of the selected month.
+   */
+  const togglePicker = () => {
+    setPickerYear(Number(monthKey.slice(0, 4)));
+    setIsPickerOpen(prev => !prev);
+  };
+
+  /**
+   * Selects a month from the picker and closes it.
+   * @param {string} key - The month in YYYY-MM format.
+   */
+  const handlePick = (key: string) => {
+    onChange(key);
+    setIsPickerOpen(false);
+  };
+
+  return (
+    <div className="relative flex items-center justify-between bg-surface border border-border rounded-2xl shadow-lg p-2" ref={pickerRef}>
+      <button onClick={() => onChange(addMonths(monthKey, -1))} className="p-2 rounded-full hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('previousMonth')}>
+        <ChevronLeftIcon className="w-5 h-5" />
+      </button>
+
+      <div className="flex flex-col items-center">
+        <button onClick={togglePicker} className="font-semibold capitalize px-3 py-1 rounded-lg hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-haspopup="dialog" aria-expanded={isPickerOpen}>
+          {formatMonthKey(monthKey, locale)}
+        </button>
+        {monthKey !== currentMonthKey && (
+          <button onClick={() => onChange(currentMonthKey)} className="text-xs text-primary font-medium hover:underline">
+            {t('backToThisMonth')}
+          </button>
+        )}
+      </div>
+
+      <button onClick={() => onChange(addMonths(monthKey, 1))} className="p-2 rounded-full hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('nextMonth')}>
+        <ChevronRightIcon className="w-5 h-5" />
+      </button>
+
+      {/* Month Picker */}
+      {isPickerOpen && (
+        <div className="absolute z-20 top-full left-1/2 -translate-x-1/2 mt-2 w-72 bg-surface border border-border rounded-lg shadow-lg p-3" role="dialog" aria-label={t('selectMonth')}>
+          <div className="flex items-center justify-between mb-2">
+            <button onClick={() => setPickerYear(year => year - 1)} className="p-1 rounded-full hover:bg-input" aria-label={t('previousYear')}>
+              <ChevronLeftIcon className="w-4 h-4" />
+            </button>
+            <span className="font-semibold">{pickerYear}</span>
+            <button onClick={() => setPickerYear(year => year + 1)} className="p-1 rounded-full hover:bg-input" aria-label={t('nextYear')}>
+              <ChevronRightIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-1">
+            {Array.from({ length: 12 }, (_, index) => {
+              const key = `${pickerYear}-${String(index + 1).padStart(2, '0')}`;
+              const isSelected = key === monthKey;
+              return (
+                <button
+                  key={key}
+                  onClick={() => handlePick(key)}
+                  className={`py-2 rounded-md text-sm capitalize transition-colors ${isSelected ? 'bg-primary text-white font-semibold' : key === currentMonthKey ? 'text-primary font-semibold hover:bg-border/50' : 'hover:bg-border/50'}`}
+                >
+                  {getShortMonthName(key, locale)}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * @file Renders the management view for recurring transactions.
+ * This component lists all recurring rules (rent, salary, subscriptions...) with
+ * their schedule and next due date, and allows users to add, edit, or delete them.
+ */
+
+import React, { useState } from 'react';
+import { Category, RecurringRule } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { ArrowLeftIcon, PlusIcon, EditIcon, TrashIcon, DynamicCategoryIcon } from './icons';
+import RecurringRuleModal from './RecurringRuleModal';
+import { getNextOccurrence } from '../utils/recurrence';
+import { getTodayKey } from '../utils/date';
+
+/**
+ * Props for the Recurring component.
+ */
+interface RecurringProps {
+  /** The list of all recurring rules. */
+  rules: RecurringRule[];
+  /** The list of all available categories. */
+  categories: Category[];
+  /** Callback to save a new or edited rule. An optional ID indicates an update. */
+  onSaveRule: (rule: Omit<RecurringRule, 'id' | 'lastPostedDate'> & { id?: string }) => void;
+  /** Callback to delete a rule. */
+  onDeleteRule: (ruleId: string) => void;
+  /** Callback to navigate back to the settings view. */
+  onBack: () => void;
+}
+
+/**
+ * The component for listing and managing recurring transaction rules.
+ * @param {RecurringProps} props - The props for the component.
+ * @returns The rendered recurring rules UI.
+ */
+export default function Recurring({ rules, categories, onSaveRule, onDeleteRule, onBack }: RecurringProps): React.ReactNode {
+    const { t, locale } = useLocalization();
+    const { format } = useCurrency();
+    // State for the rule modal
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [ruleToEdit, setRuleToEdit] = useState<RecurringRule | null>(null);
+
+    /**
+     * Opens the rule modal for adding or editing a rule.
+     * @param {RecurringRule | null} rule - The rule to edit, or null to add a new one.
+     */
+    const handleOpenModal = (rule: RecurringRule | null) => {
+        setRuleToEdit(rule);
+        setIsModalOpen(true);
+    };
+
+    /**
+     * Formats a date key for display (e.g., "Jun 1, 2024").
+     * @param {string} dateKey - The date in YYYY-MM-DD format.
+     * @returns The localized date string.
+     */
+    const formatDate = (dateKey: string) => new Date(dateKey + 'T00:00:00').toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' });
+
+    const today = getTodayKey();
+
+    return (
+        <div className="space-y-6">
+            <header className="flex items-center justify-between space-x-4">
+                <div className="flex items-center space-x-4 min-w-0">
+                    <button onClick={onBack} className="p-2 rounded-full hover:bg-input flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('backToSettings')}>
+                        <ArrowLeftIcon className="w-6 h-6" />
+                    </button>
+                    <h1 className="text-xl font-semibold truncate">{t('recurringTransactions')}</h1>
+                </div>
+                <button
+                    onClick={() => handleOpenModal(null)}
+                    className="flex items-center justify-center bg-primary hover:bg-primary-hover text-white font-bold py-2 px-4 rounded-lg shadow-lg focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-50 flex-shrink-0"
+                >
+                    <PlusIcon className="w-5 h-5 mr-2" />
+                    {t('addRecurring')}
+                </button>
+            </header>
+
+            {rules.length > 0 ? (
+                <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+                    {rules.map(rule => {
+                        const category = categories.find(c => c.id === rule.categoryId);
+                        const isIncome = rule.type === 'income';
+                        // Income without a category keeps the generic income look
+                        const isPlainIncome = isIncome && !category;
+                        const nextDate = getNextOccurrence(rule, rule.lastPostedDate && rule.lastPostedDate > today ? rule.lastPostedDate : today);
+
+                        return (
+                            <div key={rule.id} className="flex items-center p-2 rounded-lg hover:bg-input">
+                                <div className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: isPlainIncome ? 'hsl(var(--success) / 0.1)' : `${category?.color}20`, color: isPlainIncome ? 'hsl(var(--success))' : category?.color }}>
+                                    <DynamicCategoryIcon name={isPlainIncome ? 'trending-up' : category?.icon || 'tag'} className="w-5 h-5" />
+                                </div>
+                                <div className="ml-3 flex-1 min-w-0">
+                                    <p className="font-medium truncate">{rule.description}</p>
+                                    <p className="text-sm text-text-secondary truncate">
+                                        {t(`freq_${rule.frequency}` as TranslationKey)} · {nextDate ? t('nextOccurrence', { date: formatDate(nextDate) }) : t('recurringEnded')}
+                                    </p>
+                                </div>
+                                <div className={`ml-3 font-semibold whitespace-nowrap ${isIncome ? 'text-success' : 'text-danger'}`}>
+                                    {format(isIncome ? rule.amount : -rule.amount, rule.currency, { signDisplay: 'always' })}
+                                </div>
+                                <div className="ml-3 flex items-center space-x-2 flex-shrink-0">
+                                    <button onClick={() => handleOpenModal(rule)} aria-label={t('editRecurring')} className="p-1 text-text-secondary hover:text-primary rounded-full"><EditIcon className="w-5 h-5"/></button>
+                                    <button onClick={() => onDeleteRule(rule.id)} aria-label={t('deleteRecurring')} className="p-1 text-text-secondary hover:text-danger rounded-full"><TrashIcon className="w-5 h-5"/></button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                // Placeholder shown when no rules have been created
+                <div className="text-center py-10 px-4 bg-surface border border-border rounded-2xl shadow-lg">
+                    <h2 className="text-lg font-semibold mb-2">{t('noRecurring')}</h2>
+                    <p className="text-text-secondary mb-4">{t('createFirstRecurring')}</p>
+                    <button onClick={() => handleOpenModal(null)} className="bg-primary text-white font-bold py-2 px-6 rounded-lg hover:bg-primary-hover transition-colors">
+                        {t('addRecurring')}
+                    </button>
+                </div>
+            )}
+
+            <RecurringRuleModal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                onSave={onSaveRule}
+                categories={categories}
+                ruleToEdit={ruleToEdit}
+            />
+        </div>
+    );
+}
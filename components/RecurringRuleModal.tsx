@@ -0,0 +1,282 @@
+/**
+ * @file Renders a modal for adding a new recurring transaction rule or editing an existing one.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Category, RecurringRule, RecurrenceFrequency } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useToast } from '../context/ToastContext';
+import { TranslationKey } from '../locales/en';
+import { useCurrency } from '../context/CurrencyContext';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../constants';
+import { getTodayKey } from '../utils/date';
+import { filterCategoriesByKind } from '../utils/categories';
+import CategoryOptions from './CategoryOptions';
+
+/**
+ * Props for the RecurringRuleModal component.
+ */
+interface RecurringRuleModalProps {
+  /** Whether the modal is currently open. */
+  isOpen: boolean;
+  /** Function to call when the modal should be closed. */
+  onClose: () => void;
+  /** Callback function to save the new or updated rule. An optional ID indicates an update. */
+  onSave: (rule: Omit<RecurringRule, 'id' | 'lastPostedDate'> & { id?: string }) => void;
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The rule to edit. If null, the modal is in 'add' mode. */
+  ruleToEdit: RecurringRule | null;
+}
+
+/** The frequencies offered in the form, in display order. */
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+/**
+ * A modal component for creating and editing recurring transaction rules.
+ * @param {RecurringRuleModalProps} props - The props for the component.
+ * @returns The rendered modal component or null if not open.
+ */
+export default function RecurringRuleModal({ isOpen, onClose, onSave, categories, ruleToEdit }: RecurringRuleModalProps): React.ReactNode {
+  const { t } = useLocalization();
+  const { showToast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  // Form state
+  const [type, setType] = useState<'income' | 'expense'>('expense');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [description, setDescription] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [startDate, setStartDate] = useState(getTodayKey());
+  const [endDate, setEndDate] = useState('');
+  const [dayOfMonth, setDayOfMonth] = useState('');
+
+  /**
+   * Effect to populate the form fields when the modal opens, either from
+   * the rule being edited or with defaults for a new rule.
+   */
+  useEffect(() => {
+    if (isOpen) {
+      if (ruleToEdit) {
+        setType(ruleToEdit.type);
+        setAmount(ruleToEdit.amount.toString());
+        setCurrency(ruleToEdit.currency || DEFAULT_CURRENCY);
+        setDescription(ruleToEdit.description);
+        setCategoryId(ruleToEdit.categoryId || '');
+        setFrequency(ruleToEdit.frequency);
+        setStartDate(ruleToEdit.startDate);
+        setEndDate(ruleToEdit.endDate || '');
+        setDayOfMonth(ruleToEdit.dayOfMonth ? ruleToEdit.dayOfMonth.toString() : '');
+      } else {
+        setType('expense');
+        setAmount('');
+        setCurrency(baseCurrency);
+        setDescription('');
+        setCategoryId('');
+        setFrequency('monthly');
+        setStartDate(getTodayKey());
+        setEndDate('');
+        setDayOfMonth('');
+      }
+    }
+  }, [isOpen, ruleToEdit, baseCurrency]);
+
+  /**
+   * Switches between expense and income, clearing a category of the other kind.
+   * @param {'income' | 'expense'} newType - The type to switch to.
+   */
+  const handleTypeChange = (newType: 'income' | 'expense') => {
+    setType(newType);
+    if (!filterCategoriesByKind(categories, newType).some(c => c.id === categoryId)) setCategoryId('');
+  };
+
+  /**
+   * Handles the form submission.
+   * Validates the input and calls the onSave callback.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      showToast(t('errorAmount'), { type: 'error' });
+      return;
+    }
+    if (!description.trim()) {
+      showToast(t('errorDescription'), { type: 'error' });
+      return;
+    }
+    if (type === 'expense' && !categoryId) {
+      showToast(t('errorCategory'), { type: 'error' });
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      showToast(t('errorEndDate'), { type: 'error' });
+      return;
+    }
+    const parsedDay = parseInt(dayOfMonth, 10);
+    if (frequency === 'monthly' && dayOfMonth && (isNaN(parsedDay) || parsedDay < 1 || parsedDay > 31)) {
+      showToast(t('errorDayOfMonth'), { type: 'error' });
+      return;
+    }
+
+    onSave({
+      id: ruleToEdit?.id,
+      type,
+      amount: parsedAmount,
+      currency,
+      description: description.trim(),
+      categoryId: categoryId || undefined,
+      frequency,
+      startDate,
+      endDate: endDate || undefined,
+      dayOfMonth: frequency === 'monthly' && dayOfMonth ? parsedDay : undefined,
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <h2 className="text-xl font-bold text-center">{ruleToEdit ? t('editRecurring') : t('addRecurring')}</h2>
+
+          {/* Type Selector */}
+          <div>
+            <label className="block text-sm font-medium text-text-secondary">{t('type')}</label>
+            <div className="mt-1 grid grid-cols-2 gap-2 rounded-lg bg-input p-1">
+              <button type="button" onClick={() => handleTypeChange('expense')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === 'expense' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                {t('expense')}
+              </button>
+              <button type="button" onClick={() => handleTypeChange('income')} className={`py-2 rounded-md text-sm font-semibold transition-colors ${type === 'income' ? 'bg-primary text-white' : 'hover:bg-border/50'}`}>
+                {t('income')}
+              </button>
+            </div>
+          </div>
+
+          {/* Amount */}
+          <div>
+            <label htmlFor="recurring-amount" className="block text-sm font-medium text-text-secondary">{t('amount')}</label>
+            <div className="mt-1 flex space-x-2">
+              <select
+                value={currency}
+                onChange={e => setCurrency(e.target.value)}
+                className="bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                aria-label={t('currency')}
+              >
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                id="recurring-amount"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-2 bg-input border-transparent rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
+                placeholder="0.00"
+                step="0.01"
+              />
+            </div>
+          </div>
+
+          {/* Description */}
+          <div>
+            <label htmlFor="recurring-description" className="block text-sm font-medium text-text-secondary">{t('description')}</label>
+            <input
+              type="text"
+              id="recurring-description"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+              placeholder="e.g., Rent"
+            />
+          </div>
+
+          {/* Category */}
+          <div>
+            <label htmlFor="recurring-category" className="block text-sm font-medium text-text-secondary">{t('category')}</label>
+            <select
+              id="recurring-category"
+              value={categoryId}
+              onChange={e => setCategoryId(e.target.value)}
+              className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+              {type === 'income'
+                ? <option value="">{t('noIncomeCategory')}</option>
+                : <option value="" disabled>{t('selectCategory')}</option>}
+              <CategoryOptions categories={filterCategoriesByKind(categories, type)} />
+            </select>
+          </div>
+
+          {/* Frequency */}
+          <div>
+            <label htmlFor="recurring-frequency" className="block text-sm font-medium text-text-secondary">{t('frequency')}</label>
+            <select
+              id="recurring-frequency"
+              value={frequency}
+              onChange={e => setFrequency(e.target.value as RecurrenceFrequency)}
+              className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+            >
+              {FREQUENCIES.map(f => (
+                <option key={f} value={f}>{t(`freq_${f}` as TranslationKey)}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Day of Month (monthly rules only) */}
+          {frequency === 'monthly' && (
+            <div>
+              <label htmlFor="recurring-day" className="block text-sm font-medium text-text-secondary">{t('dayOfMonth')}</label>
+              <input
+                type="number"
+                id="recurring-day"
+                value={dayOfMonth}
+                onChange={e => setDayOfMonth(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                placeholder={startDate.slice(8, 10)}
+                min={1}
+                max={31}
+              />
+            </div>
+          )}
+
+          {/* Start and End Dates */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="recurring-start" className="block text-sm font-medium text-text-secondary">{t('startDate')}</label>
+              <input
+                type="date"
+                id="recurring-start"
+                value={startDate}
+                onChange={e => setStartDate(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="recurring-end" className="block text-sm font-medium text-text-secondary">{t('endDate')}</label>
+              <input
+                type="date"
+                id="recurring-end"
+                value={endDate}
+                onChange={e => setEndDate(e.target.value)}
+                className="mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none"
+              />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg bg-input hover:bg-border transition-colors">{t('cancel')}</button>
+            <button type="submit" className="py-2 px-6 rounded-lg bg-primary text-white font-bold hover:bg-primary-hover transition-colors">{t('save')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
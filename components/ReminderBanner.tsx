@@ -0,0 +1,46 @@
+/**
+ * @file Renders the in-app budget reminder banner.
+ * It is shown in place of a system notification when notification permission
+ * has been denied or notifications are not supported by the browser.
+ */
+
+import React from 'react';
+import { ReminderMessage } from '../utils/reminders';
+import { useLocalization } from '../context/LocalizationContext';
+import { BellIcon, XMarkIcon } from './icons';
+
+/**
+ * Props for the ReminderBanner component.
+ */
+interface ReminderBannerProps {
+  /** The digest to display. */
+  message: ReminderMessage;
+  /** Callback to dismiss the banner. */
+  onDismiss: () => void;
+}
+
+/**
+ * A dismissible banner displaying a budget reminder digest.
+ * @param {ReminderBannerProps} props - The props for the component.
+ * @returns The rendered banner.
+ */
+export default function ReminderBanner({ message, onDismiss }: ReminderBannerProps): React.ReactNode {
+  const { t } = useLocalization();
+
+  return (
+    <section className="mb-6">
+      <div className="bg-surface border-l-4 border-primary text-text-primary p-4 rounded-2xl shadow-lg flex items-start" role="status">
+        <BellIcon className="w-6 h-6 mr-3 flex-shrink-0 text-primary" />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold">{message.title}</p>
+          {message.lines.map(line => (
+            <p key={line} className="text-sm">{line}</p>
+          ))}
+        </div>
+        <button onClick={onDismiss} className="ml-3 p-1 rounded-full text-text-secondary hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('dismiss')}>
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * @file Renders the transaction search view.
+ * Users can search every transaction, event expenses included, by words in the
+ * description and narrow the results by category, event, type, amount and date.
+ * Results are grouped by month, with live totals for everything that matches, and
+ * can be selected together for bulk actions.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Category, Event } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { ArrowLeftIcon, MagnifyingGlassIcon, XMarkIcon } from './icons';
+import TransactionItem from './TransactionItem';
+import CategoryOptions from './CategoryOptions';
+import BulkActionBar from './BulkActionBar';
+import { formatMonthKey } from '../utils/date';
+import { filterCategoriesByKind } from '../utils/categories';
+import { useSelection } from '../hooks/useSelection';
+import { BulkAction } from '../utils/bulk';
+import { EMPTY_TRANSACTION_FILTERS, TransactionFilters, filterTransactions, getMatchingCategoryIds, groupTransactionsByMonth, hasActiveFilters } from '../utils/search';
+
+/**
+ * Props for the Search component.
+ */
+interface SearchProps {
+  /** The list of all transactions, including event transactions. */
+  transactions: Transaction[];
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The list of all events. */
+  events: Event[];
+  /** Function to delete a transaction. */
+  deleteTransaction: (id: string) => void;
+  /** Function to open a transaction for editing. */
+  onEditTransaction: (transaction: Transaction) => void;
+  /** Callback to apply a bulk action to the transactions with the given IDs. */
+  onBulkAction: (transactionIds: string[], action: BulkAction) => void;
+  /** Callback to navigate back to the history view. */
+  onBack: () => void;
+}
+
+/**
+ * The search component for finding transactions across all months.
+ * @param {SearchProps} props - The props for the component.
+ * @returns The rendered search UI.
+ */
+export default function Search({ transactions, categories, events, deleteTransaction, onEditTransaction, onBulkAction, onBack }: SearchProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { convert, format } = useCurrency();
+  const [filters, setFilters] = useState<TransactionFilters>(EMPTY_TRANSACTION_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  // State to manage the currently swiped item in the list
+  const [activeSwipedItemId, setActiveSwipedItemId] = useState<string | null>(null);
+  const selection = useSelection();
+
+  // Expense categories first, then income categories, each kind in group order
+  const filterCategories = useMemo(
+    () => [...filterCategoriesByKind(categories, 'expense'), ...filterCategoriesByKind(categories, 'income')],
+    [categories]
+  );
+
+  const results = useMemo(() => filterTransactions(transactions, filters, categories, convert), [transactions, filters, categories, convert]);
+  const months = useMemo(
+    () => groupTransactionsByMonth(results, convert, getMatchingCategoryIds(filters.categoryId, categories)),
+    [results, convert, filters.categoryId, categories]
+  );
+  const totalIncome = months.reduce((sum, month) => sum + month.income, 0);
+  const totalExpenses = months.reduce((sum, month) => sum + month.expenses, 0);
+  const isFiltered = hasActiveFilters(filters);
+
+  /**
+   * Helper function to find a category by its ID.
+   * @param {string | undefined} id - The ID of the category.
+   * @returns The category object or undefined.
+   */
+  const getCategory = (id: string | undefined) => categories.find(c => c.id === id);
+
+  /**
+   * Updates one of the filters.
+   * @param {K} key - The filter to update.
+   * @param {TransactionFilters[K]} value - The new value.
+   */
+  const updateFilter = <K extends keyof TransactionFilters>(key: K, value: TransactionFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setActiveSwipedItemId(null);
+  };
+
+  /**
+   * Clears every filter while keeping the text query.
+   */
+  const clearFilters = () => {
+    setFilters(prev => ({ ...EMPTY_TRANSACTION_FILTERS, query: prev.query }));
+  };
+
+  /**
+   * Starts or ends multi-select mode, closing any swiped item.
+   */
+  const toggleSelecting = () => {
+    setActiveSwipedItemId(null);
+    if (selection.isSelecting) {
+      selection.stop();
+    } else {
+      selection.start();
+    }
+  };
+
+  const inputClassName = 'mt-1 w-full bg-input border-transparent rounded-md p-2 focus:ring-2 focus:ring-primary focus:outline-none';
+
+  return (
+    <div className="space-y-4">
+      <header className="flex items-center justify-between space-x-4">
+        <div className="flex items-center space-x-4 min-w-0">
+          <button onClick={onBack} className="p-2 rounded-full hover:bg-input flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('backToHistory')}>
+            <ArrowLeftIcon className="w-6 h-6" />
+          </button>
+          <h1 className="text-xl font-semibold truncate">{t('searchTransactions')}</h1>
+        </div>
+        {results.length > 0 && (
+          <button onClick={toggleSelecting} className="py-1 px-3 rounded-lg text-sm font-medium text-primary hover:bg-input flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-primary">
+            {selection.isSelecting ? t('done') : t('select')}
+          </button>
+        )}
+      </header>
+
+      {selection.isSelecting && (
+        <BulkActionBar
+          selection={selection}
+          transactions={results}
+          categories={categories}
+          events={events}
+          onBulkAction={onBulkAction}
+        />
+      )}
+
+      {/* Query and filters */}
+      <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+        <div className="relative">
+          <MagnifyingGlassIcon className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary pointer-events-none" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => updateFilter('query', e.target.value)}
+            className="w-full bg-input border-transparent rounded-md py-2 pl-10 pr-10 focus:ring-2 focus:ring-primary focus:outline-none"
+            placeholder={t('searchPlaceholder')}
+            aria-label={t('searchTransactions')}
+            autoFocus
+          />
+          {filters.query && (
+            <button onClick={() => updateFilter('query', '')} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full text-text-secondary hover:text-text-primary" aria-label={t('clearSearch')}>
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <button onClick={() => setShowFilters(prev => !prev)} className="text-primary font-medium hover:underline" aria-expanded={showFilters}>
+            {showFilters ? t('hideFilters') : t('showFilters')}
+          </button>
+          {isFiltered && (
+            <button onClick={clearFilters} className="text-text-secondary hover:underline">{t('clearFilters')}</button>
+          )}
+        </div>
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="search-type" className="block text-sm font-medium text-text-secondary">{t('type')}</label>
+              <select id="search-type" value={filters.type} onChange={e => updateFilter('type', e.target.value as TransactionFilters['type'])} className={inputClassName}>
+                <option value="all">{t('searchTypeAll')}</option>
+                <option value="expense">{t('ruleType_expense')}</option>
+                <option value="income">{t('ruleType_income')}</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="search-category" className="block text-sm font-medium text-text-secondary">{t('category')}</label>
+              <select id="search-category" value={filters.categoryId} onChange={e => updateFilter('categoryId', e.target.value)} className={inputClassName}>
+                <option value="">{t('allCategories')}</option>
+                <CategoryOptions categories={filterCategories} />
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="search-event" className="block text-sm font-medium text-text-secondary">{t('event')}</label>
+              <select id="search-event" value={filters.eventId} onChange={e => updateFilter('eventId', e.target.value)} className={inputClassName}>
+                <option value="">{t('allTransactions')}</option>
+                <option value="none">{t('noEvent')}</option>
+                {events.map(event => <option key={event.id} value={event.id}>{event.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="search-min" className="block text-sm font-medium text-text-secondary">{t('searchMinAmount')}</label>
+              <input id="search-min" type="number" value={filters.minAmount} onChange={e => updateFilter('minAmount', e.target.value)} className={inputClassName} placeholder="0.00" step="0.01" min="0" />
+            </div>
+            <div>
+              <label htmlFor="search-max" className="block text-sm font-medium text-text-secondary">{t('searchMaxAmount')}</label>
+              <input id="search-max" type="number" value={filters.maxAmount} onChange={e => updateFilter('maxAmount', e.target.value)} className={inputClassName} placeholder="0.00" step="0.01" min="0" />
+            </div>
+            <div>
+              <label htmlFor="search-from" className="block text-sm font-medium text-text-secondary">{t('exportFrom')}</label>
+              <input id="search-from" type="date" value={filters.startDate} onChange={e => updateFilter('startDate', e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="search-to" className="block text-sm font-medium text-text-secondary">{t('exportTo')}</label>
+              <input id="search-to" type="date" value={filters.endDate} onChange={e => updateFilter('endDate', e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Totals of the matching transactions */}
+      <div className="bg-surface border border-border rounded-2xl shadow-lg p-4">
+        <p className="text-sm text-text-secondary text-center">{t('searchResultsCount', { count: String(results.length) })}</p>
+        <div className="flex justify-between text-center pt-3">
+          <div>
+            <p className="text-sm text-text-secondary">{t('income')}</p>
+            <p className="text-md font-semibold text-success">{format(totalIncome)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-text-secondary">{t('expenses')}</p>
+            <p className="text-md font-semibold text-danger">{format(totalExpenses)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-text-secondary">{t('totalBalance')}</p>
+            <p className={`text-md font-semibold ${totalIncome - totalExpenses >= 0 ? 'text-success' : 'text-danger'}`}>{format(totalIncome - totalExpenses)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Results, grouped by month */}
+      {months.length > 0 ? months.map(month => (
+        <section key={month.month} className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+          <div className="flex justify-between items-baseline">
+            <h3 className="font-bold text-lg capitalize">{formatMonthKey(month.month, locale)}</h3>
+            <p className={`text-sm ${month.income - month.expenses >= 0 ? 'text-success' : 'text-danger'}`}>{format(month.income - month.expenses)}</p>
+          </div>
+          <div className="space-y-3">
+            {month.transactions.map(transaction => (
+              <TransactionItem
+                key={transaction.id}
+                transaction={transaction}
+                getCategory={getCategory}
+                onDelete={deleteTransaction}
+                onEdit={onEditTransaction}
+                activeSwipedItemId={activeSwipedItemId}
+                setActiveSwipedItemId={setActiveSwipedItemId}
+                isSelecting={selection.isSelecting}
+                isSelected={selection.selectedIds.has(transaction.id)}
+                onToggleSelect={selection.toggle}
+              />
+            ))}
+          </div>
+        </section>
+      )) : (
+        <div className="text-center py-10 px-4 bg-surface border border-border rounded-2xl shadow-lg">
+          <h2 className="text-lg font-semibold mb-2">{t('noSearchResults')}</h2>
+          <p className="text-text-secondary">{t('noSearchResultsDesc')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,14 +5,32 @@
  */
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Budget, Category, Transaction, Event } from '../types';
+import { Budget, BudgetTemplate, Category, CategoryRule, Transaction, Event, NotificationFrequency, BackupData, RecurringRule } from '../types';
 import { useLocalization } from '../context/LocalizationContext';
 // FIX: Corrected import path for locales/en.ts
 import { TranslationKey } from '../locales/en';
-import { useLocalStorage } from '../hooks/useLocalStorage';
+import { ReminderPermission } from '../hooks/useReminders';
+import { useCurrency } from '../context/CurrencyContext';
+import { useToast } from '../context/ToastContext';
+import { useConfirm } from '../context/ConfirmContext';
+import { SUPPORTED_CURRENCIES } from '../constants';
+import { getCurrencyName, getCurrencySymbol } from '../utils/currency';
+import { BackupError, migrateBackup } from '../utils/backup';
+import { downloadBlob } from '../utils/export';
+import { applyCategoryRules } from '../utils/categoryRules';
+import { findPreviousBudgetMonth, getCarryOver, getPercentAmount } from '../utils/budgets';
+import { filterCategoriesByKind, getParentCategory, sortCategoriesByGroup } from '../utils/categories';
+import { formatMonthKey } from '../utils/date';
 import CategoryModal from './CategoryModal';
+import CategoryRuleModal from './CategoryRuleModal';
+import ImportPreviewModal from './ImportPreviewModal';
+import CsvImportModal from './CsvImportModal';
+import ExportTransactionsModal from './ExportTransactionsModal';
+import BudgetTemplateModal from './BudgetTemplateModal';
+import IncomePresetModal from './IncomePresetModal';
 import Dropdown from './Dropdown';
-import { EditIcon, TrashIcon, DownloadIcon, UploadIcon, DynamicCategoryIcon } from './icons';
+import PeriodSelector from './PeriodSelector';
+import { EditIcon, TrashIcon, DownloadIcon, UploadIcon, DynamicCategoryIcon, RepeatIcon, ChevronUpIcon, ChevronDownIcon } from './icons';
 import { ICON_LIST } from './icons';
 
 /**
@@ -23,22 +41,65 @@ interface SettingsProps {
   categories: Category[];
   /** Function to update the global list of categories. */
   setCategories: React.Dispatch<React.SetStateAction<Category[]>>;
-  /** The budget settings for the currently active month. */
+  /** The auto-categorisation rules, in the order they are checked. */
+  categoryRules: CategoryRule[];
+  /** Function to update the list of auto-categorisation rules. */
+  setCategoryRules: React.Dispatch<React.SetStateAction<CategoryRule[]>>;
+  /** The budget settings for the selected month. */
   budget: Budget[];
-  /** Function to update the budget for the current month. */
+  /** Function to update the budget for the selected month. */
   setMonthBudget: (newBudgets: Budget[]) => void;
-  /** The list of all transactions (excluding event-specific ones). */
+  /** All budget settings, keyed by month (YYYY-MM), used for copying and carry-over. */
+  budgets: Record<string, Budget[]>;
+  /** Whether a new month starts with a copy of the previous month's budgets. */
+  autoCopyBudgets: boolean;
+  /** Function to turn automatic budget copying on or off. */
+  setAutoCopyBudgets: (enabled: boolean) => void;
+  /** The list of all budget templates. */
+  budgetTemplates: BudgetTemplate[];
+  /** Function to update the list of budget templates. */
+  setBudgetTemplates: React.Dispatch<React.SetStateAction<BudgetTemplate[]>>;
+  /** Callback to save a new or edited template. An optional ID indicates an update. */
+  onSaveTemplate: (template: Omit<BudgetTemplate, 'id'> & { id?: string }) => void;
+  /** Callback to navigate to the multi-month budget planner. */
+  onOpenPlanner: () => void;
+  /** The month whose budget is being edited, in YYYY-MM format. */
+  selectedMonthKey: string;
+  /** Function to change the month whose budget is being edited. */
+  onSelectMonth: (monthKey: string) => void;
+  /** The list of all transactions (excluding event-specific ones), used for the monthly income total. */
   transactions: Transaction[];
+  /** The list of all transactions, including those linked to events, used for exports. */
+  allTransactions: Transaction[];
+  /** The list of all events, used to resolve event names in exports. */
+  events: Event[];
   /** Function to update the global list of transactions. */
   setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
-  /** The list of all created events. */
-  events: Event[];
-  /** Function to update the global list of events. */
-  setEvents: React.Dispatch<React.SetStateAction<Event[]>>;
-  /** A record of all historical and current monthly budgets. */
-  budgets: Record<string, Budget[]>;
-  /** Function to update the global budget record. */
-  setBudgets: React.Dispatch<React.SetStateAction<Record<string, Budget[]>>>;
+  /** Function to update the list of recurring transaction rules. */
+  setRecurringRules: React.Dispatch<React.SetStateAction<RecurringRule[]>>;
+  /** Function that gathers all application data and preferences into a backup. */
+  onCreateBackup: () => BackupData;
+  /** Function that replaces all application data with the contents of a backup. */
+  onRestoreBackup: (data: BackupData) => void;
+  /** Function that adds transactions imported from a bank statement. */
+  onImportTransactions: (transactions: Omit<Transaction, 'id'>[]) => void;
+  /**
+   * Records a change to the data in the undo history and offers to undo it; call it right
+   * before changing the data. An optional message is shown instead of the label.
+   */
+  onRecordChange: (label: TranslationKey, message?: string) => void;
+  /** Changes the base currency, converting the amounts stored in it. */
+  onChangeBaseCurrency: (currency: string) => void;
+  /** Callback to navigate to the recurring transactions view. */
+  onManageRecurring: () => void;
+  /** How often budget reminders are sent. */
+  notificationFrequency: NotificationFrequency;
+  /** Function to update the reminder frequency. */
+  setNotificationFrequency: (frequency: NotificationFrequency) => void;
+  /** The browser's notification permission state. */
+  notificationPermission: ReminderPermission;
+  /** Function to ask the user for notification permission. */
+  onRequestNotificationPermission: () => Promise<ReminderPermission>;
 }
 
 /**
@@ -47,34 +108,112 @@ interface SettingsProps {
  * @returns {React.ReactNode} The rendered settings UI.
  */
 export default function Settings({ 
-  categories, setCategories, budget, setMonthBudget, transactions, setTransactions, 
-  events, setEvents, budgets, setBudgets 
+  categories, setCategories, categoryRules, setCategoryRules, budget, setMonthBudget, budgets, autoCopyBudgets, setAutoCopyBudgets, budgetTemplates, setBudgetTemplates, onSaveTemplate, onOpenPlanner, selectedMonthKey, onSelectMonth, transactions, allTransactions, events, setTransactions, setRecurringRules,
+  onCreateBackup, onRestoreBackup, onImportTransactions, onRecordChange, onChangeBaseCurrency, onManageRecurring,
+  notificationFrequency, setNotificationFrequency, notificationPermission, onRequestNotificationPermission
 }: SettingsProps): React.ReactNode {
   const { t, locale, setLocale } = useLocalization();
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+  const { baseCurrency, exchangeRates, setExchangeRates, convert, format } = useCurrency();
   // Local state to manage budget input fields before saving to global state
   const [localBudgets, setLocalBudgets] = useState<Record<string, number>>({});
-  const [notificationFrequency, setNotificationFrequency] = useLocalStorage('notificationFrequency', 'monthly');
+  // Local state for the categories with rollover turned on, saved along with the budgets
+  const [localRollover, setLocalRollover] = useState<Record<string, boolean>>({});
+  // Local state for the categories budgeted as a percentage of income, with their percentages
+  const [localPercent, setLocalPercent] = useState<Record<string, number>>({});
+  // Local state for the exchange-rate inputs, as "1 unit of currency = X base currency"
+  const [localRates, setLocalRates] = useState<Record<string, string>>({});
 
   // State for the category management modal
   const [isCategoryModalOpen, setIsCategoryModalOpen] = useState(false);
   const [categoryToEdit, setCategoryToEdit] = useState<Category | null>(null);
+  const [newCategoryKind, setNewCategoryKind] = useState<'expense' | 'income'>('expense');
   
+  // State for the category rule modal
+  const [isRuleModalOpen, setIsRuleModalOpen] = useState(false);
+  const [ruleToEdit, setRuleToEdit] = useState<CategoryRule | null>(null);
+
   // Ref for the hidden file input used for data import
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // A backup awaiting confirmation in the import preview, with a snapshot of the data it will be compared to
+  const [pendingImport, setPendingImport] = useState<{ incoming: BackupData; current: BackupData } | null>(null);
+  // Ref for the hidden file input used for bank statement import, and the contents of the selected file
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [csvText, setCsvText] = useState<string | null>(null);
+  // State for the transaction export modal
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  // The budgets of the form, when saving them as a new template
+  const [templateDraft, setTemplateDraft] = useState<Budget[] | null>(null);
+  // Whether the 50/30/20-style preset modal is open
+  const [isIncomePresetOpen, setIsIncomePresetOpen] = useState(false);
+
+  /**
+   * Fills the budget form with a list of budgets, replacing what it held.
+   * @param {Budget[]} source - The budgets to load.
+   */
+  const loadFormBudgets = (source: Budget[]) => {
+    setLocalBudgets(source.reduce((acc, b) => ({ ...acc, [b.categoryId]: b.amount }), {} as Record<string, number>));
+    setLocalRollover(source.reduce((acc, b) => ({ ...acc, [b.categoryId]: !!b.rollover }), {} as Record<string, boolean>));
+    setLocalPercent(source.reduce((acc, b) => (b.percentOfIncome !== undefined ? { ...acc, [b.categoryId]: b.percentOfIncome } : acc), {} as Record<string, number>));
+  };
+
+  /**
+   * Builds the list of budgets held by the form. Categories without a positive
+   * amount or percentage are left out.
+   * @returns {Budget[]} The budgets.
+   */
+  const buildFormBudgets = (): Budget[] => {
+    // FIX: Explicitly convert amount to a number to resolve type mismatch (unknown vs number).
+    return Object.entries(localBudgets)
+      .map(([categoryId, amount]) => ({
+        categoryId,
+        amount: Number(amount),
+        ...(localPercent[categoryId] !== undefined ? { percentOfIncome: localPercent[categoryId] } : {}),
+        ...(localRollover[categoryId] ? { rollover: true } : {}),
+      }))
+      .filter(b => b.amount > 0 || (b.percentOfIncome || 0) > 0);
+  };
 
   /**
    * Effect to synchronize the local budget state with the global budget prop.
-   * This runs when the component mounts or when the global budget for the
-   * current month changes, ensuring the form is always up-to-date.
+   * This runs when the component mounts, when the global budget changes, or when
+   * another month is selected, ensuring the form is always up-to-date.
    */
   useEffect(() => {
-    const budgetMap = budget.reduce((acc, b) => {
-      acc[b.categoryId] = b.amount;
-      return acc;
-    }, {} as Record<string, number>);
-    setLocalBudgets(budgetMap);
+    loadFormBudgets(budget);
   }, [budget]);
 
+  /**
+   * Effect to synchronize the exchange-rate inputs with the stored rate table.
+   * Rates are stored per 1 USD but edited relative to the base currency, so the
+   * inputs are recomputed whenever either changes.
+   */
+  useEffect(() => {
+    const rateMap = SUPPORTED_CURRENCIES.reduce((acc, code) => {
+      acc[code] = String(Number(convert(1, code).toFixed(4)));
+      return acc;
+    }, {} as Record<string, string>);
+    setLocalRates(rateMap);
+  }, [exchangeRates, baseCurrency, convert]);
+
+  /**
+   * Saves the edited exchange rates. Each input holds the value of one unit of a
+   * currency in the base currency, which is converted back into the per-USD table.
+   */
+  const handleSaveRates = () => {
+    const baseRate = exchangeRates[baseCurrency];
+    const newRates = { ...exchangeRates };
+    SUPPORTED_CURRENCIES.forEach(code => {
+      const parsed = parseFloat(localRates[code]);
+      if (code !== baseCurrency && !isNaN(parsed) && parsed > 0) {
+        newRates[code] = baseRate / parsed;
+      }
+    });
+    setExchangeRates(newRates);
+    showToast(t('ratesSavedSuccess'), { type: 'success' });
+  };
+
   /**
    * Handles changes to a single budget input field, updating the local state.
    * @param {string} categoryId - The ID of the category being updated.
@@ -86,26 +225,109 @@ export default function Settings({
   };
 
   /**
-   * Saves the locally edited budgets to the global state for the current month.
+   * Saves the locally edited budgets to the global state for the selected month.
    */
   const handleSaveBudgets = () => {
-    // FIX: Explicitly convert amount to a number to resolve type mismatch (unknown vs number).
-    const newBudgets: Budget[] = Object.entries(localBudgets)
-        .map(([categoryId, amount]) => ({ categoryId, amount: Number(amount) }))
-        .filter(b => b.amount > 0); // Only save budgets with a positive amount
-    setMonthBudget(newBudgets);
-    alert(t('budgetSavedSuccess'));
+    setMonthBudget(buildFormBudgets());
   };
   
+  // The latest earlier month with budgets, offered as the source for copying
+  const previousBudgetMonth = useMemo(() => findPreviousBudgetMonth(budgets, selectedMonthKey), [budgets, selectedMonthKey]);
+
+  /**
+   * Fills the form with the budgets and rollover settings of the latest earlier month.
+   * The copy is only stored once the user saves.
+   */
+  const handleCopyPreviousBudgets = () => {
+    if (!previousBudgetMonth) return;
+    loadFormBudgets(budgets[previousBudgetMonth]);
+  };
+
+  /**
+   * Fills the form with the amounts and rollover settings of a template.
+   * The change is only stored once the user saves.
+   * @param {string} templateId - The ID of the template to apply.
+   */
+  const handleApplyTemplate = (templateId: string) => {
+    const template = budgetTemplates.find(tpl => tpl.id === templateId);
+    if (!template) return;
+    loadFormBudgets(template.budgets);
+  };
+
+  /**
+   * Opens the template modal with the amounts currently in the form.
+   */
+  const handleSaveAsTemplate = () => {
+    setTemplateDraft(buildFormBudgets());
+  };
+
+  /**
+   * Memoized calculation of what each category would carry over into the selected
+   * month, shown next to the categories with rollover turned on.
+   */
+  const carryOver = useMemo(() => getCarryOver(
+    { ...budgets, [selectedMonthKey]: categories.map(c => ({ categoryId: c.id, amount: 0, rollover: true })) },
+    transactions,
+    selectedMonthKey,
+    convert
+  ), [budgets, categories, transactions, selectedMonthKey, convert]);
+
   /**
-   * Memoized calculation for the total income for the current month's transactions.
+   * Memoized calculation for the total income for the selected month's transactions,
+   * converted into the base currency.
    */
   const totalIncome = useMemo(() => {
-      const currentMonthKey = new Date().toISOString().slice(0, 7);
       return transactions
-          .filter(t => t.type === 'income' && t.date.startsWith(currentMonthKey))
-          .reduce((sum, t) => sum + t.amount, 0);
-  }, [transactions]);
+          .filter(t => t.type === 'income' && t.date.startsWith(selectedMonthKey))
+          .reduce((sum, t) => sum + convert(t.amount, t.currency), 0);
+  }, [transactions, selectedMonthKey, convert]);
+
+  /**
+   * Effect to keep the amounts of percentage budgets in step with the month's income,
+   * so they follow income transactions as they are added.
+   */
+  useEffect(() => {
+    const percentCategoryIds = Object.keys(localPercent);
+    if (percentCategoryIds.length === 0) return;
+    setLocalBudgets(prev => percentCategoryIds.reduce((acc, categoryId) => ({ ...acc, [categoryId]: getPercentAmount(localPercent[categoryId], totalIncome) }), { ...prev }));
+  }, [localPercent, totalIncome]);
+
+  /**
+   * Switches a category between a fixed amount and a percentage of income. The
+   * current amount is kept when switching, expressed in the other form.
+   * @param {string} categoryId - The ID of the category.
+   */
+  const handleTogglePercent = (categoryId: string) => {
+    if (localPercent[categoryId] !== undefined) {
+      setLocalPercent(prev => {
+        const { [categoryId]: _, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+    const amount = Number(localBudgets[categoryId]) || 0;
+    const percent = totalIncome > 0 ? Math.round((amount / totalIncome) * 1000) / 10 : 0;
+    setLocalPercent(prev => ({ ...prev, [categoryId]: percent }));
+  };
+
+  /**
+   * Handles changes to a percentage input field.
+   * @param {string} categoryId - The ID of the category being updated.
+   * @param {string} value - The new percentage from the input field as a string.
+   */
+  const handlePercentChange = (categoryId: string, value: string) => {
+    const percent = Math.min(Math.max(parseFloat(value) || 0, 0), 100);
+    setLocalPercent(prev => ({ ...prev, [categoryId]: percent }));
+  };
+
+  /**
+   * Applies percentages from the income preset modal to the form.
+   * The change is only stored once the user saves.
+   * @param {Record<string, number>} percentages - The percentage of income for each category ID.
+   */
+  const handleApplyIncomePreset = (percentages: Record<string, number>) => {
+    setLocalPercent(prev => ({ ...prev, ...percentages }));
+  };
 
   /**
    * Memoized calculation for the total amount budgeted across all categories in local state.
@@ -126,9 +348,11 @@ export default function Settings({
 
   /**
    * Opens the category modal in 'add' mode with a clean slate.
+   * @param {'expense' | 'income'} kind - Whether the new category is for expenses or income.
    */
-  const handleOpenAddModal = () => {
+  const handleOpenAddModal = (kind: 'expense' | 'income') => {
     setCategoryToEdit(null);
+    setNewCategoryKind(kind);
     setIsCategoryModalOpen(true);
   }
 
@@ -138,9 +362,9 @@ export default function Settings({
    * @param {Omit<Category, 'id'> & { id?: string }} category - The category data from the modal.
    */
   const handleSaveCategory = (category: Omit<Category, 'id'> & { id?: string }) => {
+    onRecordChange('undo_saveCategory', t(category.id ? 'editCategorySuccess' : 'addCategorySuccess'));
     if (category.id) { // Editing an existing category
       setCategories(prev => prev.map(c => c.id === category.id ? { ...c, ...category} : c));
-      alert(t('editCategorySuccess'));
     } else { // Adding a new category
       const usedIcons = new Set(categories.map(c => c.icon));
       const availableIcons = ICON_LIST.filter(icon => !usedIcons.has(icon) && !['trending-up', 'plus', 'gift'].includes(icon));
@@ -151,55 +375,145 @@ export default function Settings({
           name: category.name,
           color: category.color,
           icon: newIcon,
+          ...(category.parentId ? { parentId: category.parentId } : {}),
+          ...(category.kind ? { kind: category.kind } : {}),
       };
       setCategories(prev => [...prev, newCategory]);
-      alert(t('addCategorySuccess'));
     }
   };
 
   /**
    * Deletes a category after user confirmation.
-   * All associated transactions are reassigned to the 'Other' category to prevent data loss.
+   * All associated expenses and recurring expense rules are reassigned to the 'Other'
+   * category to prevent data loss, income and recurring income rules filed under it are
+   * left without a category, and categories nested under it
+   * become top-level categories.
    * @param {string} categoryId - The ID of the category to delete.
    */
-  const handleDeleteCategory = (categoryId: string) => {
+  const handleDeleteCategory = async (categoryId: string) => {
     if (categoryId === 'other') {
-      alert(t('errorDeleteOtherCategory'));
+      showToast(t('errorDeleteOtherCategory'), { type: 'error' });
       return;
     }
-    if (window.confirm(t('confirmDeleteDesc'))) {
-      setTransactions(prev => prev.map(t => t.categoryId === categoryId ? { ...t, categoryId: 'other' } : t));
-      setCategories(prev => prev.filter(c => c.id !== categoryId));
-      alert(t('deleteCategorySuccess'));
+    if (await confirm({ title: t('deleteCategory'), message: t('confirmDeleteDesc'), confirmLabel: t('delete'), danger: true })) {
+      onRecordChange('undo_deleteCategory', t('deleteCategorySuccess'));
+      setTransactions(prev => prev.map(t => {
+        const splits = t.splits?.map(split => (split.categoryId === categoryId ? { ...split, categoryId: 'other' } : split));
+        const updated = splits ? { ...t, splits } : t;
+        return t.categoryId === categoryId ? { ...updated, categoryId: t.type === 'expense' ? 'other' : undefined } : updated;
+      }));
+      // Rules keep posting transactions, so they move to the same fallback as past ones
+      setRecurringRules(prev => prev.map(r => (r.categoryId === categoryId ? { ...r, categoryId: r.type === 'expense' ? 'other' : undefined } : r)));
+      setCategoryRules(prev => prev.filter(r => r.categoryId !== categoryId));
+      setBudgetTemplates(prev => prev.map(tpl => ({ ...tpl, budgets: tpl.budgets.filter(b => b.categoryId !== categoryId) })));
+      setCategories(prev => prev
+        .filter(c => c.id !== categoryId)
+        .map(c => (c.parentId === categoryId ? { ...c, parentId: undefined } : c)));
     }
   }
 
   /**
-   * Gathers all user data (transactions, categories, budgets, events) into a single
-   * object, stringifies it, and triggers a download of the resulting JSON file as a backup.
+   * Opens the rule modal for adding or editing an auto-categorisation rule.
+   * @param {CategoryRule | null} rule - The rule to edit, or null to add a new one.
+   */
+  const handleOpenRuleModal = (rule: CategoryRule | null) => {
+    setRuleToEdit(rule);
+    setIsRuleModalOpen(true);
+  };
+
+  /**
+   * Saves a new or edited auto-categorisation rule. New rules are checked last.
+   * @param {Omit<CategoryRule, 'id'> & { id?: string }} rule - The rule data from the modal.
+   */
+  const handleSaveRule = (rule: Omit<CategoryRule, 'id'> & { id?: string }) => {
+    onRecordChange('undo_saveRule');
+    if (rule.id) {
+      setCategoryRules(prev => prev.map(r => r.id === rule.id ? { ...rule, id: r.id } : r));
+    } else {
+      setCategoryRules(prev => [...prev, { ...rule, id: crypto.randomUUID() }]);
+    }
+  };
+
+  /**
+   * Deletes an auto-categorisation rule after user confirmation.
+   * Transactions it has already categorised are left as they are.
+   * @param {string} ruleId - The ID of the rule to delete.
+   */
+  const handleDeleteRule = async (ruleId: string) => {
+    if (await confirm({ title: t('deleteRule'), message: t('confirmDeleteRuleDesc'), confirmLabel: t('delete'), danger: true })) {
+      onRecordChange('undo_deleteRule');
+      setCategoryRules(prev => prev.filter(r => r.id !== ruleId));
+    }
+  };
+
+  /**
+   * Moves a rule up or down in the list, changing which rule wins when several match.
+   * @param {number} index - The current position of the rule.
+   * @param {number} direction - -1 to move it up, 1 to move it down.
+   */
+  const handleMoveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    // A rule already at the top or bottom stays put, and nothing is recorded for undo
+    if (target < 0 || target >= categoryRules.length) return;
+    onRecordChange('undo_moveRule');
+    setCategoryRules(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  /**
+   * Applies the rules to every uncategorised transaction, or one filed under 'Other',
+   * after showing how many will change and asking for confirmation.
+   */
+  const handleApplyRules = async () => {
+    const { count } = applyCategoryRules(allTransactions, categoryRules, categories, convert);
+    if (count === 0) {
+      showToast(t('applyRulesNone'));
+      return;
+    }
+    if (await confirm({ title: t('applyRules'), message: t('applyRulesConfirm', { count }) })) {
+      onRecordChange('undo_applyRules', t('applyRulesSuccess', { count }));
+      setTransactions(prev => applyCategoryRules(prev, categoryRules, categories, convert).transactions);
+    }
+  };
+
+  /**
+   * Describes the conditions of a rule in words (e.g., 'Contains "uber" · Expenses').
+   * @param {CategoryRule} rule - The rule to describe.
+   * @returns {string} The summary of the rule's conditions.
+   */
+  const describeRule = (rule: CategoryRule) => {
+    const parts: string[] = [];
+    if (rule.descriptionContains) parts.push(t('ruleSummaryContains', { text: rule.descriptionContains }));
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined) {
+      parts.push(`${format(rule.minAmount)} – ${format(rule.maxAmount)}`);
+    } else if (rule.minAmount !== undefined) {
+      parts.push(t('ruleSummaryMin', { amount: format(rule.minAmount) }));
+    } else if (rule.maxAmount !== undefined) {
+      parts.push(t('ruleSummaryMax', { amount: format(rule.maxAmount) }));
+    }
+    parts.push(t(`ruleType_${rule.type}` as TranslationKey));
+    return parts.join(' · ');
+  };
+
+  /**
+   * Gathers all user data and preferences into a versioned backup, stringifies it,
+   * and triggers a download of the resulting JSON file.
    */
   const handleExportData = () => {
-    const backupData = {
-      transactions: transactions,
-      categories: categories,
-      budgets: budgets,
-      events: events,
-    };
+    const backupData = onCreateBackup();
     const dataStr = JSON.stringify(backupData, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
     const date = new Date().toISOString().slice(0, 10);
-    link.download = `meme-budget-backup-${date}.json`;
-    link.href = url;
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(dataBlob, `meme-budget-backup-${date}.json`);
   };
 
   /**
    * Handles the file selection for data import. It reads the selected JSON file,
-   * validates its structure, confirms with the user, and then updates the entire
-   * application state with the imported data.
+   * upgrades it from older backup versions, and opens the import preview, where
+   * the records are validated and the user chooses to replace or merge.
    * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
    */
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -212,23 +526,12 @@ export default function Settings({
         const text = e.target?.result;
         if (typeof text !== 'string') throw new Error("File could not be read");
         
-        const data = JSON.parse(text);
-
-        // Basic validation to ensure the file is a valid backup
-        if (!data.transactions || !data.categories || !data.budgets || !data.events) {
-          throw new Error("Invalid file structure");
-        }
-        
-        if (window.confirm(t('importConfirm'))) {
-          setTransactions(data.transactions);
-          setCategories(data.categories);
-          setBudgets(data.budgets);
-          setEvents(data.events);
-          alert(t('importSuccess'));
-        }
+        // Upgrade older backup formats and check the overall structure
+        const data = migrateBackup(JSON.parse(text));
+        setPendingImport({ incoming: data, current: onCreateBackup() });
       } catch (error) {
         console.error("Import failed:", error);
-        alert(t('importErrorInvalidFile'));
+        showToast(error instanceof BackupError && error.reason === 'newerVersion' ? t('importErrorNewerVersion') : t('importErrorInvalidFile'), { type: 'error' });
       } finally {
         // Reset file input to allow importing the same file again if needed
         if (fileInputRef.current) {
@@ -239,6 +542,61 @@ export default function Settings({
     reader.readAsText(file);
   };
 
+  /**
+   * Applies a confirmed import from the preview.
+   * @param {BackupData} result - The resulting data after replacing or merging.
+   */
+  const handleConfirmImport = (result: BackupData) => {
+    onRestoreBackup(result);
+    setPendingImport(null);
+  };
+
+  /**
+   * Handles the file selection for bank statement import. It reads the selected CSV
+   * file and opens the import wizard, where the columns are mapped and rows reviewed.
+   * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+   */
+  const handleCsvFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      if (typeof text !== 'string' || !text.trim()) {
+        showToast(t('csvErrorEmpty'), { type: 'error' });
+      } else {
+        setCsvText(text);
+      }
+      // Reset file input to allow importing the same file again if needed
+      if (csvInputRef.current) {
+        csvInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  /**
+   * Adds the transactions confirmed in the bank statement import wizard.
+   * @param {Omit<Transaction, 'id'>[]} imported - The transactions to add.
+   */
+  const handleConfirmCsvImport = (imported: Omit<Transaction, 'id'>[]) => {
+    onImportTransactions(imported);
+    setCsvText(null);
+  };
+
+  /**
+   * Updates the reminder frequency. Turning reminders on asks for notification
+   * permission the first time; if it is refused, reminders appear in the app instead.
+   * @param {string} value - The selected frequency.
+   */
+  const handleFrequencyChange = (value: string) => {
+    setNotificationFrequency(value as NotificationFrequency);
+    if (value !== 'never' && notificationPermission === 'default') {
+      onRequestNotificationPermission();
+    }
+  };
+
   // Options for the notification frequency dropdown
   const notificationOptions = [
     { value: 'monthly', label: t('freq_monthly') },
@@ -247,6 +605,12 @@ export default function Settings({
     { value: 'never', label: t('freq_never') },
   ];
 
+  // Options for the base currency dropdown
+  const currencyOptions = SUPPORTED_CURRENCIES.map(code => ({
+    value: code,
+    label: `${code} · ${getCurrencyName(code, locale)}`,
+  }));
+
   // Options for the language selection dropdown
   const languageOptions = [
     { value: 'en', label: 'English' },
@@ -259,31 +623,107 @@ export default function Settings({
       <section>
         <h2 className="text-xl font-semibold mb-2">{t('budgetSettings')}</h2>
         <p className="text-sm text-text-secondary mb-4">{t('budgetSettingsDesc')}</p>
+        <div className="mb-4">
+          <PeriodSelector monthKey={selectedMonthKey} onChange={onSelectMonth} />
+        </div>
         <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-4">
             <div className="flex justify-between items-center">
                 <div>
                     <p className="text-sm text-text-secondary">{t('totalIncome')}</p>
-                    <p className="font-bold text-success text-lg">{t('currencySymbol')}{totalIncome.toFixed(2)}</p>
+                    <p className="font-bold text-success text-lg">{format(totalIncome)}</p>
                 </div>
                 <div>
                     <p className="text-sm text-text-secondary">{t('totalBudgeted')}</p>
                     <p className={`font-bold text-lg ${totalBudgeted > totalIncome ? 'text-danger' : 'text-primary'}`}>
-                        {t('currencySymbol')}{totalBudgeted.toFixed(2)}
+                        {format(totalBudgeted)}
                     </p>
                 </div>
             </div>
-          {categories.filter(c => c.id !== 'other').map(category => (
-            <div key={category.id} className="flex items-center space-x-3">
+          {sortCategoriesByGroup(filterCategoriesByKind(categories, 'expense')).filter(c => c.id !== 'other').map(category => (
+            <div key={category.id} className={`flex items-center space-x-3 ${getParentCategory(categories, category) ? 'pl-6' : ''}`}>
               <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}20`, color: category.color }}>
                   <DynamicCategoryIcon name={category.icon} className="w-5 h-5" />
               </div>
-              <label htmlFor={`budget-${category.id}`} className="flex-1 font-medium truncate">{category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name}</label>
-              <div className="flex items-center">
-                <span className="text-text-secondary mr-2">{t('currencySymbol')}</span>
-                <input id={`budget-${category.id}`} type="number" placeholder="0.00" value={localBudgets[category.id] || ''} onChange={(e) => handleBudgetChange(category.id, e.target.value)} className="w-28 bg-input rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none"/>
+              <label htmlFor={`budget-${category.id}`} className="flex-1 font-medium truncate">
+                {category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name}
+                {categories.some(c => c.parentId === category.id) && <span className="block text-xs font-normal text-text-secondary truncate">{t('groupBudgetHint')}</span>}
+              </label>
+              <div className="flex flex-col items-end">
+                <div className="flex items-center">
+                  {localPercent[category.id] !== undefined ? (
+                    <>
+                      <input id={`budget-${category.id}`} type="number" placeholder="0" value={localPercent[category.id] || ''} onChange={(e) => handlePercentChange(category.id, e.target.value)} className="w-20 bg-input rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none" step="0.1" min="0" max="100"/>
+                      <span className="text-text-secondary ml-1">%</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-text-secondary mr-2">{getCurrencySymbol(baseCurrency, locale)}</span>
+                      <input id={`budget-${category.id}`} type="number" placeholder="0.00" value={localBudgets[category.id] || ''} onChange={(e) => handleBudgetChange(category.id, e.target.value)} className="w-28 bg-input rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none"/>
+                    </>
+                  )}
+                  <button
+                    onClick={() => handleTogglePercent(category.id)}
+                    className={`ml-2 w-8 h-8 rounded-md font-bold transition-colors ${localPercent[category.id] !== undefined ? 'bg-primary text-white' : 'text-text-secondary hover:bg-input'}`}
+                    aria-pressed={localPercent[category.id] !== undefined}
+                    aria-label={t('percentOfIncomeToggle')}
+                    title={t('percentOfIncomeToggle')}
+                  >
+                    %
+                  </button>
+                  <button
+                    onClick={() => setLocalRollover(prev => ({ ...prev, [category.id]: !prev[category.id] }))}
+                    className={`ml-2 p-2 rounded-md transition-colors ${localRollover[category.id] ? 'bg-primary text-white' : 'text-text-secondary hover:bg-input'}`}
+                    aria-pressed={!!localRollover[category.id]}
+                    aria-label={t('rolloverToggle')}
+                    title={t('rolloverToggle')}
+                  >
+                    <RepeatIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                {localPercent[category.id] !== undefined && (
+                  <span className="text-xs mt-1 text-text-secondary">
+                    {totalIncome > 0 ? t('percentOfIncomeAmount', { amount: format(Number(localBudgets[category.id]) || 0) }) : t('percentOfIncomeNoIncome')}
+                  </span>
+                )}
+                {localRollover[category.id] && (
+                  <span className={`text-xs mt-1 ${(carryOver.get(category.id) || 0) < 0 ? 'text-danger' : 'text-text-secondary'}`}>
+                    {t('carriedOver', { amount: format(carryOver.get(category.id) || 0, undefined, { signDisplay: 'always' }) })}
+                  </span>
+                )}
               </div>
             </div>
           ))}
+          {previousBudgetMonth && (
+            <button onClick={handleCopyPreviousBudgets} className="w-full bg-input font-semibold py-2 px-4 rounded-lg hover:bg-border transition-colors">
+              {t('copyBudgetsFrom', { month: formatMonthKey(previousBudgetMonth, locale) })}
+            </button>
+          )}
+          <div className="flex space-x-3">
+            {budgetTemplates.length > 0 && (
+              <select
+                value=""
+                onChange={e => handleApplyTemplate(e.target.value)}
+                className="flex-1 min-w-0 bg-input rounded-lg py-2 px-3 font-semibold focus:ring-2 focus:ring-primary focus:outline-none"
+                aria-label={t('applyTemplate')}
+              >
+                <option value="" disabled>{t('applyTemplate')}</option>
+                {budgetTemplates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+              </select>
+            )}
+            <button onClick={handleSaveAsTemplate} className="flex-1 bg-input font-semibold py-2 px-4 rounded-lg hover:bg-border transition-colors">
+              {t('saveAsTemplate')}
+            </button>
+          </div>
+          <button onClick={() => setIsIncomePresetOpen(true)} className="w-full bg-input font-semibold py-2 px-4 rounded-lg hover:bg-border transition-colors">
+            {t('incomeSplit')}
+          </button>
+          <button onClick={onOpenPlanner} className="w-full bg-input font-semibold py-2 px-4 rounded-lg hover:bg-border transition-colors">
+            {t('openBudgetPlanner')}
+          </button>
+          <label className="flex items-center space-x-2 text-sm font-medium">
+            <input type="checkbox" checked={autoCopyBudgets} onChange={e => setAutoCopyBudgets(e.target.checked)} className="accent-primary" />
+            <span>{t('autoCopyBudgets')}</span>
+          </label>
           <button onClick={handleSaveBudgets} className="w-full bg-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-50">{t('saveBudget')}</button>
         </div>
       </section>
@@ -293,22 +733,77 @@ export default function Settings({
         <h2 className="text-xl font-semibold mb-2">{t('manageCategories')}</h2>
         <p className="text-sm text-text-secondary mb-4">{t('manageCategoriesDesc')}</p>
         <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
-          {categories.map(category => (
-            <div key={category.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-input">
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}20`, color: category.color }}>
-                    <DynamicCategoryIcon name={category.icon} className="w-5 h-5" />
+          {(['expense', 'income'] as const).map(kind => (
+            <div key={kind} className="space-y-3">
+              {kind === 'income' && <h3 className="font-semibold pt-3">{t('incomeCategories')}</h3>}
+              {sortCategoriesByGroup(filterCategoriesByKind(categories, kind)).map(category => (
+                <div key={category.id} className={`flex items-center justify-between p-2 rounded-lg hover:bg-input ${getParentCategory(categories, category) ? 'ml-6' : ''}`}>
+                  <div className="flex items-center space-x-3">
+                    <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}20`, color: category.color }}>
+                        <DynamicCategoryIcon name={category.icon} className="w-5 h-5" />
+                    </div>
+                    <span className="font-medium">{category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name}</span>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button onClick={() => handleOpenEditModal(category)} aria-label={t('editCategory')} className="text-text-secondary hover:text-primary"><EditIcon className="w-5 h-5"/></button>
+                    <button onClick={() => handleDeleteCategory(category.id)} disabled={category.id === 'other'} aria-label={t('deleteCategory')} className="text-text-secondary hover:text-danger disabled:opacity-30 disabled:hover:text-text-secondary"><TrashIcon className="w-5 h-5"/></button>
+                  </div>
                 </div>
-                <span className="font-medium">{category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name}</span>
-              </div>
-              <div className="flex items-center space-x-3">
-                <button onClick={() => handleOpenEditModal(category)} aria-label={t('editCategory')} className="text-text-secondary hover:text-primary"><EditIcon className="w-5 h-5"/></button>
-                <button onClick={() => handleDeleteCategory(category.id)} disabled={category.id === 'other'} aria-label={t('deleteCategory')} className="text-text-secondary hover:text-danger disabled:opacity-30 disabled:hover:text-text-secondary"><TrashIcon className="w-5 h-5"/></button>
-              </div>
+              ))}
+              <button onClick={() => handleOpenAddModal(kind)} className="w-full border-2 border-dashed border-border text-text-secondary font-semibold py-2 px-4 rounded-lg hover:bg-input hover:border-primary/50 hover:text-primary transition-colors">
+                {kind === 'income' ? t('addIncomeCategory') : t('addCategory')}
+              </button>
             </div>
           ))}
-           <button onClick={handleOpenAddModal} className="w-full border-2 border-dashed border-border text-text-secondary font-semibold py-2 px-4 rounded-lg hover:bg-input hover:border-primary/50 hover:text-primary transition-colors">
-            {t('addCategory')}
+        </div>
+      </section>
+
+      {/* Auto-categorisation Rules */}
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('categoryRules')}</h2>
+        <p className="text-sm text-text-secondary mb-4">{t('categoryRulesDesc')}</p>
+        <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+          {categoryRules.map((rule, index) => {
+            const category = categories.find(c => c.id === rule.categoryId);
+            return (
+              <div key={rule.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-input">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category?.color}20`, color: category?.color }}>
+                      <DynamicCategoryIcon name={category?.icon || 'tag'} className="w-5 h-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{category ? (category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name) : '?'}</p>
+                    <p className="text-sm text-text-secondary truncate">{describeRule(rule)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-3">
+                  <button onClick={() => handleMoveRule(index, -1)} disabled={index === 0} aria-label={t('moveRuleUp')} className="text-text-secondary hover:text-primary disabled:opacity-30 disabled:hover:text-text-secondary"><ChevronUpIcon className="w-5 h-5"/></button>
+                  <button onClick={() => handleMoveRule(index, 1)} disabled={index === categoryRules.length - 1} aria-label={t('moveRuleDown')} className="text-text-secondary hover:text-primary disabled:opacity-30 disabled:hover:text-text-secondary"><ChevronDownIcon className="w-5 h-5"/></button>
+                  <button onClick={() => handleOpenRuleModal(rule)} aria-label={t('editRule')} className="text-text-secondary hover:text-primary"><EditIcon className="w-5 h-5"/></button>
+                  <button onClick={() => handleDeleteRule(rule.id)} aria-label={t('deleteRule')} className="text-text-secondary hover:text-danger"><TrashIcon className="w-5 h-5"/></button>
+                </div>
+              </div>
+            );
+          })}
+          <button onClick={() => handleOpenRuleModal(null)} className="w-full border-2 border-dashed border-border text-text-secondary font-semibold py-2 px-4 rounded-lg hover:bg-input hover:border-primary/50 hover:text-primary transition-colors">
+            {t('addRule')}
+          </button>
+          {categoryRules.length > 0 && (
+            <button onClick={handleApplyRules} className="w-full bg-input text-text-primary font-semibold py-3 px-4 rounded-lg hover:bg-border transition-colors">
+              {t('applyRules')}
+            </button>
+          )}
+        </div>
+      </section>
+
+      {/* Recurring Transactions */}
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('recurringTransactions')}</h2>
+        <p className="text-sm text-text-secondary mb-4">{t('recurringTransactionsDesc')}</p>
+        <div className="bg-surface border border-border rounded-2xl shadow-lg p-4">
+          <button onClick={onManageRecurring} className="w-full flex items-center justify-center space-x-2 bg-input text-text-primary font-semibold py-3 px-4 rounded-lg hover:bg-border transition-colors">
+            <RepeatIcon className="w-5 h-5"/>
+            <span>{t('manageRecurring')}</span>
           </button>
         </div>
       </section>
@@ -327,6 +822,15 @@ export default function Settings({
             <span>{t('importData')}</span>
           </button>
           <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="application/json" className="hidden"/>
+          <button onClick={() => setIsExportModalOpen(true)} className="w-full flex items-center justify-center space-x-2 bg-input text-text-primary font-semibold py-3 px-4 rounded-lg hover:bg-border transition-colors">
+            <DownloadIcon className="w-5 h-5"/>
+            <span>{t('exportTransactions')}</span>
+          </button>
+          <button onClick={() => csvInputRef.current?.click()} className="w-full flex items-center justify-center space-x-2 bg-input text-text-primary font-semibold py-3 px-4 rounded-lg hover:bg-border transition-colors">
+            <UploadIcon className="w-5 h-5"/>
+            <span>{t('importCsv')}</span>
+          </button>
+          <input type="file" ref={csvInputRef} onChange={handleCsvFileChange} accept=".csv,text/csv" className="hidden"/>
         </div>
       </section>
 
@@ -340,8 +844,43 @@ export default function Settings({
               labelId="notif-frequency-label"
               options={notificationOptions}
               selectedValue={notificationFrequency}
-              onSelect={setNotificationFrequency}
+              onSelect={handleFrequencyChange}
             />
+            {notificationFrequency !== 'never' && (notificationPermission === 'denied' || notificationPermission === 'unsupported') && (
+              <p className="text-sm text-text-secondary mt-3">{t('notificationsBlockedHint')}</p>
+            )}
+            {notificationFrequency !== 'never' && (
+              <p className="text-sm text-text-secondary mt-3">{t('remindersWhileOpenHint')}</p>
+            )}
+        </div>
+      </section>
+
+      {/* Currency */}
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('currencySettings')}</h2>
+        <p className="text-sm text-text-secondary mb-4">{t('currencySettingsDesc')}</p>
+        <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-4">
+            <div>
+              <label id="base-currency-label" className="block font-medium mb-2">{t('baseCurrency')}</label>
+              <Dropdown
+                labelId="base-currency-label"
+                options={currencyOptions}
+                selectedValue={baseCurrency}
+                onSelect={onChangeBaseCurrency}
+              />
+              <p className="mt-2 text-xs text-text-secondary">{t('baseCurrencyHint')}</p>
+            </div>
+            <div className="space-y-3">
+              <p className="font-medium">{t('exchangeRates')}</p>
+              {SUPPORTED_CURRENCIES.filter(code => code !== baseCurrency).map(code => (
+                <div key={code} className="flex items-center space-x-3">
+                  <label htmlFor={`rate-${code}`} className="flex-1 truncate">{t('exchangeRateLabel', { currency: code })}</label>
+                  <input id={`rate-${code}`} type="number" step="any" value={localRates[code] || ''} onChange={(e) => setLocalRates(prev => ({ ...prev, [code]: e.target.value }))} className="w-28 bg-input rounded-md p-2 text-right focus:ring-2 focus:ring-primary focus:outline-none"/>
+                  <span className="w-12 text-text-secondary">{baseCurrency}</span>
+                </div>
+              ))}
+            </div>
+            <button onClick={handleSaveRates} className="w-full bg-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-50">{t('saveRates')}</button>
         </div>
       </section>
 
@@ -366,8 +905,68 @@ export default function Settings({
         onClose={() => setIsCategoryModalOpen(false)}
         onSave={handleSaveCategory}
         categoryToEdit={categoryToEdit}
+        categories={categories}
+        newCategoryKind={newCategoryKind}
+      />
+
+      {/* Category Rule Modal */}
+      <CategoryRuleModal
+        isOpen={isRuleModalOpen}
+        onClose={() => setIsRuleModalOpen(false)}
+        onSave={handleSaveRule}
+        categories={categories}
+        ruleToEdit={ruleToEdit}
+      />
+
+      {/* Import Preview Modal */}
+      {pendingImport && (
+        <ImportPreviewModal
+          incoming={pendingImport.incoming}
+          current={pendingImport.current}
+          onClose={() => setPendingImport(null)}
+          onConfirm={handleConfirmImport}
+        />
+      )}
+
+      {/* Bank Statement Import Wizard */}
+      {csvText !== null && (
+        <CsvImportModal
+          fileText={csvText}
+          categories={categories}
+          existingTransactions={transactions}
+          categoryRules={categoryRules}
+          onClose={() => setCsvText(null)}
+          onImport={handleConfirmCsvImport}
+        />
+      )}
+
+      {/* Transaction Export Modal */}
+      <ExportTransactionsModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        transactions={allTransactions}
+        categories={categories}
+        events={events}
       />
 
+      <BudgetTemplateModal
+        isOpen={templateDraft !== null}
+        onClose={() => setTemplateDraft(null)}
+        onSave={onSaveTemplate}
+        categories={categories}
+        templateToEdit={null}
+        initialBudgets={templateDraft || undefined}
+      />
+
+      {isIncomePresetOpen && (
+        <IncomePresetModal
+          onClose={() => setIsIncomePresetOpen(false)}
+          onApply={handleApplyIncomePreset}
+          categories={filterCategoriesByKind(categories, 'expense')}
+          income={totalIncome}
+        />
+      )}
+
       {/* Love message */}
       <div className="text-center text-text-secondary text-sm pt-4 animate-pulse">
         {t('loveMessage')}
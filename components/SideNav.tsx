@@ -7,7 +7,7 @@
 
 import React from 'react';
 import { View } from '../types';
-import { HomeIcon, ChartIcon, CogIcon, HistoryIcon, PlusIcon, GiftIcon } from './icons';
+import { HomeIcon, ChartIcon, CogIcon, HistoryIcon, PlusIcon, GiftIcon, RepeatIcon } from './icons';
 import { useLocalization } from '../context/LocalizationContext';
 import ThemeToggle from './ThemeToggle';
 
@@ -89,13 +89,19 @@ export default function SideNav({ activeView, setActiveView, openModal, theme, s
                 <NavItem
                     icon={<HistoryIcon className="w-6 h-6" />}
                     label={t('history')}
-                    isActive={activeView === View.History}
+                    isActive={activeView === View.History || activeView === View.Search}
                     onClick={() => setActiveView(View.History)}
                 />
+                <NavItem
+                    icon={<RepeatIcon className="w-6 h-6" />}
+                    label={t('recurring')}
+                    isActive={activeView === View.Recurring}
+                    onClick={() => setActiveView(View.Recurring)}
+                />
                 <NavItem
                     icon={<CogIcon className="w-6 h-6" />}
                     label={t('settings')}
-                    isActive={activeView === View.Settings}
+                    isActive={activeView === View.Settings || activeView === View.BudgetPlanner}
                     onClick={() => setActiveView(View.Settings)}
                 />
             </nav>
@@ -0,0 +1,155 @@
+/**
+ * @file Renders the trend charts of the analytics view: income, expenses and budget
+ * month by month, and the spending of each category over the same months.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Budget, Category } from '../types';
+import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { TranslationKey } from '../locales/en';
+import { formatMonthKey, parseDateKey } from '../utils/date';
+import { buildMonthlyTrends, getTrailingMonthKeys } from '../utils/trends';
+import { ChartSeries } from '../utils/chart';
+import LineChart from './charts/LineChart';
+import BarChart from './charts/BarChart';
+import StackedAreaChart from './charts/StackedAreaChart';
+
+/**
+ * Props for the SpendingTrends component.
+ */
+interface SpendingTrendsProps {
+  /** The list of all main transactions (excluding event transactions). */
+  transactions: Transaction[];
+  /** All budget settings, keyed by month (YYYY-MM). */
+  budgets: Record<string, Budget[]>;
+  /** The list of all available categories. */
+  categories: Category[];
+  /** The last month plotted, in YYYY-MM format. */
+  lastMonthKey: string;
+}
+
+/** The number of months the charts can cover. */
+const MONTH_COUNTS = [6, 12];
+
+/**
+ * A toggle between a few options, styled like the app's other segmented controls.
+ * @param props - The options, the selected value and the change handler.
+ * @returns The rendered toggle.
+ */
+function SegmentedToggle<T extends string | number>({ options, value, onChange, label }: { options: { value: T; label: string }[]; value: T; onChange: (value: T) => void; label: string }) {
+  return (
+    <div className="inline-flex rounded-lg bg-input p-1 text-xs" role="group" aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`py-1 px-2 rounded-md font-semibold transition-colors ${value === option.value ? 'bg-primary text-white' : 'hover:bg-border/50'}`}
+          aria-pressed={value === option.value}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The trend charts of the analytics view.
+ * @param {SpendingTrendsProps} props - The props for the component.
+ * @returns The rendered charts.
+ */
+export default function SpendingTrends({ transactions, budgets, categories, lastMonthKey }: SpendingTrendsProps): React.ReactNode {
+  const { t, locale } = useLocalization();
+  const { convert, format } = useCurrency();
+  const [monthCount, setMonthCount] = useState(6);
+  const [totalsChart, setTotalsChart] = useState<'line' | 'bar'>('line');
+  const [categoryChart, setCategoryChart] = useState<'area' | 'bar'>('area');
+
+  const monthKeys = useMemo(() => getTrailingMonthKeys(lastMonthKey, monthCount), [lastMonthKey, monthCount]);
+  const trends = useMemo(() => buildMonthlyTrends(transactions, budgets, monthKeys, convert), [transactions, budgets, monthKeys, convert]);
+
+  // Short labels such as "Jul", with the year added to January and the first month
+  const labels = useMemo(() => monthKeys.map((monthKey, index) => (
+    index === 0 || monthKey.endsWith('-01')
+      ? formatMonthKey(monthKey, locale, 'short')
+      : parseDateKey(`${monthKey}-01`).toLocaleString(locale, { month: 'short', timeZone: 'UTC' })
+  )), [monthKeys, locale]);
+
+  /**
+   * Memoized series for the income, expenses and budget chart.
+   */
+  const totalsSeries: ChartSeries[] = useMemo(() => [
+    { id: 'income', label: t('income'), color: 'hsl(var(--success))', values: trends.map(trend => trend.income) },
+    { id: 'expenses', label: t('expenses'), color: 'hsl(var(--danger))', values: trends.map(trend => trend.expenses) },
+    { id: 'budget', label: t('trendBudget'), color: 'hsl(var(--primary))', values: trends.map(trend => trend.budget), dashed: true },
+  ], [trends, t]);
+
+  /**
+   * Memoized series for the category chart: one per category with spending in the
+   * period, largest first so the biggest categories sit at the bottom of the stack.
+   */
+  const categorySeries: ChartSeries[] = useMemo(() => {
+    return categories
+      .map(category => ({
+        id: category.id,
+        label: category.name.startsWith('category_') ? t(category.name as TranslationKey) : category.name,
+        color: category.color,
+        values: trends.map(trend => trend.expensesByCategory[category.id] || 0),
+      }))
+      .filter(s => s.values.some(value => value > 0))
+      .sort((a, b) => b.values.reduce((sum, v) => sum + v, 0) - a.values.reduce((sum, v) => sum + v, 0));
+  }, [categories, trends, t]);
+
+  const formatValue = (value: number) => format(value);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">{t('trends')}</h2>
+        <SegmentedToggle
+          label={t('trendMonths')}
+          value={monthCount}
+          onChange={setMonthCount}
+          options={MONTH_COUNTS.map(count => ({ value: count, label: t('trendMonthCount', { count }) }))}
+        />
+      </div>
+
+      {/* Income, expenses and budget */}
+      <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">{t('trendIncomeVsExpenses')}</h3>
+          <SegmentedToggle
+            label={t('trendChartType')}
+            value={totalsChart}
+            onChange={setTotalsChart}
+            options={[{ value: 'line', label: t('chartLine') }, { value: 'bar', label: t('chartBar') }]}
+          />
+        </div>
+        {totalsChart === 'line'
+          ? <LineChart title={t('trendIncomeVsExpenses')} labels={labels} series={totalsSeries} formatValue={formatValue} />
+          : <BarChart title={t('trendIncomeVsExpenses')} labels={labels} series={totalsSeries} formatValue={formatValue} />}
+      </div>
+
+      {/* Spending per category */}
+      <div className="bg-surface border border-border rounded-2xl shadow-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">{t('trendByCategory')}</h3>
+          <SegmentedToggle
+            label={t('trendChartType')}
+            value={categoryChart}
+            onChange={setCategoryChart}
+            options={[{ value: 'area', label: t('chartArea') }, { value: 'bar', label: t('chartBar') }]}
+          />
+        </div>
+        {categorySeries.length === 0 ? (
+          <p className="text-center text-sm text-text-secondary py-6">{t('trendNoExpenses')}</p>
+        ) : categoryChart === 'area' ? (
+          <StackedAreaChart title={t('trendByCategory')} labels={labels} series={categorySeries} formatValue={formatValue} />
+        ) : (
+          <BarChart title={t('trendByCategory')} labels={labels} series={categorySeries} formatValue={formatValue} stacked />
+        )}
+      </div>
+    </div>
+  );
+}
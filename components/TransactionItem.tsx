@@ -1,30 +1,48 @@
 /**
  * @file Renders a single transaction item with swipe-to-delete functionality.
+ * Tapping the item opens it for editing when an `onEdit` handler is provided.
+ * A split transaction is shown as one row that can be expanded into its lines.
+ * In a list's multi-select mode, tapping the item selects it instead.
  */
 
 import React, { useRef, useState } from 'react';
 import { Transaction, Category } from '../types';
-import { DynamicCategoryIcon, TrashIcon } from './icons';
+import { DynamicCategoryIcon, TrashIcon, RepeatIcon, ChevronDownIcon, ChevronUpIcon, CheckIcon } from './icons';
 import { useLocalization } from '../context/LocalizationContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { TranslationKey } from '../locales/en';
+import { isSplit } from '../utils/splits';
 
 interface TransactionItemProps {
   transaction: Transaction;
   getCategory: (id: string | undefined) => Category | undefined;
   onDelete: (id: string) => void;
+  onEdit?: (transaction: Transaction) => void;
   activeSwipedItemId: string | null;
   setActiveSwipedItemId: (id: string | null) => void;
+  /** Whether the list is in multi-select mode, where tapping selects instead of editing and swiping is off. */
+  isSelecting?: boolean;
+  /** Whether the transaction is selected. */
+  isSelected?: boolean;
+  /** Function to select or deselect the transaction. */
+  onToggleSelect?: (id: string) => void;
 }
 
 // FIX: Change to React.FC to correctly handle props like 'key' which is managed by React.
-const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, getCategory, onDelete, activeSwipedItemId, setActiveSwipedItemId }) => {
+const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, getCategory, onDelete, onEdit, activeSwipedItemId, setActiveSwipedItemId, isSelecting = false, isSelected = false, onToggleSelect }) => {
   const { t } = useLocalization();
+  const { format } = useCurrency();
   const itemRef = useRef<HTMLDivElement>(null);
   const [swipeX, setSwipeX] = useState(0);
   const startX = useRef(0);
+  // Tracks whether the current touch gesture moved, so a swipe isn't treated as a tap
+  const hasMoved = useRef(false);
   const isSwiped = activeSwipedItemId === transaction.id;
+  const [showSplits, setShowSplits] = useState(false);
 
   const handleTouchStart = (e: React.TouchEvent) => {
     startX.current = e.touches[0].clientX;
+    hasMoved.current = false;
     if (activeSwipedItemId && activeSwipedItemId !== transaction.id) {
       setActiveSwipedItemId(null);
     }
@@ -36,6 +54,9 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, getCateg
   const handleTouchMove = (e: React.TouchEvent) => {
     const currentX = e.touches[0].clientX;
     const diff = currentX - startX.current;
+    if (Math.abs(diff) > 5) {
+      hasMoved.current = true;
+    }
     if (diff < 0 && diff > -100) { // Only allow left swipe up to 100px
       setSwipeX(diff);
     }
@@ -62,6 +83,42 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, getCateg
     setSwipeX(0);
     setActiveSwipedItemId(null);
   };
+
+  /**
+   * Opens the transaction for editing on tap. If the item is swiped open,
+   * the tap closes it instead, and taps that end a swipe gesture are ignored.
+   */
+  const handleClick = () => {
+    if (isSelecting) {
+      onToggleSelect?.(transaction.id);
+      return;
+    }
+    if (hasMoved.current) {
+      hasMoved.current = false;
+      return;
+    }
+    if (isSwiped) {
+      setSwipeX(0);
+      setActiveSwipedItemId(null);
+      return;
+    }
+    onEdit?.(transaction);
+  };
+
+  /**
+   * Allows keyboard users to open the transaction for editing.
+   * @param {React.KeyboardEvent} e - The keyboard event.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (isSelecting) {
+        onToggleSelect?.(transaction.id);
+      } else {
+        onEdit?.(transaction);
+      }
+    }
+  };
   
   // Close swipe when another item is swiped
   React.useEffect(() => {
@@ -70,38 +127,103 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, getCateg
     }
   }, [activeSwipedItemId, transaction.id]);
 
-  const category = transaction.type === 'expense' ? getCategory(transaction.categoryId) : undefined;
+  const category = getCategory(transaction.categoryId);
   const isIncome = transaction.type === 'income';
+  // Income without a category keeps the generic income look
+  const isPlainIncome = isIncome && !category;
+  const splits = isSplit(transaction) ? transaction.splits! : undefined;
+  // Items react to taps when they can be edited, or selected in multi-select mode
+  const isInteractive = isSelecting || !!onEdit;
+
+  /**
+   * Gets the display name of a category.
+   * @param {Category | undefined} c - The category.
+   * @returns {string} The translated name for default categories, or the custom name.
+   */
+  const getCategoryName = (c: Category | undefined) =>
+    !c ? '' : c.name.startsWith('category_') ? t(c.name as TranslationKey) : c.name;
+
+  /**
+   * Shows or hides the lines of a split transaction without opening it for editing.
+   * @param {React.SyntheticEvent} e - The click or keyboard event.
+   */
+  const handleToggleSplits = (e: React.SyntheticEvent) => {
+    e.stopPropagation();
+    setShowSplits(prev => !prev);
+  };
 
   return (
-    <div className="relative overflow-hidden rounded-lg">
-      <div 
-        className="absolute top-0 right-0 bottom-0 w-20 bg-danger flex items-center justify-center"
-        style={{ transform: `translateX(${isSwiped ? 0 : 100}%)`, transition: 'transform 0.3s ease-out' }}
-      >
-        <button onClick={handleDelete} className="text-white p-4">
-          <TrashIcon className="w-6 h-6" />
-        </button>
-      </div>
-      <div
-        ref={itemRef}
-        className="flex items-center p-2 rounded-lg bg-surface transition-transform w-full"
-        style={{ transform: `translateX(${swipeX}px)` }}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-      >
-        <div className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: isIncome ? 'hsl(var(--success) / 0.1)' : `${category?.color}20`, color: isIncome ? 'hsl(var(--success))' : category?.color }}>
-          <DynamicCategoryIcon name={isIncome ? 'trending-up' : category?.icon || 'tag'} className="w-5 h-5" />
-        </div>
-        <div className="ml-3 flex-1 min-w-0">
-          <p className="font-medium truncate">{transaction.description}</p>
-          <p className="text-sm text-text-secondary">{new Date(transaction.date + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</p>
+    <div>
+      <div className="relative overflow-hidden rounded-lg">
+        <div 
+          className="absolute top-0 right-0 bottom-0 w-20 bg-danger flex items-center justify-center"
+          style={{ transform: `translateX(${isSwiped ? 0 : 100}%)`, transition: 'transform 0.3s ease-out' }}
+        >
+          <button onClick={handleDelete} className="text-white p-4">
+            <TrashIcon className="w-6 h-6" />
+          </button>
         </div>
-        <div className={`ml-3 font-semibold ${isIncome ? 'text-success' : 'text-danger'}`}>
-          {isIncome ? '+' : '-'}{t('currencySymbol')}{transaction.amount.toFixed(2)}
+        <div
+          ref={itemRef}
+          className={`flex items-center p-2 rounded-lg transition-transform w-full ${isSelected ? 'bg-primary/10' : 'bg-surface'} ${isInteractive ? 'cursor-pointer hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary' : ''}`}
+          style={{ transform: `translateX(${swipeX}px)` }}
+          onTouchStart={isSelecting ? undefined : handleTouchStart}
+          onTouchMove={isSelecting ? undefined : handleTouchMove}
+          onTouchEnd={isSelecting ? undefined : handleTouchEnd}
+          onClick={isInteractive ? handleClick : undefined}
+          onKeyDown={isInteractive ? handleKeyDown : undefined}
+          role={isSelecting ? 'checkbox' : onEdit ? 'button' : undefined}
+          aria-checked={isSelecting ? isSelected : undefined}
+          tabIndex={isInteractive ? 0 : undefined}
+          aria-label={isSelecting ? transaction.description : onEdit ? `${t('editTransaction')}: ${transaction.description}` : undefined}
+        >
+          {isSelecting && (
+            <div className={`w-5 h-5 mr-3 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${isSelected ? 'bg-primary border-primary text-white' : 'border-border'}`}>
+              {isSelected && <CheckIcon className="w-3.5 h-3.5" strokeWidth={3} />}
+            </div>
+          )}
+          <div className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: isPlainIncome ? 'hsl(var(--success) / 0.1)' : `${category?.color}20`, color: isPlainIncome ? 'hsl(var(--success))' : category?.color }}>
+            <DynamicCategoryIcon name={isPlainIncome ? 'trending-up' : category?.icon || 'tag'} className="w-5 h-5" />
+          </div>
+          <div className="ml-3 flex-1 min-w-0">
+            <p className="font-medium truncate">{transaction.description}</p>
+            <p className="text-sm text-text-secondary flex items-center">
+              {new Date(transaction.date + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              {transaction.recurringRuleId && <RepeatIcon className="w-3.5 h-3.5 ml-1" aria-label={t('recurring')} />}
+              {splits && <span className="ml-1 truncate">· {t('splitSummary', { count: String(splits.length) })}</span>}
+            </p>
+          </div>
+          <div className={`ml-3 font-semibold ${isIncome ? 'text-success' : 'text-danger'}`}>
+            {format(isIncome ? transaction.amount : -transaction.amount, transaction.currency, { signDisplay: 'always' })}
+          </div>
+          {splits && (
+            <button
+              type="button"
+              onClick={handleToggleSplits}
+              onKeyDown={e => e.stopPropagation()}
+              className="ml-2 p-1 rounded-md text-text-secondary hover:bg-border"
+              aria-label={t(showSplits ? 'hideSplitLines' : 'showSplitLines')}
+              aria-expanded={showSplits}
+            >
+              {showSplits ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+            </button>
+          )}
         </div>
       </div>
+      {splits && showSplits && (
+        <ul className="ml-12 mr-2 mb-1 space-y-1">
+          {splits.map((split, index) => {
+            const splitCategory = getCategory(split.categoryId);
+            return (
+              <li key={index} className="flex items-center text-sm">
+                <DynamicCategoryIcon name={splitCategory?.icon || 'tag'} className="w-4 h-4 flex-shrink-0" style={{ color: splitCategory?.color }} />
+                <span className="ml-2 flex-1 truncate text-text-secondary">{getCategoryName(splitCategory)}</span>
+                <span className="ml-3 text-danger">{format(-split.amount, transaction.currency, { signDisplay: 'always' })}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </div>
   );
 }
@@ -0,0 +1,64 @@
+/**
+ * @file Renders a bar chart with the series side by side, or stacked on top of each other.
+ */
+
+import React, { useMemo } from 'react';
+import { ChartSeries, getNiceMax, stackSeries } from '../../utils/chart';
+import ChartFrame from './ChartFrame';
+
+/**
+ * Props for the BarChart component.
+ */
+interface BarChartProps {
+  /** An accessible description of the chart. */
+  title: string;
+  /** The labels along the horizontal axis, one per point. */
+  labels: string[];
+  /** The series to plot. */
+  series: ChartSeries[];
+  /** Formats a value for the tooltip. */
+  formatValue: (value: number) => string;
+  /** Whether to stack the series instead of placing them side by side. */
+  stacked?: boolean;
+}
+
+/**
+ * A grouped or stacked bar chart.
+ * @param {BarChartProps} props - The props for the component.
+ * @returns The rendered chart.
+ */
+export default function BarChart({ title, labels, series, formatValue, stacked = false }: BarChartProps): React.ReactNode {
+  const stackedTotals = useMemo(() => stackSeries(series), [series]);
+  const maxValue = useMemo(() => getNiceMax(Math.max(0, ...(stacked ? stackedTotals[stackedTotals.length - 1] || [] : series.flatMap(s => s.values)))), [series, stacked, stackedTotals]);
+
+  return (
+    <ChartFrame title={title} labels={labels} series={series} maxValue={maxValue} formatValue={formatValue}>
+      {layout => {
+        // Leave a gap between the bars of neighbouring points
+        const groupWidth = layout.bandWidth * 0.7;
+        const barWidth = stacked ? groupWidth : groupWidth / Math.max(series.length, 1);
+        return series.map((s, seriesIndex) => (
+          <g key={s.id}>
+            {s.values.map((value, index) => {
+              const top = stacked ? stackedTotals[seriesIndex][index] : value;
+              const bottom = stacked ? top - value : 0;
+              const x = layout.x(index) - groupWidth / 2 + (stacked ? 0 : barWidth * seriesIndex);
+              return (
+                <rect
+                  key={index}
+                  x={x}
+                  y={layout.y(top)}
+                  width={Math.max(barWidth - 1, 1)}
+                  height={Math.max(layout.y(bottom) - layout.y(top), 0)}
+                  rx={stacked ? 0 : 2}
+                  style={{ fill: s.color }}
+                  opacity={layout.activeIndex === null || layout.activeIndex === index ? 1 : 0.6}
+                />
+              );
+            })}
+          </g>
+        ));
+      }}
+    </ChartFrame>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * @file Renders the frame shared by the SVG charts: the value axis and grid lines,
+ * the labels along the bottom, the legend, and a tooltip for the point under the
+ * pointer (or the last one tapped on touch screens). Each chart draws its own
+ * shapes inside the frame using the layout it is given.
+ */
+
+import React, { useState } from 'react';
+import { useLocalization } from '../../context/LocalizationContext';
+import { ChartSeries, getTicks } from '../../utils/chart';
+
+/** The size of the chart's drawing area, in SVG units; the SVG scales to its container. */
+export const CHART_WIDTH = 600;
+export const CHART_HEIGHT = 240;
+
+/** The space kept around the plot for the axis labels. */
+const PADDING = { top: 12, right: 12, bottom: 28, left: 52 };
+
+/**
+ * The positions a chart needs to draw its shapes.
+ */
+export interface ChartLayout {
+  /** Gets the horizontal center of the point at an index. */
+  x: (index: number) => number;
+  /** Gets the vertical position of a value. */
+  y: (value: number) => number;
+  /** The width available to each point, e.g., for bars. */
+  bandWidth: number;
+  /** The vertical position of the zero line. */
+  baseline: number;
+  /** The index of the point being inspected, or null. */
+  activeIndex: number | null;
+}
+
+/**
+ * Props for the ChartFrame component.
+ */
+interface ChartFrameProps {
+  /** An accessible description of the chart. */
+  title: string;
+  /** The labels along the horizontal axis, one per point. */
+  labels: string[];
+  /** The series plotted, used for the legend and tooltip. */
+  series: ChartSeries[];
+  /** The top of the value axis. */
+  maxValue: number;
+  /** Formats a value for the tooltip. */
+  formatValue: (value: number) => string;
+  /** Draws the chart's shapes with the given layout. */
+  children: (layout: ChartLayout) => React.ReactNode;
+}
+
+/**
+ * The shared frame for the line, bar and stacked area charts.
+ * @param {ChartFrameProps} props - The props for the component.
+ * @returns The rendered chart.
+ */
+export default function ChartFrame({ title, labels, series, maxValue, formatValue, children }: ChartFrameProps): React.ReactNode {
+  const { locale } = useLocalization();
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const bandWidth = plotWidth / Math.max(labels.length, 1);
+  const layout: ChartLayout = {
+    x: index => PADDING.left + bandWidth * (index + 0.5),
+    y: value => PADDING.top + plotHeight * (1 - value / maxValue),
+    bandWidth,
+    baseline: PADDING.top + plotHeight,
+    activeIndex,
+  };
+
+  // Short axis labels such as "1.5K" keep the value axis narrow
+  const compactFormatter = new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 });
+  // Show every label when they fit, otherwise every other one
+  const labelStep = labels.length > 8 ? 2 : 1;
+
+  // Keep the tooltip inside the chart near its edges
+  const tooltipPosition = activeIndex === null ? null : layout.x(activeIndex) / CHART_WIDTH;
+  const tooltipTransform = tooltipPosition === null ? '' : tooltipPosition < 0.25 ? 'translateX(0)' : tooltipPosition > 0.75 ? 'translateX(-100%)' : 'translateX(-50%)';
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto select-none" role="img" aria-label={title} onMouseLeave={() => setActiveIndex(null)}>
+        {/* Value axis and grid lines */}
+        {getTicks(maxValue).map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={layout.y(tick)} y2={layout.y(tick)} style={{ stroke: 'hsl(var(--border))' }} strokeWidth={1} />
+            <text x={PADDING.left - 8} y={layout.y(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} style={{ fill: 'hsl(var(--text-secondary))' }}>
+              {compactFormatter.format(tick)}
+            </text>
+          </g>
+        ))}
+
+        {/* Highlight of the inspected point */}
+        {activeIndex !== null && (
+          <rect x={layout.x(activeIndex) - bandWidth / 2} y={PADDING.top} width={bandWidth} height={plotHeight} style={{ fill: 'hsl(var(--input))' }} opacity={0.6} />
+        )}
+
+        {children(layout)}
+
+        {/* Labels along the bottom */}
+        {labels.map((label, index) => index % labelStep === (labels.length - 1) % labelStep && (
+          <text key={index} x={layout.x(index)} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize={11} style={{ fill: 'hsl(var(--text-secondary))' }}>
+            {label}
+          </text>
+        ))}
+
+        {/* Invisible columns that pick the point under the pointer, or the one tapped */}
+        {labels.map((label, index) => (
+          <rect
+            key={index}
+            x={PADDING.left + bandWidth * index}
+            y={PADDING.top}
+            width={bandWidth}
+            height={plotHeight}
+            fill="transparent"
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => setActiveIndex(prev => (prev === index ? null : index))}
+          />
+        ))}
+      </svg>
+
+      {/* Tooltip */}
+      {activeIndex !== null && (
+        <div
+          className="absolute top-0 z-10 pointer-events-none bg-surface border border-border rounded-lg shadow-lg p-2 text-xs min-w-[8rem]"
+          style={{ left: `${(tooltipPosition || 0) * 100}%`, transform: tooltipTransform }}
+        >
+          <p className="font-semibold mb-1">{labels[activeIndex]}</p>
+          {series.map(s => (
+            <div key={s.id} className="flex items-center justify-between space-x-3">
+              <span className="flex items-center space-x-1 min-w-0">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: s.color }}></span>
+                <span className="truncate">{s.label}</span>
+              </span>
+              <span className="font-medium whitespace-nowrap">{formatValue(s.values[activeIndex] || 0)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-2 text-xs text-text-secondary">
+        {series.map(s => (
+          <span key={s.id} className="flex items-center space-x-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }}></span>
+            <span>{s.label}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
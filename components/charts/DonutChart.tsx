@@ -0,0 +1,95 @@
+/**
+ * @file Renders a donut chart of how a total splits into parts, with selectable slices.
+ */
+
+import React from 'react';
+
+/**
+ * A part of the total shown as one slice of the donut.
+ */
+export interface DonutSlice {
+  /** A unique identifier for the slice. */
+  id: string;
+  /** The label of the slice. */
+  label: string;
+  /** The color of the slice: a hex color or a theme color such as 'hsl(var(--primary))'. */
+  color: string;
+  /** The value of the slice; its share of the total sets the slice's size. */
+  value: number;
+}
+
+/**
+ * Props for the DonutChart component.
+ */
+interface DonutChartProps {
+  /** An accessible description of the chart. */
+  title: string;
+  /** The slices, drawn clockwise from the top. */
+  slices: DonutSlice[];
+  /** The ID of the selected slice, or null. */
+  selectedId: string | null;
+  /** Callback when a slice is tapped. */
+  onSelect: (id: string) => void;
+  /** The text shown in the hole, e.g., the formatted total. */
+  centerLabel: string;
+  /** A smaller caption below the center label. */
+  centerCaption?: string;
+}
+
+/** The size of the chart's drawing area, in SVG units. */
+const SIZE = 200;
+const RADIUS = 70;
+const THICKNESS = 32;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+/**
+ * A donut chart. Each slice is a dashed stroke of the same circle, which also
+ * handles a single slice that makes up the whole total.
+ * @param {DonutChartProps} props - The props for the component.
+ * @returns The rendered chart.
+ */
+export default function DonutChart({ title, slices, selectedId, onSelect, centerLabel, centerCaption }: DonutChartProps): React.ReactNode {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  let offset = 0;
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[16rem] h-auto mx-auto" role="img" aria-label={title}>
+      {/* Start at the top and go clockwise */}
+      <g transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}>
+        {total === 0 ? (
+          <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill="none" style={{ stroke: 'hsl(var(--input))' }} strokeWidth={THICKNESS} />
+        ) : slices.map(slice => {
+          const length = (slice.value / total) * CIRCUMFERENCE;
+          const dashOffset = -offset;
+          offset += length;
+          const isSelected = slice.id === selectedId;
+          return (
+            <circle
+              key={slice.id}
+              cx={SIZE / 2}
+              cy={SIZE / 2}
+              r={RADIUS}
+              fill="none"
+              style={{ stroke: slice.color, cursor: 'pointer', transition: 'opacity 0.2s' }}
+              strokeWidth={isSelected ? THICKNESS + 8 : THICKNESS}
+              strokeDasharray={`${length} ${CIRCUMFERENCE - length}`}
+              strokeDashoffset={dashOffset}
+              opacity={selectedId === null || isSelected ? 1 : 0.4}
+              onClick={() => onSelect(slice.id)}
+            >
+              <title>{slice.label}</title>
+            </circle>
+          );
+        })}
+      </g>
+      <text x={SIZE / 2} y={centerCaption ? SIZE / 2 - 6 : SIZE / 2} textAnchor="middle" dominantBaseline="middle" fontSize={16} fontWeight={600} style={{ fill: 'hsl(var(--text-primary))' }}>
+        {centerLabel}
+      </text>
+      {centerCaption && (
+        <text x={SIZE / 2} y={SIZE / 2 + 14} textAnchor="middle" dominantBaseline="middle" fontSize={11} style={{ fill: 'hsl(var(--text-secondary))' }}>
+          {centerCaption}
+        </text>
+      )}
+    </svg>
+  );
+}
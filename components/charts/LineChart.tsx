@@ -0,0 +1,51 @@
+/**
+ * @file Renders a line chart with one line per series.
+ */
+
+import React, { useMemo } from 'react';
+import { ChartSeries, getNiceMax } from '../../utils/chart';
+import ChartFrame from './ChartFrame';
+
+/**
+ * Props for the LineChart component.
+ */
+interface LineChartProps {
+  /** An accessible description of the chart. */
+  title: string;
+  /** The labels along the horizontal axis, one per point. */
+  labels: string[];
+  /** The series to plot, one line each. */
+  series: ChartSeries[];
+  /** Formats a value for the tooltip. */
+  formatValue: (value: number) => string;
+}
+
+/**
+ * A line chart; dashed series are drawn without point markers.
+ * @param {LineChartProps} props - The props for the component.
+ * @returns The rendered chart.
+ */
+export default function LineChart({ title, labels, series, formatValue }: LineChartProps): React.ReactNode {
+  const maxValue = useMemo(() => getNiceMax(Math.max(0, ...series.flatMap(s => s.values))), [series]);
+
+  return (
+    <ChartFrame title={title} labels={labels} series={series} maxValue={maxValue} formatValue={formatValue}>
+      {layout => series.map(s => (
+        <g key={s.id}>
+          <polyline
+            points={s.values.map((value, index) => `${layout.x(index)},${layout.y(value)}`).join(' ')}
+            fill="none"
+            style={{ stroke: s.color }}
+            strokeWidth={2.5}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            strokeDasharray={s.dashed ? '6 4' : undefined}
+          />
+          {!s.dashed && s.values.map((value, index) => (
+            <circle key={index} cx={layout.x(index)} cy={layout.y(value)} r={layout.activeIndex === index ? 5 : 3} style={{ fill: s.color, stroke: 'hsl(var(--surface))' }} strokeWidth={1.5} />
+          ))}
+        </g>
+      ))}
+    </ChartFrame>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * @file Renders a stacked area chart, showing how each series adds up to the total.
+ */
+
+import React, { useMemo } from 'react';
+import { ChartSeries, getNiceMax, stackSeries } from '../../utils/chart';
+import ChartFrame from './ChartFrame';
+
+/**
+ * Props for the StackedAreaChart component.
+ */
+interface StackedAreaChartProps {
+  /** An accessible description of the chart. */
+  title: string;
+  /** The labels along the horizontal axis, one per point. */
+  labels: string[];
+  /** The series to stack, bottom first. */
+  series: ChartSeries[];
+  /** Formats a value for the tooltip. */
+  formatValue: (value: number) => string;
+}
+
+/**
+ * A stacked area chart.
+ * @param {StackedAreaChartProps} props - The props for the component.
+ * @returns The rendered chart.
+ */
+export default function StackedAreaChart({ title, labels, series, formatValue }: StackedAreaChartProps): React.ReactNode {
+  const stackedTotals = useMemo(() => stackSeries(series), [series]);
+  const maxValue = useMemo(() => getNiceMax(Math.max(0, ...(stackedTotals[stackedTotals.length - 1] || []))), [stackedTotals]);
+
+  return (
+    <ChartFrame title={title} labels={labels} series={series} maxValue={maxValue} formatValue={formatValue}>
+      {layout => series.map((s, seriesIndex) => {
+        const tops = stackedTotals[seriesIndex];
+        const bottoms = seriesIndex > 0 ? stackedTotals[seriesIndex - 1] : tops.map(() => 0);
+        // Trace the top edge left to right, then the bottom edge back
+        const topEdge = tops.map((value, index) => `${layout.x(index)},${layout.y(value)}`);
+        const bottomEdge = bottoms.map((value, index) => `${layout.x(index)},${layout.y(value)}`).reverse();
+        return (
+          <g key={s.id}>
+            <polygon points={[...topEdge, ...bottomEdge].join(' ')} style={{ fill: s.color }} opacity={0.35} />
+            <polyline points={topEdge.join(' ')} fill="none" style={{ stroke: s.color }} strokeWidth={2} strokeLinejoin="round" />
+          </g>
+        );
+      })}
+    </ChartFrame>
+  );
+}
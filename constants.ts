@@ -22,3 +22,72 @@ export const DEFAULT_CATEGORIES: Category[] = [
   { id: 'utilities', name: 'category_utilities', color: '#eab308', icon: 'light-bulb' },
   { id: 'other', name: 'category_other', color: '#a8a29e', icon: 'tag' },
 ];
+
+/**
+ * The default categories for income, telling apart where money comes from. They are
+ * given to new users along with `DEFAULT_CATEGORIES`, and added once for existing users.
+ */
+export const DEFAULT_INCOME_CATEGORIES: Category[] = [
+  { id: 'salary', name: 'category_salary', color: '#059669', icon: 'briefcase', kind: 'income' },
+  { id: 'freelance', name: 'category_freelance', color: '#0ea5e9', icon: 'computer-desktop', kind: 'income' },
+  { id: 'gifts', name: 'category_gifts', color: '#d946ef', icon: 'gift', kind: 'income' },
+  { id: 'investments', name: 'category_investments', color: '#65a30d', icon: 'trending-up', kind: 'income' },
+  { id: 'other_income', name: 'category_other_income', color: '#78716c', icon: 'banknotes', kind: 'income' },
+];
+
+/**
+ * The currency assumed for transactions and events saved before multi-currency support.
+ * It matches the colón symbol (₡) that the app originally displayed for every amount,
+ * and is also the initial base currency for new users.
+ */
+export const DEFAULT_CURRENCY = 'CRC';
+
+/**
+ * The ISO 4217 currency codes the user can choose from for transactions, events,
+ * and the base currency.
+ */
+export const SUPPORTED_CURRENCIES = ['CRC', 'USD', 'EUR', 'MXN', 'COP', 'ARS', 'CLP', 'PEN', 'GBP', 'CAD', 'JPY'];
+
+/**
+ * The initial exchange-rate table, expressed as units of each currency per 1 USD.
+ * Users maintain these values themselves from the Settings view; the app never
+ * fetches rates from the network.
+ */
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  CRC: 505,
+  EUR: 0.92,
+  MXN: 17.1,
+  COP: 3950,
+  ARS: 870,
+  CLP: 940,
+  PEN: 3.75,
+  GBP: 0.79,
+  CAD: 1.36,
+  JPY: 151,
+};
+
+/**
+ * The groups of a 50/30/20-style income split, with the percentage of income each
+ * group gets by default.
+ */
+export const INCOME_SPLIT_GROUPS = [
+  { id: 'needs', percent: 50 },
+  { id: 'wants', percent: 30 },
+  { id: 'savings', percent: 20 },
+] as const;
+
+/**
+ * The group each default category starts in when applying an income split.
+ * Categories not listed here start unassigned.
+ */
+export const DEFAULT_INCOME_SPLIT_ASSIGNMENTS: Record<string, 'needs' | 'wants' | 'savings'> = {
+  housing: 'needs',
+  groceries: 'needs',
+  utilities: 'needs',
+  transport: 'needs',
+  health: 'needs',
+  entertainment: 'wants',
+  shopping: 'wants',
+  food: 'wants',
+};
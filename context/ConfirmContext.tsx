@@ -0,0 +1,75 @@
+/**
+ * @file Manages the in-app confirmation dialog.
+ * `confirm` opens the dialog and returns a promise that resolves with the user's
+ * answer, so callers can simply `await` it where they used to call `window.confirm`.
+ */
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import ConfirmDialog, { ConfirmOptions } from '../components/ConfirmDialog';
+
+/**
+ * Defines the shape of the confirm context.
+ */
+interface ConfirmContextType {
+  /**
+   * Asks the user to confirm an action.
+   * @param options - The message, title and confirm button of the dialog.
+   * @returns A promise resolving to true if the user confirmed, false if they cancelled.
+   */
+  confirm: (options: ConfirmOptions) => Promise<boolean>;
+}
+
+const ConfirmContext = createContext<ConfirmContextType | undefined>(undefined);
+
+interface ConfirmProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * A provider component that makes the confirmation dialog available to all child
+ * components and renders it. Must be rendered inside a `LocalizationProvider`.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.children - The child components to render.
+ * @returns The provider component.
+ */
+export const ConfirmProvider = ({ children }: ConfirmProviderProps) => {
+  // The options of the open dialog, and the function resolving its promise. The resolver
+  // is kept in a ref so it is called outside of state updaters, which must be pure.
+  const [options, setOptions] = useState<ConfirmOptions | null>(null);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const confirm = useCallback((nextOptions: ConfirmOptions) => new Promise<boolean>(resolve => {
+    // Only one dialog is shown at a time; an earlier unanswered one counts as cancelled
+    resolveRef.current?.(false);
+    resolveRef.current = resolve;
+    setOptions(nextOptions);
+  }), []);
+
+  const handleResult = useCallback((confirmed: boolean) => {
+    const resolve = resolveRef.current;
+    resolveRef.current = null;
+    setOptions(null);
+    resolve?.(confirmed);
+  }, []);
+
+  const value = useMemo<ConfirmContextType>(() => ({ confirm }), [confirm]);
+
+  return (
+    <ConfirmContext.Provider value={value}>
+      {children}
+      {options && <ConfirmDialog {...options} onResult={handleResult} />}
+    </ConfirmContext.Provider>
+  );
+};
+
+/**
+ * A custom hook to access the confirm context (`confirm`).
+ * @throws Will throw an error if used outside of a `ConfirmProvider`.
+ * @returns The confirm context.
+ */
+export const useConfirm = () => {
+  const context = useContext(ConfirmContext);
+  if (context === undefined) {
+    throw new Error('useConfirm must be used within a ConfirmProvider');
+  }
+  return context;
+};
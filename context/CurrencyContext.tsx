@@ -0,0 +1,90 @@
+/**
+ * @file Manages the currency context for the application.
+ * It holds the user's base currency and their locally maintained exchange-rate table,
+ * and exposes helpers to convert and format amounts consistently across all views.
+ */
+import React, { createContext, useContext, useMemo } from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { useLocalization } from './LocalizationContext';
+import { DEFAULT_CURRENCY, DEFAULT_EXCHANGE_RATES } from '../constants';
+import { convertAmount, formatCurrency } from '../utils/currency';
+
+/**
+ * Defines the shape of the currency context.
+ */
+interface CurrencyContextType {
+  /** The currency that totals, budgets and summaries are expressed in. */
+  baseCurrency: string;
+  /** Function to set the base currency. */
+  setBaseCurrency: React.Dispatch<React.SetStateAction<string>>;
+  /** The exchange-rate table, as units of each currency per 1 USD. */
+  exchangeRates: Record<string, number>;
+  /** Function to update the exchange-rate table. */
+  setExchangeRates: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  /**
+   * Converts an amount between two currencies.
+   * @param amount - The amount to convert.
+   * @param from - The source currency. Undefined means legacy data in `DEFAULT_CURRENCY`.
+   * @param to - The target currency. Defaults to the base currency.
+   * @returns The converted amount.
+   */
+  convert: (amount: number, from?: string, to?: string) => number;
+  /**
+   * Formats an amount as a localized currency string.
+   * @param amount - The amount to format.
+   * @param currency - The currency of the amount. Defaults to the base currency.
+   * @param options - Additional `Intl.NumberFormat` options, such as `signDisplay`.
+   * @returns The formatted string.
+   */
+  format: (amount: number, currency?: string, options?: Intl.NumberFormatOptions) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+interface CurrencyProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * A provider component that makes currency conversion and formatting available
+ * to all child components. Must be rendered inside a `LocalizationProvider`.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.children - The child components to render.
+ * @returns The provider component.
+ */
+export const CurrencyProvider = ({ children }: CurrencyProviderProps) => {
+  const { locale } = useLocalization();
+  const [baseCurrency, setBaseCurrency] = usePersistentState<string>('baseCurrency', DEFAULT_CURRENCY);
+  const [storedRates, setExchangeRates] = usePersistentState<Record<string, number>>('exchangeRates', DEFAULT_EXCHANGE_RATES);
+
+  // Fill in any currencies added to the defaults after the user's table was saved
+  const exchangeRates = useMemo(() => ({ ...DEFAULT_EXCHANGE_RATES, ...storedRates }), [storedRates]);
+
+  const value = useMemo<CurrencyContextType>(() => ({
+    baseCurrency,
+    setBaseCurrency,
+    exchangeRates,
+    setExchangeRates,
+    convert: (amount, from, to = baseCurrency) => convertAmount(amount, from, to, exchangeRates),
+    format: (amount, currency = baseCurrency, options) => formatCurrency(amount, currency, locale, options),
+  }), [baseCurrency, setBaseCurrency, exchangeRates, setExchangeRates, locale]);
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+/**
+ * A custom hook to access the currency context (base currency, rates, `convert` and `format`).
+ * @throws Will throw an error if used outside of a `CurrencyProvider`.
+ * @returns The currency context.
+ */
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
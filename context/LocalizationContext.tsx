@@ -6,7 +6,7 @@ import React, { createContext, useContext, useMemo } from 'react';
 // FIX: Corrected import path for locales/en.ts and locales/es.ts
 import { en, TranslationKey } from '../locales/en';
 import { es } from '../locales/es';
-import { useLocalStorage } from '../hooks/useLocalStorage';
+import { usePersistentState } from '../hooks/usePersistentState';
 
 // A map of available translation files.
 const translations = {
@@ -57,7 +57,7 @@ interface LocalizationProviderProps {
  * @returns The provider component.
  */
 export const LocalizationProvider = ({ children }: LocalizationProviderProps) => {
-  const [locale, setLocale] = useLocalStorage<'en' | 'es'>('language', getInitialLocale());
+  const [locale, setLocale] = usePersistentState<'en' | 'es'>('language', getInitialLocale());
   const langFile = translations[locale];
 
   /**
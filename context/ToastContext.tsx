@@ -0,0 +1,163 @@
+/**
+ * @file Manages the in-app toast notifications.
+ * Toasts report success, errors and other feedback without blocking the UI, and can
+ * carry an action button (such as Undo). They stack at the bottom of the screen and
+ * hide themselves after a few seconds.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocalization } from './LocalizationContext';
+import { XMarkIcon } from '../components/icons';
+
+/** How long a toast stays on screen by default. */
+const DEFAULT_TOAST_DURATION_MS = 4000;
+
+/** How long a toast with an action stays on screen, to leave time to use it. */
+const ACTION_TOAST_DURATION_MS = 6000;
+
+/**
+ * Options for showing a toast.
+ */
+export interface ToastOptions {
+  /** The kind of feedback, which sets the toast's accent color. Defaults to 'info'. */
+  type?: 'success' | 'error' | 'info';
+  /** A button shown on the toast; the toast is dismissed when it is used. */
+  action?: { label: string; onClick: () => void };
+  /** An ID for the toast; a new toast with the same ID replaces the one on screen. */
+  id?: string;
+  /** How long the toast stays on screen, in milliseconds. */
+  duration?: number;
+}
+
+/**
+ * A toast on screen.
+ */
+interface Toast extends Required<Pick<ToastOptions, 'type' | 'id' | 'duration'>> {
+  /** The message to display. */
+  message: string;
+  /** The toast's action button, if any. */
+  action?: ToastOptions['action'];
+  /** Changes whenever the toast is shown again, restarting its timer. */
+  version: number;
+}
+
+/**
+ * Defines the shape of the toast context.
+ */
+interface ToastContextType {
+  /**
+   * Shows a toast.
+   * @param message - The message to display.
+   * @param options - The type, action, ID and duration of the toast.
+   * @returns The ID of the toast.
+   */
+  showToast: (message: string, options?: ToastOptions) => string;
+  /**
+   * Hides a toast.
+   * @param id - The ID of the toast.
+   */
+  dismissToast: (id: string) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+interface ToastProviderProps {
+  children: React.ReactNode;
+}
+
+/** The accent color of each type of toast. */
+const TOAST_ACCENTS: Record<Toast['type'], string> = {
+  success: 'border-success',
+  error: 'border-danger',
+  info: 'border-primary',
+};
+
+/**
+ * A single toast, which hides itself when its time is up.
+ * @param {object} props - The component props.
+ * @param {Toast} props.toast - The toast to display.
+ * @param {(id: string) => void} props.onDismiss - Callback to hide the toast.
+ * @returns The rendered toast.
+ */
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: string) => void }> = ({ toast, onDismiss }) => {
+  const { t } = useLocalization();
+
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), toast.duration);
+    return () => clearTimeout(timer);
+  }, [toast.id, toast.version, toast.duration, onDismiss]);
+
+  return (
+    <div
+      className={`bg-surface border border-border border-l-4 ${TOAST_ACCENTS[toast.type]} text-text-primary py-3 px-4 rounded-2xl shadow-xl flex items-center pointer-events-auto`}
+      role={toast.type === 'error' ? 'alert' : 'status'}
+    >
+      <p className="flex-1 min-w-0 text-sm">{toast.message}</p>
+      {toast.action && (
+        <button
+          onClick={() => { toast.action!.onClick(); onDismiss(toast.id); }}
+          className="ml-3 py-1 px-3 rounded-lg text-sm font-bold text-primary hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button onClick={() => onDismiss(toast.id)} className="ml-1 p-1 rounded-full text-text-secondary hover:bg-input focus:outline-none focus:ring-2 focus:ring-primary" aria-label={t('dismiss')}>
+        <XMarkIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * A provider component that makes toasts available to all child components and
+ * renders them. Must be rendered inside a `LocalizationProvider`.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.children - The child components to render.
+ * @returns The provider component.
+ */
+export const ToastProvider = ({ children }: ToastProviderProps) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, options: ToastOptions = {}) => {
+    const id = options.id || `toast-${nextId.current++}`;
+    const toast: Toast = {
+      id,
+      message,
+      type: options.type || 'info',
+      action: options.action,
+      duration: options.duration || (options.action ? ACTION_TOAST_DURATION_MS : DEFAULT_TOAST_DURATION_MS),
+      version: nextId.current++,
+    };
+    setToasts(prev => (prev.some(existing => existing.id === id) ? prev.map(existing => (existing.id === id ? toast : existing)) : [...prev, toast]));
+    return id;
+  }, []);
+
+  const value = useMemo<ToastContextType>(() => ({ showToast, dismissToast }), [showToast, dismissToast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      {/* Above the mobile navigation and any open modal */}
+      <div className="fixed bottom-24 md:bottom-6 left-1/2 -translate-x-1/2 z-[60] w-[calc(100%-2rem)] max-w-md space-y-2 pointer-events-none" aria-live="polite">
+        {toasts.map(toast => <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />)}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+/**
+ * A custom hook to access the toast context (`showToast` and `dismissToast`).
+ * @throws Will throw an error if used outside of a `ToastProvider`.
+ * @returns The toast context.
+ */
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
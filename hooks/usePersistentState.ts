@@ -0,0 +1,33 @@
+/**
+ * @file Defines the usePersistentState custom hook for persistent state management.
+ */
+
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { StorageKey, readStoredValue, writeStoredValue } from '../utils/storage';
+
+/**
+ * A custom React hook that keeps a state variable in the app's persistent storage.
+ * It behaves like `useState`, but starts from the saved value and saves every change.
+ * Storage is loaded before the app renders (see `initStorage`), so the saved value is
+ * available right away; problems reading or saving it are reported by the storage.
+ *
+ * @template T The type of the value to be stored.
+ * @param {StorageKey} key The key under which the value is stored.
+ * @param {T} initialValue The initial value to use if no value has been saved.
+ * @returns A stateful value, and a function to update it.
+ */
+export function usePersistentState<T,>(key: StorageKey, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
+  const [storedValue, setStoredValue] = useState<T>(() => {
+    const saved = readStoredValue<T>(key);
+    return saved === undefined ? initialValue : saved;
+  });
+
+  /**
+   * An effect that saves the value whenever it or the key changes.
+   */
+  useEffect(() => {
+    writeStoredValue(key, storedValue);
+  }, [key, storedValue]);
+
+  return [storedValue, setStoredValue];
+}
@@ -0,0 +1,134 @@
+/**
+ * @file Defines the useReminders custom hook, which delivers budget reminder digests.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { NotificationFrequency } from '../types';
+import { ReminderMessage, isReminderDue } from '../utils/reminders';
+import { usePersistentState } from './usePersistentState';
+
+/** How often the hook checks whether a reminder is due while the app stays open. */
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** The tag shared by all reminder notifications, so a new digest replaces the previous one. */
+const NOTIFICATION_TAG = 'budget-digest';
+
+/**
+ * The permission state for reminders. 'unsupported' means the browser has no Notification API.
+ */
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Gets the current notification permission, or 'unsupported' if notifications are unavailable.
+ * @returns {ReminderPermission} The permission state.
+ */
+const getPermission = (): ReminderPermission => (typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+/**
+ * Registers the service worker used to display notifications and handle clicks on them.
+ * @returns {Promise<ServiceWorkerRegistration | null>} The registration, or null if unavailable.
+ */
+const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register('./sw.js');
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+};
+
+/**
+ * A custom hook that sends budget reminder digests at the user's chosen frequency.
+ * Reminders are only checked while the app is open: one that fell due while it was
+ * closed is sent on the next visit, as the service worker does no background work.
+ * When a reminder is due it is shown as a system notification through the service
+ * worker. If notification permission is not granted, or notifications are unsupported,
+ * the digest is returned as `banner` so the app can show it in-app instead.
+ *
+ * @param {NotificationFrequency} frequency - How often reminders should be sent.
+ * @param {ReminderMessage} message - The current digest to deliver when a reminder is due.
+ * @returns The permission state, a function to request permission, and the in-app banner state.
+ */
+export function useReminders(frequency: NotificationFrequency, message: ReminderMessage) {
+  const [permission, setPermission] = useState<ReminderPermission>(getPermission);
+  const [banner, setBanner] = useState<ReminderMessage | null>(null);
+  const [lastReminderAt, setLastReminderAt] = usePersistentState<string | null>('lastReminderAt', null);
+  const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+
+  // Keep the latest digest in a ref so the interval always delivers up-to-date numbers
+  const messageRef = useRef(message);
+  messageRef.current = message;
+
+  // Register the service worker once on mount
+  useEffect(() => {
+    registerServiceWorker().then(registration => {
+      registrationRef.current = registration;
+    });
+  }, []);
+
+  /**
+   * Asks the user for notification permission. Must be called from a user gesture.
+   * @returns {Promise<ReminderPermission>} The resulting permission state.
+   */
+  const requestPermission = useCallback(async (): Promise<ReminderPermission> => {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    return result;
+  }, []);
+
+  /**
+   * Delivers a digest as a system notification, falling back to the in-app banner.
+   * @param {ReminderMessage} digest - The digest to deliver.
+   */
+  const deliver = useCallback(async (digest: ReminderMessage) => {
+    if (getPermission() !== 'granted') {
+      setBanner(digest);
+      return;
+    }
+    const options: NotificationOptions = { body: digest.lines.join('\n'), tag: NOTIFICATION_TAG };
+    try {
+      const registration = registrationRef.current || await navigator.serviceWorker?.ready;
+      if (registration) {
+        await registration.showNotification(digest.title, options);
+      } else {
+        new Notification(digest.title, options);
+      }
+    } catch (error) {
+      console.error('Could not show reminder notification:', error);
+      setBanner(digest);
+    }
+  }, []);
+
+  /**
+   * Effect that checks whether a reminder is due on load and periodically while the app
+   * is open. The first run only records a starting point, so new users aren't greeted
+   * with a digest before they have any data.
+   */
+  useEffect(() => {
+    if (frequency === 'never') return;
+    if (!lastReminderAt) {
+      setLastReminderAt(new Date().toISOString());
+      return;
+    }
+
+    const check = () => {
+      const now = new Date();
+      if (isReminderDue(frequency, lastReminderAt, now)) {
+        setLastReminderAt(now.toISOString());
+        deliver(messageRef.current);
+      }
+    };
+    check();
+    const intervalId = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [frequency, lastReminderAt, setLastReminderAt, deliver]);
+
+  return {
+    permission,
+    requestPermission,
+    banner,
+    dismissBanner: () => setBanner(null),
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * @file Defines the useSelection custom hook, which tracks the items picked in a
+ * list's multi-select mode.
+ */
+
+import { useState, useCallback } from 'react';
+
+/**
+ * The selection state and the functions to change it.
+ */
+export interface Selection {
+  /** Whether the list is in multi-select mode. */
+  isSelecting: boolean;
+  /** The IDs of the selected items. */
+  selectedIds: Set<string>;
+  /** Turns multi-select mode on, with nothing selected. */
+  start: () => void;
+  /** Turns multi-select mode off and clears the selection. */
+  stop: () => void;
+  /** Selects an item, or deselects it if it is already selected. */
+  toggle: (id: string) => void;
+  /** Replaces the selection with the given items. */
+  selectAll: (ids: string[]) => void;
+}
+
+/**
+ * A custom hook for selecting several items of a list at once.
+ * @returns {Selection} The selection state and the functions to change it.
+ */
+export function useSelection(): Selection {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+
+  const start = useCallback(() => {
+    setSelectedIds(new Set());
+    setIsSelecting(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setSelectedIds(new Set());
+    setIsSelecting(false);
+  }, []);
+
+  const toggle = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectAll = useCallback((ids: string[]) => setSelectedIds(new Set(ids)), []);
+
+  return { isSelecting, selectedIds, start, stop, toggle, selectAll };
+}
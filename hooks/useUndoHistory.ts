@@ -0,0 +1,84 @@
+/**
+ * @file Defines the useUndoHistory custom hook, which keeps an in-memory history of
+ * changes to the app's data so they can be undone and redone.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+
+/** How many changes are kept for undoing. */
+const MAX_HISTORY = 50;
+
+/**
+ * A recorded change: what the data looked like on the other side of it.
+ */
+interface HistoryEntry<T, L> {
+  /** Describes the change (e.g., a translation key like "Transaction deleted"). */
+  label: L;
+  /** The data before the change (for undo) or after it (for redo). */
+  snapshot: T;
+}
+
+/**
+ * The undo history and the functions to move through it.
+ */
+export interface UndoHistory<L> {
+  /** Records that the data is about to change. Call it right before changing it. */
+  record: (label: L) => void;
+  /** Restores the data from before the last change. Returns the change's label, if any. */
+  undo: () => L | undefined;
+  /** Reapplies the last undone change. Returns the change's label, if any. */
+  redo: () => L | undefined;
+  /** Whether there is a change to undo. */
+  canUndo: boolean;
+  /** Whether there is an undone change to redo. */
+  canRedo: boolean;
+}
+
+/**
+ * A custom hook for undoing and redoing changes. The data is treated as an immutable
+ * snapshot, so recording a change only keeps references, not copies. Several records
+ * made while handling the same user action (with the same snapshot) count as one change.
+ * The returned functions keep their identity across renders and always act on the
+ * latest history, so they can be handed to callbacks that outlive a render (such as
+ * a toast's Undo button).
+ * @param {T} current - The current data, as an object of state values.
+ * @param {(snapshot: T) => void} restore - Sets every state value from a snapshot.
+ * @returns {UndoHistory<L>} The history and the functions to move through it.
+ */
+export function useUndoHistory<T, L>(current: T, restore: (snapshot: T) => void): UndoHistory<L> {
+  const past = useRef<HistoryEntry<T, L>[]>([]);
+  const future = useRef<HistoryEntry<T, L>[]>([]);
+  const latest = useRef({ current, restore });
+  latest.current = { current, restore };
+  // The history lives in refs; bumping this re-renders so canUndo and canRedo stay current
+  const [, setVersion] = useState(0);
+
+  const record = useCallback((label: L) => {
+    const snapshot = latest.current.current;
+    if (past.current[past.current.length - 1]?.snapshot !== snapshot) {
+      past.current = [...past.current, { label, snapshot }].slice(-MAX_HISTORY);
+    }
+    future.current = [];
+    setVersion(v => v + 1);
+  }, []);
+
+  /**
+   * Moves the latest entry of one stack to the other and restores its snapshot.
+   */
+  const move = useCallback((from: typeof past, to: typeof past) => {
+    const entry = from.current[from.current.length - 1];
+    if (!entry) return undefined;
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, { label: entry.label, snapshot: latest.current.current }];
+    latest.current.restore(entry.snapshot);
+    // Until the next render, the restored snapshot is the current data
+    latest.current.current = entry.snapshot;
+    setVersion(v => v + 1);
+    return entry.label;
+  }, []);
+
+  const undo = useCallback(() => move(past, future), [move]);
+  const redo = useCallback(() => move(future, past), [move]);
+
+  return { record, undo, redo, canUndo: past.current.length > 0, canRedo: future.current.length > 0 };
+}
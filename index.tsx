@@ -6,6 +6,10 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LocalizationProvider } from './context/LocalizationContext';
+import { CurrencyProvider } from './context/CurrencyContext';
+import { ToastProvider } from './context/ToastContext';
+import { ConfirmProvider } from './context/ConfirmContext';
+import { initStorage } from './utils/storage';
 
 // Find the root DOM element where the React app will be mounted.
 const rootElement = document.getElementById('root');
@@ -13,14 +17,25 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-// Create a React root and render the main App component.
+// Create a React root and render the main App component once the saved data is loaded,
+// so the app starts with it rather than with its defaults.
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  // StrictMode is a tool for highlighting potential problems in an application.
-  <React.StrictMode>
-    {/* LocalizationProvider wraps the app to provide translation capabilities. */}
-    <LocalizationProvider>
-      <App />
-    </LocalizationProvider>
-  </React.StrictMode>
-);
\ No newline at end of file
+initStorage().then(() => {
+  root.render(
+    // StrictMode is a tool for highlighting potential problems in an application.
+    <React.StrictMode>
+      {/* LocalizationProvider wraps the app to provide translation capabilities. */}
+      <LocalizationProvider>
+        {/* CurrencyProvider formats amounts for the active locale, so it sits inside LocalizationProvider. */}
+        <CurrencyProvider>
+          {/* ToastProvider and ConfirmProvider render translated toasts and dialogs above the app. */}
+          <ToastProvider>
+            <ConfirmProvider>
+              <App />
+            </ConfirmProvider>
+          </ToastProvider>
+        </CurrencyProvider>
+      </LocalizationProvider>
+    </React.StrictMode>
+  );
+});
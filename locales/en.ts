@@ -4,9 +4,12 @@
 
 export const en = {
   // Common
-  currencySymbol: '₡',
   save: 'Save',
   cancel: 'Cancel',
+  confirm: 'Confirm',
+  delete: 'Delete',
+  back: 'Back',
+  next: 'Next',
   
   // Navigation
   dashboard: 'Dashboard',
@@ -41,14 +44,41 @@ export const en = {
   // Analytics
   spendingAnalytics: 'Spending Analytics',
   spendingVsBudget: 'Spending vs. Budget',
-  noSpendingData: 'No spending or budget data to analyze for this month. Add some expenses and set budgets to get started!',
+  noSpendingData: 'No spending or budget data to analyze for this period. Add some expenses and set budgets to get started!',
   overBudgetWarning: 'Over budget by ${amount}',
+  analyticsRange: 'Analytics period',
+  analyticsRange_month: 'Month',
+  analyticsRange_thisWeek: 'This week',
+  analyticsRange_last30Days: 'Last 30 days',
+  analyticsRange_thisQuarter: 'This quarter',
+  analyticsRange_yearToDate: 'Year to date',
+  analyticsRange_custom: 'Custom',
+  analyticsTotal: 'Total',
+  showGroupCategories: 'Show ${count} categories',
+  hideGroupCategories: 'Hide ${count} categories',
+  categoryBreakdown: 'Spending Breakdown',
+  categoryTransactions: '${category} transactions',
+  uncategorisedSlice: 'Uncategorised / deleted category',
+  incomeSources: 'Income Sources',
+  uncategorisedIncome: 'No category',
+  close: 'Close',
+  trends: 'Trends',
+  trendMonths: 'Months shown',
+  trendMonthCount: '${count} months',
+  trendChartType: 'Chart type',
+  trendIncomeVsExpenses: 'Income vs. Expenses',
+  trendByCategory: 'Spending by Category',
+  trendBudget: 'Budget',
+  trendNoExpenses: 'No expenses in these months yet.',
+  chartLine: 'Line',
+  chartBar: 'Bars',
+  chartArea: 'Area',
 
   // History
   totalBalance: 'Total Balance',
-  noHistory: 'No transaction history from previous months found.',
+  noHistory: 'No transaction history found.',
   historyPlaceholderTitle: "This is what your history will look like!",
-  historyPlaceholderDesc: "Once you have transactions from previous months, they'll show up here, neatly organized.",
+  historyPlaceholderDesc: "Once you add transactions, they'll show up here month by month, neatly organized.",
   lastMonthExample: "Last Month Example",
   placeholder_rent: "Rent Payment",
   placeholder_salary: "Monthly Salary",
@@ -56,16 +86,91 @@ export const en = {
   sortByDate: 'Sort by date',
   sortNewestFirst: 'Newest first',
   sortOldestFirst: 'Oldest first',
+  searchTransactions: 'Search Transactions',
+  backToHistory: 'Back to History',
+  searchPlaceholder: 'Search descriptions…',
+  clearSearch: 'Clear search',
+  showFilters: 'Show filters',
+  hideFilters: 'Hide filters',
+  clearFilters: 'Clear filters',
+  searchTypeAll: 'All',
+  allCategories: 'All categories',
+  event: 'Event',
+  allTransactions: 'All transactions',
+  noEvent: 'Not in an event',
+  searchMinAmount: 'Minimum amount',
+  searchMaxAmount: 'Maximum amount',
+  searchResultsCount: '${count} matching transactions',
+  noSearchResults: 'No matching transactions',
+  noSearchResultsDesc: 'Try other words or loosen the filters.',
+  select: 'Select',
+  done: 'Done',
+  selectAll: 'Select all',
+  deselectAll: 'Deselect all',
+  selectedCount: '${count} selected',
+  bulk_category: 'Change category',
+  bulk_event: 'Move to event',
+  bulk_shiftDate: 'Shift date',
+  bulk_type: 'Change type',
+  bulk_delete: 'Delete',
+  bulkRemoveFromEvent: 'Remove from event',
+  bulkShiftDays: 'Days to shift by (negative moves earlier)',
+  bulkChangeSummary: '${count} transactions will change',
+  bulkDeleteSummary: '${count} transactions will be deleted',
+  bulkSkipped: "${count} of the selected transactions don't apply and will be left as they are.",
+  bulkApply: 'Apply',
 
   // Settings
   budgetSettings: 'Monthly Budget Settings',
-  budgetSettingsDesc: 'Set your spending limits for each category for the current month.',
+  budgetSettingsDesc: 'Set your spending limits for each category for the selected month.',
+  rolloverToggle: 'Roll over unspent or overspent amounts into the next month',
+  carriedOver: '${amount} carried over',
+  copyBudgetsFrom: 'Copy budgets from ${month}',
+  autoCopyBudgets: "Start each new month with the previous month's budgets",
+  budgetPlusCarried: 'Budget ${budget}, ${carried} carried over',
+
+  // Budget Templates and Planner
+  budgetPlanner: 'Budget Planner',
+  openBudgetPlanner: 'Plan Months Ahead',
+  plannerShowActual: 'Show actual spending',
+  plannerPlanned: 'Planned',
+  plannerActual: 'Actual',
+  plannerDiscard: 'Discard Changes',
+  budgetTemplates: 'Budget Templates',
+  budgetTemplatesDesc: 'Save sets of budgets, like a normal month or a holiday month, and apply them to any month.',
+  noTemplates: 'No templates yet.',
+  addTemplate: 'Add Template',
+  editTemplate: 'Edit Template',
+  deleteTemplate: 'Delete Template',
+  templateName: 'Template name',
+  templateNamePlaceholder: 'e.g., Holiday month',
+  templateSummary: '${count} categories · ${total}',
+  applyTemplate: 'Apply template',
+  applyTemplateTo: 'Apply a template to ${month}',
+  saveAsTemplate: 'Save as Template',
+  errorTemplateName: 'Please enter a name for the template.',
+  templateSavedSuccess: 'Template saved!',
+  confirmDeleteTemplateDesc: 'Are you sure you want to delete this template? Months it was applied to keep their budgets.',
+
+  // Percentage of Income Budgets
+  percentOfIncomeToggle: 'Budget as a percentage of income',
+  percentOfIncomeAmount: '≈ ${amount}',
+  percentOfIncomeNoIncome: 'No income recorded this month yet.',
+  incomeSplit: 'Split by Income',
+  incomeSplitDesc: 'Divide this month\'s income between needs, wants and savings, and split each group evenly across its categories.',
+  incomeSplitGroup_needs: 'Needs',
+  incomeSplitGroup_wants: 'Wants',
+  incomeSplitGroup_savings: 'Savings',
+  incomeSplitGroup_none: 'Not included',
+  incomeSplitTotalError: 'The percentages add up to ${total}%; they can\'t go over 100%.',
+  incomeSplitUnassigned: '${percent}% of income (${amount}) is left over, e.g., for savings.',
+  incomeSplitApply: 'Apply Split',
   totalIncome: 'Total Income',
   totalBudgeted: 'Total Budgeted',
   manageCategories: 'Manage Categories',
   manageCategoriesDesc: 'Add, edit, or delete your spending categories.',
   dataManagement: 'Data Management',
-  dataManagementDesc: 'Backup your data to a file or import it from a previous backup.',
+  dataManagementDesc: 'Backup your data to a file, import it from a previous backup, or import transactions from a bank statement.',
   notifications: 'Notifications',
   notificationsDesc: 'Set your preferences for reminders and alerts.',
   notificationFrequency: 'Notification Frequency',
@@ -78,13 +183,122 @@ export const en = {
   selectLanguage: 'Select Language',
   loveMessage: 'Made with ❤️ for better budgeting',
 
+  // Currency
+  currency: 'Currency',
+  currencySettings: 'Currency',
+  currencySettingsDesc: 'Choose the currency your totals and budgets are shown in, and keep your exchange rates up to date.',
+  baseCurrency: 'Base Currency',
+  baseCurrencyHint: 'Budgets, budget templates and rule amounts are converted to the new currency at your exchange rates.',
+  baseCurrencyChanged: 'Base currency changed to ${currency}',
+  exchangeRates: 'Exchange Rates',
+  exchangeRateLabel: '1 ${currency} =',
+  saveRates: 'Save Rates',
+  ratesSavedSuccess: 'Exchange rates saved successfully!',
+
+  // Recurring
+  recurring: 'Recurring',
+  recurringTransactions: 'Recurring Transactions',
+  recurringTransactionsDesc: 'Automatically post rent, salary, subscriptions and other repeating transactions.',
+  manageRecurring: 'Manage Recurring Transactions',
+  addRecurring: 'New Recurring',
+  editRecurring: 'Edit Recurring Transaction',
+  deleteRecurring: 'Delete Recurring Transaction',
+  addRecurringSuccess: 'Recurring transaction added successfully!',
+  editRecurringSuccess: 'Recurring transaction updated successfully!',
+  confirmDeleteRecurringDesc: 'Are you sure you want to delete this recurring transaction? Transactions already posted will be kept.',
+  noRecurring: 'No recurring transactions yet',
+  createFirstRecurring: 'Add your rent, salary or subscriptions once and they will be posted for you.',
+  backToSettings: 'Back to Settings',
+  frequency: 'Frequency',
+  freq_yearly: 'Yearly',
+  dayOfMonth: 'Day of Month',
+  startDate: 'Start Date',
+  endDate: 'End Date (optional)',
+  nextOccurrence: 'Next: ${date}',
+  recurringEnded: 'Ended',
+  errorEndDate: 'The end date must be on or after the start date.',
+  errorDayOfMonth: 'Please enter a day of the month between 1 and 31.',
+
+  // Reminders
+  reminderTitle: 'Your budget digest',
+  reminderSpent: 'You have spent ${spent} so far this month.',
+  reminderSpentOfBudget: 'You have spent ${spent} of your ${budget} budget so far this month.',
+  reminderOverBudget: 'Over budget: ${categories}.',
+  reminderLogToday: "Don't forget to log today's expenses!",
+  notificationsBlockedHint: 'Notifications are blocked for this site, so reminders will appear inside the app instead.',
+  remindersWhileOpenHint: 'Reminders are only sent while Meme Budget is open in a tab. A reminder that fell due while it was closed arrives the next time you open it.',
+  dismiss: 'Dismiss',
+  storage_unavailable: "Your browser's storage is unavailable or full. Your data will not be saved across sessions.",
+  storage_corrupted: 'Your saved data for "${key}" could not be read and may be corrupted. Default values are used instead.',
+  storage_saveFailed: "Your changes could not be saved. Your browser's storage might be full; please free some space or check your browser settings.",
+  undo: 'Undo',
+  redo: 'Redo',
+  undoneChange: 'Undone: ${change}',
+  undo_addTransaction: 'Transaction added',
+  undo_importTransactions: 'Transactions imported',
+  undo_updateTransaction: 'Transaction updated',
+  undo_deleteTransaction: 'Transaction deleted',
+  undo_bulkUpdate: 'Transactions updated',
+  undo_bulkDelete: 'Transactions deleted',
+  undo_saveEvent: 'Event saved',
+  undo_deleteEvent: 'Event deleted',
+  undo_saveRecurring: 'Recurring transaction saved',
+  undo_deleteRecurring: 'Recurring transaction deleted',
+  undo_saveTemplate: 'Budget template saved',
+  undo_deleteTemplate: 'Budget template deleted',
+  undo_budgets: 'Budgets updated',
+  undo_baseCurrency: 'Base currency changed',
+  undo_restoreBackup: 'Backup imported',
+  undo_saveCategory: 'Category saved',
+  undo_deleteCategory: 'Category deleted',
+  undo_saveRule: 'Rule saved',
+  undo_deleteRule: 'Rule deleted',
+  undo_moveRule: 'Rules reordered',
+  undo_applyRules: 'Rules applied',
+
+  // Category Rules
+  categoryRules: 'Auto-categorisation Rules',
+  categoryRulesDesc: 'Pick categories automatically from the description, amount and type. Rules are checked from top to bottom and the first match wins.',
+  addRule: 'Add Rule',
+  editRule: 'Edit Rule',
+  deleteRule: 'Delete Rule',
+  moveRuleUp: 'Move rule up',
+  moveRuleDown: 'Move rule down',
+  ruleAppliesTo: 'Applies to',
+  ruleType_expense: 'Expenses',
+  ruleType_income: 'Income',
+  ruleType_any: 'Both',
+  ruleAnyTypeHint: 'Rules for both types file transactions under expense categories and only apply to expenses. Use an income rule to file income.',
+  ruleDescriptionContains: 'Description contains',
+  ruleMinAmount: 'Minimum amount (${currency})',
+  ruleMaxAmount: 'Maximum amount (${currency})',
+  ruleSummaryContains: 'Contains "${text}"',
+  ruleSummaryMin: 'From ${amount}',
+  ruleSummaryMax: 'Up to ${amount}',
+  errorRuleCondition: 'Please enter some text or an amount range for the rule to match.',
+  errorRuleAmountRange: 'Please enter a valid amount range: positive amounts, with the minimum not above the maximum.',
+  confirmDeleteRuleDesc: 'Are you sure you want to delete this rule? Transactions it has already categorised will keep their category.',
+  applyRules: 'Apply Rules to Uncategorised Transactions',
+  applyRulesConfirm: '${count} uncategorised or "Other" transactions match a rule. Categorise them now?',
+  applyRulesNone: 'No uncategorised transactions match your rules.',
+  applyRulesSuccess: '${count} transactions categorised!',
+  suggestedCategory: 'Suggested: ${category}',
+
+  // Period Selector
+  previousMonth: 'Previous month',
+  nextMonth: 'Next month',
+  backToThisMonth: 'Back to this month',
+  selectMonth: 'Select month',
+  previousYear: 'Previous year',
+  nextYear: 'Next year',
+
   // Events
   eventName: 'Event Name',
   eventBudget: 'Event Budget',
   addEventSuccess: 'Event added successfully!',
   editEventSuccess: 'Event updated successfully!',
   deleteEventSuccess: 'Event and its transactions have been deleted.',
-  confirmDeleteEventDesc: 'Are you sure you want to delete this event? All associated transactions will also be deleted. This action cannot be undone.',
+  confirmDeleteEventDesc: 'Are you sure you want to delete this event? All associated transactions will also be deleted.',
   noEvents: 'No special events planned?',
   createFirstEvent: 'Create one for a vacation, party, or any savings goal!',
   backToEvents: 'Back to Events',
@@ -106,6 +320,13 @@ export const en = {
   categoryName: 'Category Name',
   categoryColor: 'Category Color',
   categoryIcon: 'Category Icon',
+  parentCategory: 'Group',
+  noParentCategory: 'None (top-level category)',
+  parentCategoryHasChildren: 'This category has categories nested under it, so it can\'t be nested itself.',
+  groupBudgetHint: 'Group budget, covering its categories',
+  categoryKind: 'Used for',
+  incomeCategories: 'Income Categories',
+  addIncomeCategory: 'Add Income Category',
   addCategorySuccess: 'Category added successfully!',
   editCategorySuccess: 'Category updated successfully!',
   deleteCategorySuccess: 'Category deleted successfully!',
@@ -114,20 +335,103 @@ export const en = {
 
   // Modals (Transaction)
   newTransaction: 'New Transaction',
+  editTransaction: 'Edit Transaction',
   type: 'Type',
   amount: 'Amount',
   description: 'Description',
   date: 'Date',
   category: 'Category',
   selectCategory: 'Select a category',
+  noIncomeCategory: 'No category',
   errorAmount: 'Please enter a valid, positive amount.',
   errorDescription: 'Please enter a description.',
   errorCategory: 'Please select a category for the expense.',
+  errorSplitLines: 'Each split line needs a category and an amount greater than zero, and there must be at least two lines.',
+  errorSplitTotal: 'The split lines add up to ${total}, but the expense is ${amount}.',
+  splitTransaction: 'Split across categories',
+  unsplitTransaction: 'Use a single category',
+  addSplitLine: 'Add line',
+  removeSplitLine: 'Remove line',
+  splitRemaining: '${amount} left to split',
+  splitOver: '${amount} over the total',
+  splitSummary: 'Split into ${count}',
+  showSplitLines: 'Show split lines',
+  hideSplitLines: 'Hide split lines',
 
   // Data Management
-  importConfirm: 'This will overwrite all your current data. Are you sure you want to proceed?',
+  importConfirm: 'This will overwrite all your current data and settings with the backup.',
+  importPreviewTitle: 'Review Import',
+  importMode: 'Import Mode',
+  importModeReplace: 'Replace',
+  importModeMerge: 'Merge',
+  importMergeDesc: 'Your current data and settings are kept. Records from the backup are added, and records with the same ID are updated.',
+  importAdded: 'Added',
+  importChanged: 'Changed',
+  importRemoved: 'Removed',
+  importDroppedTitle: '${count} invalid records will be skipped',
+  importDroppedMore: '...and ${count} more',
+  importEntity_transactions: 'Transactions',
+  importEntity_events: 'Events',
+  importEntity_categories: 'Categories',
+  importEntity_budgets: 'Budgets',
+  importEntity_budgetTemplates: 'Budget templates',
+  importEntity_recurringRules: 'Recurring',
+  importEntity_categoryRules: 'Category rules',
+  importEntity_settings: 'Settings',
+  importReason_missingId: 'missing ID',
+  importReason_duplicateId: 'duplicate ID',
+  importReason_invalidType: 'invalid type',
+  importReason_invalidAmount: 'amount must be a positive number',
+  importReason_invalidDate: 'date must be YYYY-MM-DD',
+  importReason_missingText: 'missing name or description',
+  importReason_unknownCategory: 'category not found',
+  importReason_unknownEvent: 'event not found',
+  importReason_invalidFrequency: 'invalid frequency',
+  importReason_invalidMonth: 'invalid month',
+  importReason_invalidCurrency: 'unsupported currency',
+  importReason_invalidSetting: 'invalid value',
   importSuccess: 'Data imported successfully!',
   importErrorInvalidFile: 'Import failed. The file is invalid or corrupted.',
+  importErrorNewerVersion: 'Import failed. This backup was made by a newer version of the app.',
+  importCsv: 'Import Bank Statement (CSV)',
+  exportTransactions: 'Export Transactions (CSV / Excel)',
+  exportFrom: 'From',
+  exportTo: 'To',
+  exportFormat: 'File format',
+  exportPreset_thisMonth: 'This month',
+  exportPreset_lastMonth: 'Last month',
+  exportPreset_thisYear: 'This year',
+  exportIncludeEvents: 'Include event expenses',
+  exportCount: '${count} transactions in this range',
+  exportSheetName: 'Transactions',
+  exportColumnEvent: 'Event',
+  exportColumnAmountIn: 'Amount (${currency})',
+  csvImportTitle: 'Import Bank Statement',
+  csvMappingDesc: 'Choose which column holds each field, and how dates and amounts are written in the file.',
+  csvHasHeader: 'The first row contains column names',
+  csvColumn: 'Column ${number}',
+  csvSelectColumn: 'Select a column',
+  csvTypeFromSign: 'Use the amount sign',
+  csvField_date: 'Date',
+  csvField_description: 'Description',
+  csvField_amount: 'Amount',
+  csvField_type: 'Type',
+  csvDateFormat: 'Date format',
+  csvDecimalSeparator: 'Decimal separator',
+  csvDecimalDot: 'Dot (1,234.56)',
+  csvDecimalComma: 'Comma (1.234,56)',
+  csvErrorMapping: 'Please choose the date, description and amount columns.',
+  csvReviewDesc: 'Review the transactions to import. Rows that match an existing transaction are marked as duplicates and left unselected.',
+  csvCategoryForSelected: 'Set category for all selected expenses',
+  csvDuplicate: 'Duplicate',
+  csvInvalidRows: '${count} rows could not be read and will be skipped',
+  csvRowError: 'Row ${line}: ${reason}',
+  csvError_invalidAmount: 'invalid amount',
+  csvError_invalidDate: 'invalid date',
+  csvError_missingDescription: 'missing description',
+  csvImportCount: 'Import ${count} transactions',
+  csvImportSuccess: '${count} transactions imported successfully!',
+  csvErrorEmpty: 'The file has no rows to import.',
   budgetSavedSuccess: 'Budgets saved successfully!',
 
   // Default Categories
@@ -140,6 +444,11 @@ export const en = {
   category_food: 'Food & Dining',
   category_utilities: 'Utilities',
   category_other: 'Other',
+  category_salary: 'Salary',
+  category_freelance: 'Freelance',
+  category_gifts: 'Gifts',
+  category_investments: 'Investments',
+  category_other_income: 'Other Income',
 };
 
 export type TranslationKey = keyof typeof en;
\ No newline at end of file
@@ -6,9 +6,12 @@ import { en } from './en';
 
 export const es: typeof en = {
   // Common
-  currencySymbol: '₡',
   save: 'Guardar',
   cancel: 'Cancelar',
+  confirm: 'Confirmar',
+  delete: 'Eliminar',
+  back: 'Atrás',
+  next: 'Siguiente',
 
   // Navigation
   dashboard: 'Panel',
@@ -43,14 +46,41 @@ export const es: typeof en = {
   // Analytics
   spendingAnalytics: 'Análisis de Gastos',
   spendingVsBudget: 'Gastos vs. Presupuesto',
-  noSpendingData: 'No hay datos de gastos o presupuesto para analizar este mes. ¡Añade gastos y fija presupuestos para empezar!',
+  noSpendingData: 'No hay datos de gastos o presupuesto para analizar en este periodo. ¡Añade gastos y fija presupuestos para empezar!',
   overBudgetWarning: 'Excedido por ${amount}',
+  analyticsRange: 'Periodo de análisis',
+  analyticsRange_month: 'Mes',
+  analyticsRange_thisWeek: 'Esta semana',
+  analyticsRange_last30Days: 'Últimos 30 días',
+  analyticsRange_thisQuarter: 'Este trimestre',
+  analyticsRange_yearToDate: 'En lo que va del año',
+  analyticsRange_custom: 'Personalizado',
+  analyticsTotal: 'Total',
+  showGroupCategories: 'Mostrar ${count} categorías',
+  hideGroupCategories: 'Ocultar ${count} categorías',
+  categoryBreakdown: 'Desglose de Gastos',
+  categoryTransactions: 'Transacciones de ${category}',
+  uncategorisedSlice: 'Sin categoría / categoría eliminada',
+  incomeSources: 'Fuentes de Ingresos',
+  uncategorisedIncome: 'Sin categoría',
+  close: 'Cerrar',
+  trends: 'Tendencias',
+  trendMonths: 'Meses mostrados',
+  trendMonthCount: '${count} meses',
+  trendChartType: 'Tipo de gráfico',
+  trendIncomeVsExpenses: 'Ingresos vs. Gastos',
+  trendByCategory: 'Gastos por Categoría',
+  trendBudget: 'Presupuesto',
+  trendNoExpenses: 'Aún no hay gastos en estos meses.',
+  chartLine: 'Líneas',
+  chartBar: 'Barras',
+  chartArea: 'Área',
 
   // History
   totalBalance: 'Saldo Total',
-  noHistory: 'No se encontró historial de transacciones de meses anteriores.',
+  noHistory: 'No se encontró historial de transacciones.',
   historyPlaceholderTitle: "¡Así se verá tu historial!",
-  historyPlaceholderDesc: "Cuando tengas transacciones de meses anteriores, aparecerán aquí, organizadas y listas para consultar.",
+  historyPlaceholderDesc: "Cuando agregues transacciones, aparecerán aquí mes a mes, organizadas y listas para consultar.",
   lastMonthExample: "Ejemplo del Mes Pasado",
   placeholder_rent: "Pago de Alquiler",
   placeholder_salary: "Salario Mensual",
@@ -58,16 +88,91 @@ export const es: typeof en = {
   sortByDate: 'Ordenar por fecha',
   sortNewestFirst: 'Más recientes',
   sortOldestFirst: 'Más antiguos',
+  searchTransactions: 'Buscar transacciones',
+  backToHistory: 'Volver al historial',
+  searchPlaceholder: 'Buscar en las descripciones…',
+  clearSearch: 'Borrar búsqueda',
+  showFilters: 'Mostrar filtros',
+  hideFilters: 'Ocultar filtros',
+  clearFilters: 'Quitar filtros',
+  searchTypeAll: 'Todas',
+  allCategories: 'Todas las categorías',
+  event: 'Evento',
+  allTransactions: 'Todas las transacciones',
+  noEvent: 'Fuera de eventos',
+  searchMinAmount: 'Importe mínimo',
+  searchMaxAmount: 'Importe máximo',
+  searchResultsCount: '${count} transacciones coinciden',
+  noSearchResults: 'No hay transacciones que coincidan',
+  noSearchResultsDesc: 'Prueba con otras palabras o afloja los filtros.',
+  select: 'Seleccionar',
+  done: 'Listo',
+  selectAll: 'Seleccionar todo',
+  deselectAll: 'Quitar selección',
+  selectedCount: '${count} seleccionadas',
+  bulk_category: 'Cambiar categoría',
+  bulk_event: 'Mover a evento',
+  bulk_shiftDate: 'Mover fecha',
+  bulk_type: 'Cambiar tipo',
+  bulk_delete: 'Eliminar',
+  bulkRemoveFromEvent: 'Sacar del evento',
+  bulkShiftDays: 'Días a mover (negativo para adelantar)',
+  bulkChangeSummary: 'Cambiarán ${count} transacciones',
+  bulkDeleteSummary: 'Se eliminarán ${count} transacciones',
+  bulkSkipped: '${count} de las transacciones seleccionadas no aplican y se quedarán como están.',
+  bulkApply: 'Aplicar',
 
   // Settings
   budgetSettings: 'Ajustes del Presupuesto Mensual',
-  budgetSettingsDesc: 'Establece tus límites de gasto para cada categoría en el mes actual.',
+  budgetSettingsDesc: 'Establece tus límites de gasto para cada categoría en el mes seleccionado.',
+  rolloverToggle: 'Trasladar al mes siguiente lo no gastado o lo gastado de más',
+  carriedOver: '${amount} trasladado',
+  copyBudgetsFrom: 'Copiar presupuestos de ${month}',
+  autoCopyBudgets: 'Empezar cada mes nuevo con los presupuestos del mes anterior',
+  budgetPlusCarried: 'Presupuesto ${budget}, ${carried} trasladado',
+
+  // Budget Templates and Planner
+  budgetPlanner: 'Planificador de Presupuesto',
+  openBudgetPlanner: 'Planificar Meses Futuros',
+  plannerShowActual: 'Mostrar gasto real',
+  plannerPlanned: 'Planificado',
+  plannerActual: 'Real',
+  plannerDiscard: 'Descartar Cambios',
+  budgetTemplates: 'Plantillas de Presupuesto',
+  budgetTemplatesDesc: 'Guarda conjuntos de presupuestos, como un mes normal o un mes de vacaciones, y aplícalos a cualquier mes.',
+  noTemplates: 'Aún no hay plantillas.',
+  addTemplate: 'Añadir Plantilla',
+  editTemplate: 'Editar Plantilla',
+  deleteTemplate: 'Eliminar Plantilla',
+  templateName: 'Nombre de la plantilla',
+  templateNamePlaceholder: 'ej., Mes de vacaciones',
+  templateSummary: '${count} categorías · ${total}',
+  applyTemplate: 'Aplicar plantilla',
+  applyTemplateTo: 'Aplicar una plantilla a ${month}',
+  saveAsTemplate: 'Guardar como Plantilla',
+  errorTemplateName: 'Por favor, introduce un nombre para la plantilla.',
+  templateSavedSuccess: '¡Plantilla guardada!',
+  confirmDeleteTemplateDesc: '¿Seguro que quieres eliminar esta plantilla? Los meses a los que se aplicó conservan sus presupuestos.',
+
+  // Percentage of Income Budgets
+  percentOfIncomeToggle: 'Presupuestar como porcentaje de los ingresos',
+  percentOfIncomeAmount: '≈ ${amount}',
+  percentOfIncomeNoIncome: 'Aún no hay ingresos registrados este mes.',
+  incomeSplit: 'Repartir Ingresos',
+  incomeSplitDesc: 'Divide los ingresos de este mes entre necesidades, gustos y ahorro, y reparte cada grupo por igual entre sus categorías.',
+  incomeSplitGroup_needs: 'Necesidades',
+  incomeSplitGroup_wants: 'Gustos',
+  incomeSplitGroup_savings: 'Ahorro',
+  incomeSplitGroup_none: 'Sin incluir',
+  incomeSplitTotalError: 'Los porcentajes suman ${total}%; no pueden pasar del 100%.',
+  incomeSplitUnassigned: 'Queda un ${percent}% de los ingresos (${amount}), por ejemplo, para ahorrar.',
+  incomeSplitApply: 'Aplicar Reparto',
   totalIncome: 'Ingresos Totales',
   totalBudgeted: 'Total Presupuestado',
   manageCategories: 'Gestionar Categorías',
   manageCategoriesDesc: 'Añade, edita o elimina tus categorías de gastos.',
   dataManagement: 'Gestión de Datos',
-  dataManagementDesc: 'Haz una copia de seguridad de tus datos en un archivo o impórtalos desde una copia anterior.',
+  dataManagementDesc: 'Haz una copia de seguridad de tus datos en un archivo, impórtalos desde una copia anterior o importa transacciones desde un estado de cuenta.',
   notifications: 'Notificaciones',
   notificationsDesc: 'Configura tus preferencias para recordatorios y alertas.',
   notificationFrequency: 'Frecuencia de Notificación',
@@ -80,13 +185,122 @@ export const es: typeof en = {
   selectLanguage: 'Seleccionar Idioma',
   loveMessage: 'Hecho con ❤️ para un mejor presupuesto',
 
+  // Currency
+  currency: 'Moneda',
+  currencySettings: 'Moneda',
+  currencySettingsDesc: 'Elige la moneda en la que se muestran tus totales y presupuestos, y mantén actualizados tus tipos de cambio.',
+  baseCurrency: 'Moneda Base',
+  baseCurrencyHint: 'Los presupuestos, las plantillas de presupuesto y los importes de las reglas se convierten a la nueva moneda con tus tipos de cambio.',
+  baseCurrencyChanged: 'Moneda base cambiada a ${currency}',
+  exchangeRates: 'Tipos de Cambio',
+  exchangeRateLabel: '1 ${currency} =',
+  saveRates: 'Guardar Tipos de Cambio',
+  ratesSavedSuccess: '¡Tipos de cambio guardados con éxito!',
+
+  // Recurring
+  recurring: 'Recurrentes',
+  recurringTransactions: 'Transacciones Recurrentes',
+  recurringTransactionsDesc: 'Registra automáticamente el alquiler, el salario, las suscripciones y otras transacciones que se repiten.',
+  manageRecurring: 'Gestionar Transacciones Recurrentes',
+  addRecurring: 'Nueva Recurrente',
+  editRecurring: 'Editar Transacción Recurrente',
+  deleteRecurring: 'Eliminar Transacción Recurrente',
+  addRecurringSuccess: '¡Transacción recurrente añadida con éxito!',
+  editRecurringSuccess: '¡Transacción recurrente actualizada con éxito!',
+  confirmDeleteRecurringDesc: '¿Seguro que quieres eliminar esta transacción recurrente? Las transacciones ya registradas se conservarán.',
+  noRecurring: 'Aún no hay transacciones recurrentes',
+  createFirstRecurring: 'Añade tu alquiler, salario o suscripciones una vez y se registrarán por ti.',
+  backToSettings: 'Volver a Ajustes',
+  frequency: 'Frecuencia',
+  freq_yearly: 'Anual',
+  dayOfMonth: 'Día del Mes',
+  startDate: 'Fecha de Inicio',
+  endDate: 'Fecha de Fin (opcional)',
+  nextOccurrence: 'Próxima: ${date}',
+  recurringEnded: 'Finalizada',
+  errorEndDate: 'La fecha de fin debe ser igual o posterior a la fecha de inicio.',
+  errorDayOfMonth: 'Introduce un día del mes entre 1 y 31.',
+
+  // Reminders
+  reminderTitle: 'Tu resumen de presupuesto',
+  reminderSpent: 'Llevas gastado ${spent} este mes.',
+  reminderSpentOfBudget: 'Llevas gastado ${spent} de tu presupuesto de ${budget} este mes.',
+  reminderOverBudget: 'Presupuesto excedido: ${categories}.',
+  reminderLogToday: '¡No olvides registrar los gastos de hoy!',
+  notificationsBlockedHint: 'Las notificaciones están bloqueadas para este sitio, así que los recordatorios aparecerán dentro de la aplicación.',
+  remindersWhileOpenHint: 'Los recordatorios solo se envían mientras Meme Budget está abierto en una pestaña. Un recordatorio que venció mientras estaba cerrado llega la próxima vez que lo abras.',
+  dismiss: 'Descartar',
+  storage_unavailable: 'El almacenamiento de tu navegador no está disponible o está lleno. Tus datos no se guardarán entre sesiones.',
+  storage_corrupted: 'No se pudieron leer tus datos guardados de "${key}" y podrían estar dañados. Se usan los valores predeterminados.',
+  storage_saveFailed: 'No se pudieron guardar tus cambios. El almacenamiento de tu navegador podría estar lleno; libera espacio o revisa la configuración del navegador.',
+  undo: 'Deshacer',
+  redo: 'Rehacer',
+  undoneChange: 'Deshecho: ${change}',
+  undo_addTransaction: 'Transacción añadida',
+  undo_importTransactions: 'Transacciones importadas',
+  undo_updateTransaction: 'Transacción actualizada',
+  undo_deleteTransaction: 'Transacción eliminada',
+  undo_bulkUpdate: 'Transacciones actualizadas',
+  undo_bulkDelete: 'Transacciones eliminadas',
+  undo_saveEvent: 'Evento guardado',
+  undo_deleteEvent: 'Evento eliminado',
+  undo_saveRecurring: 'Transacción recurrente guardada',
+  undo_deleteRecurring: 'Transacción recurrente eliminada',
+  undo_saveTemplate: 'Plantilla de presupuesto guardada',
+  undo_deleteTemplate: 'Plantilla de presupuesto eliminada',
+  undo_budgets: 'Presupuestos actualizados',
+  undo_baseCurrency: 'Moneda base cambiada',
+  undo_restoreBackup: 'Copia de seguridad importada',
+  undo_saveCategory: 'Categoría guardada',
+  undo_deleteCategory: 'Categoría eliminada',
+  undo_saveRule: 'Regla guardada',
+  undo_deleteRule: 'Regla eliminada',
+  undo_moveRule: 'Reglas reordenadas',
+  undo_applyRules: 'Reglas aplicadas',
+
+  // Category Rules
+  categoryRules: 'Reglas de Categorización',
+  categoryRulesDesc: 'Elige categorías automáticamente según la descripción, el monto y el tipo. Las reglas se revisan de arriba hacia abajo y gana la primera que coincida.',
+  addRule: 'Añadir Regla',
+  editRule: 'Editar Regla',
+  deleteRule: 'Eliminar Regla',
+  moveRuleUp: 'Subir regla',
+  moveRuleDown: 'Bajar regla',
+  ruleAppliesTo: 'Se aplica a',
+  ruleType_expense: 'Gastos',
+  ruleType_income: 'Ingresos',
+  ruleType_any: 'Ambos',
+  ruleAnyTypeHint: 'Las reglas para ambos tipos asignan categorías de gastos y solo se aplican a gastos. Usa una regla de ingresos para clasificar ingresos.',
+  ruleDescriptionContains: 'La descripción contiene',
+  ruleMinAmount: 'Monto mínimo (${currency})',
+  ruleMaxAmount: 'Monto máximo (${currency})',
+  ruleSummaryContains: 'Contiene "${text}"',
+  ruleSummaryMin: 'Desde ${amount}',
+  ruleSummaryMax: 'Hasta ${amount}',
+  errorRuleCondition: 'Por favor, introduce un texto o un rango de montos para que la regla coincida.',
+  errorRuleAmountRange: 'Por favor, introduce un rango de montos válido: montos positivos, con el mínimo no mayor que el máximo.',
+  confirmDeleteRuleDesc: '¿Seguro que quieres eliminar esta regla? Las transacciones que ya categorizó conservarán su categoría.',
+  applyRules: 'Aplicar Reglas a Transacciones sin Categoría',
+  applyRulesConfirm: '${count} transacciones sin categoría o en "Otros" coinciden con una regla. ¿Categorizarlas ahora?',
+  applyRulesNone: 'Ninguna transacción sin categoría coincide con tus reglas.',
+  applyRulesSuccess: '¡${count} transacciones categorizadas!',
+  suggestedCategory: 'Sugerida: ${category}',
+
+  // Period Selector
+  previousMonth: 'Mes anterior',
+  nextMonth: 'Mes siguiente',
+  backToThisMonth: 'Volver a este mes',
+  selectMonth: 'Seleccionar mes',
+  previousYear: 'Año anterior',
+  nextYear: 'Año siguiente',
+
   // Events
   eventName: 'Nombre del Evento',
   eventBudget: 'Presupuesto del Evento',
   addEventSuccess: '¡Evento añadido con éxito!',
   editEventSuccess: '¡Evento actualizado con éxito!',
   deleteEventSuccess: 'El evento y sus transacciones han sido eliminados.',
-  confirmDeleteEventDesc: '¿Estás seguro de que quieres eliminar este evento? Todas las transacciones asociadas también se eliminarán. Esta acción no se puede deshacer.',
+  confirmDeleteEventDesc: '¿Estás seguro de que quieres eliminar este evento? Todas las transacciones asociadas también se eliminarán.',
   noEvents: '¿No hay eventos especiales planeados?',
   createFirstEvent: '¡Crea uno para unas vacaciones, una fiesta o cualquier meta de ahorro!',
   backToEvents: 'Volver a Eventos',
@@ -108,6 +322,13 @@ export const es: typeof en = {
   categoryName: 'Nombre de Categoría',
   categoryColor: 'Color de Categoría',
   categoryIcon: 'Icono de Categoría',
+  parentCategory: 'Grupo',
+  noParentCategory: 'Ninguno (categoría principal)',
+  parentCategoryHasChildren: 'Esta categoría tiene otras categorías dentro, así que no puede anidarse.',
+  groupBudgetHint: 'Presupuesto del grupo, incluye sus categorías',
+  categoryKind: 'Se usa para',
+  incomeCategories: 'Categorías de Ingresos',
+  addIncomeCategory: 'Añadir Categoría de Ingresos',
   addCategorySuccess: '¡Categoría añadida con éxito!',
   editCategorySuccess: '¡Categoría actualizada con éxito!',
   deleteCategorySuccess: '¡Categoría eliminada con éxito!',
@@ -116,20 +337,103 @@ export const es: typeof en = {
 
   // Modals (Transaction)
   newTransaction: 'Nueva Transacción',
+  editTransaction: 'Editar Transacción',
   type: 'Tipo',
   amount: 'Monto',
   description: 'Descripción',
   date: 'Fecha',
   category: 'Categoría',
   selectCategory: 'Selecciona una categoría',
+  noIncomeCategory: 'Sin categoría',
   errorAmount: 'Por favor, introduce un monto válido y positivo.',
   errorDescription: 'Por favor, introduce una descripción.',
   errorCategory: 'Por favor, selecciona una categoría para el gasto.',
+  errorSplitLines: 'Cada línea de la división necesita una categoría y un importe mayor que cero, y debe haber al menos dos líneas.',
+  errorSplitTotal: 'Las líneas de la división suman ${total}, pero el gasto es de ${amount}.',
+  splitTransaction: 'Dividir entre categorías',
+  unsplitTransaction: 'Usar una sola categoría',
+  addSplitLine: 'Añadir línea',
+  removeSplitLine: 'Quitar línea',
+  splitRemaining: 'Quedan ${amount} por dividir',
+  splitOver: '${amount} por encima del total',
+  splitSummary: 'Dividido en ${count}',
+  showSplitLines: 'Mostrar líneas de la división',
+  hideSplitLines: 'Ocultar líneas de la división',
 
   // Data Management
-  importConfirm: 'Esto sobrescribirá todos tus datos actuales. ¿Estás seguro de que quieres continuar?',
+  importConfirm: 'Esto sobrescribirá todos tus datos y ajustes actuales con la copia de seguridad.',
+  importPreviewTitle: 'Revisar Importación',
+  importMode: 'Modo de Importación',
+  importModeReplace: 'Reemplazar',
+  importModeMerge: 'Combinar',
+  importMergeDesc: 'Se conservan tus datos y ajustes actuales. Se añaden los registros de la copia y se actualizan los que tienen el mismo ID.',
+  importAdded: 'Añadidos',
+  importChanged: 'Modificados',
+  importRemoved: 'Eliminados',
+  importDroppedTitle: 'Se omitirán ${count} registros no válidos',
+  importDroppedMore: '...y ${count} más',
+  importEntity_transactions: 'Transacciones',
+  importEntity_events: 'Eventos',
+  importEntity_categories: 'Categorías',
+  importEntity_budgets: 'Presupuestos',
+  importEntity_budgetTemplates: 'Plantillas de presupuesto',
+  importEntity_recurringRules: 'Recurrentes',
+  importEntity_categoryRules: 'Reglas de categoría',
+  importEntity_settings: 'Ajustes',
+  importReason_missingId: 'falta el ID',
+  importReason_duplicateId: 'ID duplicado',
+  importReason_invalidType: 'tipo no válido',
+  importReason_invalidAmount: 'el monto debe ser un número positivo',
+  importReason_invalidDate: 'la fecha debe ser AAAA-MM-DD',
+  importReason_missingText: 'falta el nombre o la descripción',
+  importReason_unknownCategory: 'categoría no encontrada',
+  importReason_unknownEvent: 'evento no encontrado',
+  importReason_invalidFrequency: 'frecuencia no válida',
+  importReason_invalidMonth: 'mes no válido',
+  importReason_invalidCurrency: 'moneda no admitida',
+  importReason_invalidSetting: 'valor no válido',
   importSuccess: '¡Datos importados con éxito!',
   importErrorInvalidFile: 'Error al importar. El archivo es inválido o está corrupto.',
+  importErrorNewerVersion: 'La importación falló. Esta copia de seguridad se creó con una versión más reciente de la aplicación.',
+  importCsv: 'Importar Estado de Cuenta (CSV)',
+  exportTransactions: 'Exportar Transacciones (CSV / Excel)',
+  exportFrom: 'Desde',
+  exportTo: 'Hasta',
+  exportFormat: 'Formato de archivo',
+  exportPreset_thisMonth: 'Este mes',
+  exportPreset_lastMonth: 'Mes pasado',
+  exportPreset_thisYear: 'Este año',
+  exportIncludeEvents: 'Incluir gastos de eventos',
+  exportCount: '${count} transacciones en este rango',
+  exportSheetName: 'Transacciones',
+  exportColumnEvent: 'Evento',
+  exportColumnAmountIn: 'Monto (${currency})',
+  csvImportTitle: 'Importar Estado de Cuenta',
+  csvMappingDesc: 'Elige qué columna contiene cada campo y cómo se escriben las fechas y los montos en el archivo.',
+  csvHasHeader: 'La primera fila contiene los nombres de las columnas',
+  csvColumn: 'Columna ${number}',
+  csvSelectColumn: 'Selecciona una columna',
+  csvTypeFromSign: 'Usar el signo del monto',
+  csvField_date: 'Fecha',
+  csvField_description: 'Descripción',
+  csvField_amount: 'Monto',
+  csvField_type: 'Tipo',
+  csvDateFormat: 'Formato de fecha',
+  csvDecimalSeparator: 'Separador decimal',
+  csvDecimalDot: 'Punto (1,234.56)',
+  csvDecimalComma: 'Coma (1.234,56)',
+  csvErrorMapping: 'Por favor, elige las columnas de fecha, descripción y monto.',
+  csvReviewDesc: 'Revisa las transacciones a importar. Las filas que coinciden con una transacción existente se marcan como duplicadas y quedan sin seleccionar.',
+  csvCategoryForSelected: 'Asignar categoría a todos los gastos seleccionados',
+  csvDuplicate: 'Duplicada',
+  csvInvalidRows: '${count} filas no se pudieron leer y se omitirán',
+  csvRowError: 'Fila ${line}: ${reason}',
+  csvError_invalidAmount: 'monto inválido',
+  csvError_invalidDate: 'fecha inválida',
+  csvError_missingDescription: 'falta la descripción',
+  csvImportCount: 'Importar ${count} transacciones',
+  csvImportSuccess: '¡${count} transacciones importadas con éxito!',
+  csvErrorEmpty: 'El archivo no tiene filas para importar.',
   budgetSavedSuccess: '¡Presupuestos guardados con éxito!',
 
   // Default Categories
@@ -142,4 +446,9 @@ export const es: typeof en = {
   category_food: 'Comida y Restaurantes',
   category_utilities: 'Servicios',
   category_other: 'Otros',
+  category_salary: 'Salario',
+  category_freelance: 'Trabajo Independiente',
+  category_gifts: 'Regalos',
+  category_investments: 'Inversiones',
+  category_other_income: 'Otros Ingresos',
 };
\ No newline at end of file
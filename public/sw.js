@@ -0,0 +1,31 @@
+/**
+ * @file Service worker for Meme Budget.
+ * It displays budget reminder notifications on behalf of the app (required on
+ * platforms where `new Notification()` is not allowed) and brings the app to the
+ * front when a reminder is clicked. It does not cache or intercept any requests.
+ */
+
+self.addEventListener('install', () => {
+  // Activate updated workers immediately instead of waiting for old tabs to close
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+/**
+ * Focuses an open app window when a reminder is clicked, or opens a new one.
+ */
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      if (client) {
+        return client.focus();
+      }
+      return self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
@@ -14,6 +14,11 @@ export interface Event {
   name: string;
   /** The total budget allocated for this event. */
   budget: number;
+  /**
+   * The ISO 4217 code of the currency the budget is expressed in (e.g., "USD").
+   * Missing for events created before multi-currency support, which use `DEFAULT_CURRENCY`.
+   */
+  currency?: string;
 }
 
 /**
@@ -26,18 +31,78 @@ export interface Transaction {
   type: 'income' | 'expense';
   /** The monetary value of the transaction, always a positive number. */
   amount: number;
+  /**
+   * The ISO 4217 code of the currency the amount is expressed in (e.g., "EUR").
+   * Missing for transactions created before multi-currency support, which use `DEFAULT_CURRENCY`.
+   */
+  currency?: string;
   /** A user-provided description of the transaction (e.g., "Monthly Salary", "Coffee"). */
   description: string;
   /** The date of the transaction in ISO format (YYYY-MM-DD). */
   date: string;
-  /** The ID of the category this transaction belongs to. Required for expenses, undefined for income. */
+  /**
+   * The ID of the category this transaction belongs to. Required for expenses, optional for income.
+   * For split expenses, it holds the category of the first line.
+   */
   categoryId?: string;
+  /**
+   * The lines of a split expense: one payment divided across several categories, with
+   * amounts adding up to `amount`. Optional; when set, it has two or more lines.
+   */
+  splits?: TransactionSplit[];
   /** If this transaction is part of an event, this holds the event's ID. */
   eventId?: string;
+  /** If this transaction was posted automatically by a recurring rule, this holds the rule's ID. */
+  recurringRuleId?: string;
 }
 
 /**
- * Represents a spending category that users can assign to their expenses.
+ * A line of a split expense: the part of the payment that belongs to one category.
+ */
+export interface TransactionSplit {
+  /** The ID of the category this part of the payment belongs to. */
+  categoryId: string;
+  /** The amount of this part, in the transaction's currency. Always a positive number. */
+  amount: number;
+}
+
+/**
+ * How often a recurring rule repeats.
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Represents a recurring transaction, such as rent, a salary, or a subscription.
+ * Transactions for each occurrence are posted automatically when the app loads.
+ */
+export interface RecurringRule {
+  /** A unique identifier for the rule, generated using `crypto.randomUUID()`. */
+  id: string;
+  /** The type of the transactions this rule posts. */
+  type: 'income' | 'expense';
+  /** The amount of each posted transaction, always a positive number. */
+  amount: number;
+  /** The ISO 4217 currency code of the amount. */
+  currency?: string;
+  /** The description given to each posted transaction (e.g., "Rent"). */
+  description: string;
+  /** The category of each posted transaction. Required for expenses, undefined for income. */
+  categoryId?: string;
+  /** How often the rule repeats. */
+  frequency: RecurrenceFrequency;
+  /** The date of the first occurrence, in ISO format (YYYY-MM-DD). Also sets the weekday and yearly date. */
+  startDate: string;
+  /** The date after which no more occurrences are posted, in ISO format (YYYY-MM-DD). Optional. */
+  endDate?: string;
+  /** For monthly rules, the day of the month to post on (1-31, clamped to short months). Defaults to the start date's day. */
+  dayOfMonth?: number;
+  /** The date of the most recent occurrence that has been posted. Occurrences up to this date are never posted again. */
+  lastPostedDate?: string;
+}
+
+/**
+ * Represents a category that users can assign to their expenses or, for income
+ * categories, to their income.
  */
 export interface Category {
   /** A unique identifier for the category (e.g., 'groceries', 'transport'). */
@@ -48,6 +113,30 @@ export interface Category {
   color: string;
   /** The string identifier for the icon associated with the category (e.g., 'shopping-cart'). */
   icon: string;
+  /** The ID of the category this one is nested under, forming a group. Optional; groups are one level deep. */
+  parentId?: string;
+  /** Whether the category is for expenses or income. Optional; categories without it are for expenses. */
+  kind?: 'expense' | 'income';
+}
+
+/**
+ * Represents a user-defined rule that picks a category for a transaction automatically,
+ * based on its description, amount and type. A transaction matches a rule when it meets
+ * every condition the rule sets; rules are checked in order and the first match wins.
+ */
+export interface CategoryRule {
+  /** A unique identifier for the rule, generated using `crypto.randomUUID()`. */
+  id: string;
+  /** Text the description must contain, ignoring case and accents (e.g., "uber"). Optional. */
+  descriptionContains?: string;
+  /** The smallest matching amount, in the base currency. Optional. */
+  minAmount?: number;
+  /** The largest matching amount, in the base currency. Optional. */
+  maxAmount?: number;
+  /** The transaction type the rule applies to. */
+  type: 'income' | 'expense' | 'any';
+  /** The ID of the category assigned to matching transactions. */
+  categoryId: string;
 }
 
 /**
@@ -57,8 +146,93 @@ export interface Category {
 export interface Budget {
   /** The ID of the category this budget applies to. */
   categoryId: string;
-  /** The budgeted amount for this category for the month. */
+  /** The budgeted amount for this category for the month, in the user's base currency. */
   amount: number;
+  /**
+   * The budget as a percentage of the month's income (e.g., 30 for 30%). Optional.
+   * When set, `amount` is recalculated from the month's income transactions whenever
+   * they change, and the stored `amount` is only the last calculated value.
+   */
+  percentOfIncome?: number;
+  /**
+   * Whether the amount left over from the previous month (or overspent, if negative)
+   * carries into this month's available budget. Optional, defaults to false.
+   */
+  rollover?: boolean;
+}
+
+/**
+ * Represents a named set of category budgets (e.g., "Normal month", "Holiday month")
+ * that can be applied to any month instead of entering each amount again.
+ */
+export interface BudgetTemplate {
+  /** A unique identifier for the template, generated using `crypto.randomUUID()`. */
+  id: string;
+  /** The name of the template. */
+  name: string;
+  /** The budgets the template sets, including their rollover settings. */
+  budgets: Budget[];
+}
+
+/**
+ * Converts an amount from a currency into the user's base currency. A missing currency
+ * means `DEFAULT_CURRENCY`, as for transactions saved before multi-currency support.
+ */
+export type Converter = (amount: number, from?: string) => number;
+
+/**
+ * How often the user wants to receive budget reminder digests.
+ */
+export type NotificationFrequency = 'monthly' | 'weekly' | 'daily' | 'never';
+
+/**
+ * The available color themes for the application.
+ */
+export type AppTheme = 'light' | 'dark' | 'rose';
+
+/**
+ * The user preferences included in a backup file.
+ */
+export interface BackupSettings {
+  /** The selected color theme. */
+  theme: AppTheme;
+  /** The selected interface language. */
+  language: 'en' | 'es';
+  /** How often budget reminders are sent. */
+  notificationFrequency: NotificationFrequency;
+  /** The currency totals and budgets are expressed in. */
+  baseCurrency: string;
+  /** The exchange-rate table, as units of each currency per 1 USD. */
+  exchangeRates: Record<string, number>;
+  /** Whether a new month starts with a copy of the previous month's budgets. */
+  autoCopyBudgets: boolean;
+}
+
+/**
+ * The structure of an exported backup file, at the current schema version.
+ * Older files are upgraded to this shape by the migration layer in `utils/backup.ts`.
+ */
+export interface BackupData {
+  /** The version of the backup format, incremented whenever its structure changes. */
+  schemaVersion: number;
+  /** When the backup was created, as an ISO timestamp. */
+  exportedAt: string;
+  /** All transactions, including those linked to events. */
+  transactions: Transaction[];
+  /** All events. */
+  events: Event[];
+  /** All categories. */
+  categories: Category[];
+  /** All monthly budgets, keyed by month (YYYY-MM). */
+  budgets: Record<string, Budget[]>;
+  /** All budget templates. */
+  budgetTemplates: BudgetTemplate[];
+  /** All recurring transaction rules. */
+  recurringRules: RecurringRule[];
+  /** All auto-categorisation rules, in the order they are checked. */
+  categoryRules: CategoryRule[];
+  /** The user's preferences. Backups from older versions may not include every setting. */
+  settings: Partial<BackupSettings>;
 }
 
 /**
@@ -70,4 +244,7 @@ export enum View {
   Settings = 'settings',
   History = 'history',
   Events = 'events',
+  Recurring = 'recurring',
+  BudgetPlanner = 'budgetPlanner',
+  Search = 'search',
 }
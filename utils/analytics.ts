@@ -0,0 +1,84 @@
+/**
+ * @file Utility functions for the analytics date ranges.
+ * Analytics can cover a single month or any range of days across several months;
+ * budgets are stored per month, so the budget for a range is the sum of the monthly
+ * budgets it spans, with months only partly covered counted in proportion to their days.
+ */
+
+import { Budget } from '../types';
+import { addDays, getDaysInMonth, parseDateKey, toDateKey } from './date';
+
+/** The preset periods offered by the analytics range selector. */
+export type AnalyticsRangePreset = 'month' | 'thisWeek' | 'last30Days' | 'thisQuarter' | 'yearToDate' | 'custom';
+
+/** The presets in display order. */
+export const ANALYTICS_RANGE_PRESETS: AnalyticsRangePreset[] = ['month', 'thisWeek', 'last30Days', 'thisQuarter', 'yearToDate', 'custom'];
+
+/** A range of dates, both ends included, in YYYY-MM-DD format. */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Gets the date range of a preset period relative to a given day.
+ * Weeks start on Monday and quarters are calendar quarters.
+ * @param {Exclude<AnalyticsRangePreset, 'month' | 'custom'>} preset - The period.
+ * @param {string} today - Today's date in YYYY-MM-DD format.
+ * @returns {DateRange} The first and last dates of the period.
+ */
+export function getPresetDateRange(preset: Exclude<AnalyticsRangePreset, 'month' | 'custom'>, today: string): DateRange {
+  const date = parseDateKey(today);
+  const year = date.getUTCFullYear();
+  switch (preset) {
+    case 'thisWeek': {
+      // getUTCDay() is 0 for Sunday, so Sunday is the last day of the week
+      const monday = addDays(today, -((date.getUTCDay() + 6) % 7));
+      return { from: monday, to: addDays(monday, 6) };
+    }
+    case 'last30Days':
+      return { from: addDays(today, -29), to: today };
+    case 'thisQuarter': {
+      const firstMonth = Math.floor(date.getUTCMonth() / 3) * 3;
+      return {
+        from: toDateKey(new Date(Date.UTC(year, firstMonth, 1))),
+        to: toDateKey(new Date(Date.UTC(year, firstMonth + 3, 0))),
+      };
+    }
+    case 'yearToDate':
+      return { from: `${year}-01-01`, to: today };
+  }
+}
+
+/**
+ * Gets the date range covering a whole month.
+ * @param {string} monthKey - The month in YYYY-MM format.
+ * @returns {DateRange} The first and last dates of the month.
+ */
+export function getMonthDateRange(monthKey: string): DateRange {
+  const [year, month] = monthKey.split('-').map(Number);
+  return { from: `${monthKey}-01`, to: `${monthKey}-${getDaysInMonth(year, month - 1)}` };
+}
+
+/**
+ * Adds up the budget of each category over a date range, summing the budgets of
+ * every month the range touches. Months count in full even when the range covers
+ * only part of them, so a single week shows its whole month's budget.
+ * @param {Record<string, Budget[]>} budgets - The budgets, keyed by month (YYYY-MM).
+ * @param {DateRange} range - The date range.
+ * @returns {Map<string, number>} The budgeted amount for each category ID.
+ */
+export function getBudgetForRange(budgets: Record<string, Budget[]>, range: DateRange): Map<string, number> {
+  const totals = new Map<string, number>();
+  if (!range.from || !range.to || range.to < range.from) return totals;
+
+  let monthStart = `${range.from.slice(0, 7)}-01`;
+  while (monthStart <= range.to) {
+    const monthKey = monthStart.slice(0, 7);
+    (budgets[monthKey] || []).forEach(budget => {
+      totals.set(budget.categoryId, (totals.get(budget.categoryId) || 0) + budget.amount);
+    });
+    monthStart = addDays(getMonthDateRange(monthKey).to, 1);
+  }
+  return totals;
+}
@@ -0,0 +1,474 @@
+/**
+ * @file Utility functions for the versioned backup format.
+ * Every exported file carries a `schemaVersion`. When the format changes, the version
+ * is incremented and a migration is added here, so files exported by any earlier
+ * version of the app can still be imported.
+ */
+
+import { SUPPORTED_CURRENCIES } from '../constants';
+import { BackupData, BackupSettings, TransactionSplit } from '../types';
+import { isSplitBalanced } from './splits';
+
+/** The schema version written by this version of the app. */
+export const BACKUP_SCHEMA_VERSION = 4;
+
+/**
+ * An error thrown when a backup file cannot be imported.
+ * The `reason` distinguishes a damaged file from one made by a newer version of the app.
+ */
+export class BackupError extends Error {
+  constructor(public reason: 'invalid' | 'newerVersion', message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/** A parsed backup file at some schema version, before its structure is checked. */
+type RawBackup = Record<string, unknown>;
+
+/**
+ * Migrations that upgrade a backup from the version given by the key to the next one.
+ * Each receives the parsed file at that version and returns it at the following version.
+ */
+const MIGRATIONS: Record<number, (data: RawBackup) => RawBackup> = {
+  /**
+   * Version 1 files had no `schemaVersion`, and contained only transactions,
+   * categories, budgets and events. Their transactions also excluded every
+   * event-linked transaction, which cannot be recovered.
+   */
+  1: (data) => ({
+    ...data,
+    schemaVersion: 2,
+    exportedAt: data.exportedAt || new Date(0).toISOString(),
+    recurringRules: [],
+    settings: {},
+  }),
+  /** Version 2 files predate auto-categorisation rules. */
+  2: (data) => ({
+    ...data,
+    schemaVersion: 3,
+    categoryRules: [],
+  }),
+  /** Version 3 files predate budget templates. */
+  3: (data) => ({
+    ...data,
+    schemaVersion: 4,
+    budgetTemplates: [],
+  }),
+};
+
+/**
+ * Wraps the application state in the current backup format.
+ * @param {Omit<BackupData, 'schemaVersion' | 'exportedAt'>} data - The state to back up.
+ * @returns {BackupData} The backup, ready to be serialized.
+ */
+export function createBackup(data: Omit<BackupData, 'schemaVersion' | 'exportedAt'>): BackupData {
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+  };
+}
+
+/**
+ * Upgrades a parsed backup file of any supported version to the current format.
+ * @param {unknown} raw - The parsed JSON content of the file.
+ * @returns {BackupData} The backup at the current schema version.
+ * @throws {BackupError} If the file is not a backup, or was made by a newer version of the app.
+ */
+export function migrateBackup(raw: unknown): BackupData {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new BackupError('invalid', 'Backup is not an object');
+  }
+  let data = raw as RawBackup;
+  // Files without a schemaVersion predate versioning and are treated as version 1
+  const fileVersion = data.schemaVersion === undefined ? 1 : data.schemaVersion;
+  if (typeof fileVersion !== 'number' || !Number.isInteger(fileVersion) || fileVersion < 1) {
+    throw new BackupError('invalid', `Invalid schema version: ${String(data.schemaVersion)}`);
+  }
+  let version = fileVersion;
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new BackupError('newerVersion', `Backup schema version ${version} is newer than supported version ${BACKUP_SCHEMA_VERSION}`);
+  }
+
+  while (version < BACKUP_SCHEMA_VERSION) {
+    // Each migration returns the file at the following version
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+
+  if (!Array.isArray(data.transactions) || !Array.isArray(data.categories) || !Array.isArray(data.events) || !Array.isArray(data.recurringRules) || !Array.isArray(data.categoryRules) || !Array.isArray(data.budgetTemplates)
+    || !data.budgets || typeof data.budgets !== 'object' || !data.settings || typeof data.settings !== 'object') {
+    throw new BackupError('invalid', 'Invalid file structure');
+  }
+  return data as unknown as BackupData;
+}
+
+// --- Import Validation, Merging and Preview ---
+
+/** The kinds of records contained in a backup. */
+export type BackupEntity = 'transactions' | 'events' | 'categories' | 'budgets' | 'budgetTemplates' | 'recurringRules' | 'categoryRules';
+
+/** The reasons a record can be rejected during import. */
+export type InvalidRecordReason = 'missingId' | 'duplicateId' | 'invalidType' | 'invalidAmount' | 'invalidDate' | 'missingText' | 'unknownCategory' | 'unknownEvent' | 'invalidFrequency' | 'invalidMonth' | 'invalidCurrency' | 'invalidSetting';
+
+/**
+ * A record that failed validation and will be dropped from the import.
+ */
+export interface DroppedRecord {
+  /** The kind of record, or 'settings' for a preference. */
+  entity: BackupEntity | 'settings';
+  /** A human-readable label for the record, such as its description or name. */
+  label: string;
+  /** Why the record was rejected. */
+  reason: InvalidRecordReason;
+}
+
+/**
+ * How an import is applied: 'replace' overwrites all data with the backup, while
+ * 'merge' keeps existing data and adds or updates records from the backup by ID.
+ */
+export type ImportMode = 'replace' | 'merge';
+
+/** The number of records an import adds, changes and removes for one kind of record. */
+export interface EntityDiff {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+/**
+ * The outcome of preparing an import: the data that will be applied, what
+ * will change compared to the current data, and which records were dropped.
+ */
+export interface ImportPlan {
+  /** The resulting application data once the import is applied. */
+  result: BackupData;
+  /** The changes per kind of record, compared to the current data. */
+  diff: Record<BackupEntity, EntityDiff>;
+  /** The records from the file that failed validation. */
+  dropped: DroppedRecord[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+const LANGUAGES = ['en', 'es'];
+const THEMES = ['light', 'dark', 'rose'];
+const NOTIFICATION_FREQUENCIES = ['monthly', 'weekly', 'daily', 'never'];
+
+/**
+ * Checks that a value is a real calendar date in YYYY-MM-DD format.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a valid date key.
+ */
+const isValidDate = (value: unknown): boolean => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(value + 'T00:00:00Z');
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/** Checks that a value is a finite number greater than zero. */
+const isPositiveAmount = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+/** Checks that a value is a non-empty string. */
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/** A record from a backup file, before its fields are checked. */
+type RawRecord = Record<string, unknown>;
+
+/** Checks that a value is an object whose fields can be checked. */
+const isRawRecord = (value: unknown): value is RawRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Checks that a value is one of the currency codes the app supports. */
+const isSupportedCurrency = (value: unknown): value is string => typeof value === 'string' && SUPPORTED_CURRENCIES.includes(value);
+
+/**
+ * Checks the currency of a transaction, event or recurring rule. A missing currency
+ * is allowed, as records saved before multi-currency support have none.
+ */
+const checkCurrency = (record: RawRecord): InvalidRecordReason | null =>
+  record.currency === undefined || isSupportedCurrency(record.currency) ? null : 'invalidCurrency';
+
+/** Checks that a value is one of the given strings. */
+const isOneOf = (value: unknown, allowed: string[]): boolean => typeof value === 'string' && allowed.includes(value);
+
+/**
+ * Keeps the preferences of a backup that hold allowed values, and records the rest.
+ * Exchange rates are checked one by one, so a single bad rate doesn't discard the table.
+ */
+const validateSettings = (settings: Partial<BackupSettings>, dropped: DroppedRecord[]): Partial<BackupSettings> => {
+  const raw: RawRecord = settings;
+  const valid: Partial<BackupSettings> = {};
+  const drop = (label: string) => dropped.push({ entity: 'settings', label, reason: 'invalidSetting' });
+  const check = <K extends keyof BackupSettings>(key: K, isValid: (value: unknown) => boolean) => {
+    if (raw[key] === undefined) return;
+    if (isValid(raw[key])) {
+      valid[key] = raw[key] as BackupSettings[K];
+    } else {
+      drop(key);
+    }
+  };
+
+  check('theme', value => isOneOf(value, THEMES));
+  check('language', value => isOneOf(value, LANGUAGES));
+  check('notificationFrequency', value => isOneOf(value, NOTIFICATION_FREQUENCIES));
+  check('baseCurrency', isSupportedCurrency);
+  check('autoCopyBudgets', value => typeof value === 'boolean');
+
+  if (raw.exchangeRates !== undefined) {
+    if (!isRawRecord(raw.exchangeRates)) {
+      drop('exchangeRates');
+    } else {
+      const rates: Record<string, number> = {};
+      Object.entries(raw.exchangeRates).forEach(([code, rate]) => {
+        if (isSupportedCurrency(code) && isPositiveAmount(rate)) {
+          rates[code] = rate;
+        } else {
+          drop(`exchangeRates · ${code}`);
+        }
+      });
+      valid.exchangeRates = rates;
+    }
+  }
+  return valid;
+};
+
+/** Checks that a value is the ID of one of the given records. */
+const isKnownId = (value: unknown, ids: Set<string>): boolean => typeof value === 'string' && ids.has(value);
+
+/**
+ * Filters a list of records, keeping those that pass `validate` and recording the rest.
+ * Records without an ID, or repeating an ID already seen in the file, are always dropped.
+ */
+const filterValid = <T extends { id: string }>(
+  records: unknown[],
+  entity: BackupEntity,
+  getLabel: (record: RawRecord) => unknown,
+  validate: (record: RawRecord) => InvalidRecordReason | null,
+  dropped: DroppedRecord[],
+): T[] => {
+  const seenIds = new Set<string>();
+  const valid: T[] = [];
+  /** Records a rejected record. */
+  const drop = (record: unknown, reason: InvalidRecordReason) => {
+    const label = (isRawRecord(record) && getLabel(record)) || '?';
+    dropped.push({ entity, label: String(label), reason });
+  };
+  records.forEach(record => {
+    if (!isRawRecord(record) || !isNonEmptyString(record.id)) {
+      drop(record, 'missingId');
+      return;
+    }
+    const reason = seenIds.has(record.id) ? 'duplicateId' : validate(record);
+    if (reason) {
+      drop(record, reason);
+      return;
+    }
+    seenIds.add(record.id);
+    // The record passed validation, so it has the shape of T
+    valid.push(record as unknown as T);
+  });
+  return valid;
+};
+
+/**
+ * Validates every record and preference of a backup against the shapes defined in `types.ts`.
+ * Categories and events referenced by transactions, budgets and rules must exist
+ * among the valid records of the file, or in `extraCategoryIds`/`extraEventIds`
+ * (the current data, when merging).
+ *
+ * @param {BackupData} data - The migrated backup.
+ * @param {Set<string>} extraCategoryIds - Additional category IDs that references may resolve to.
+ * @param {Set<string>} extraEventIds - Additional event IDs that references may resolve to.
+ * @returns The backup reduced to its valid records, and the records that were dropped.
+ */
+export function validateBackup(data: BackupData, extraCategoryIds: Set<string>, extraEventIds: Set<string>): { data: BackupData; dropped: DroppedRecord[] } {
+  const dropped: DroppedRecord[] = [];
+
+  // Parents may be any category of the file, or of the current data when merging
+  const parentIds = new Set([...extraCategoryIds, ...data.categories.map(c => c?.id)]);
+  const categories = filterValid<BackupData['categories'][number]>(data.categories, 'categories', c => c.name, c =>
+    !isNonEmptyString(c.name) || typeof c.color !== 'string' || typeof c.icon !== 'string' ? 'missingText'
+      : c.kind !== undefined && c.kind !== 'expense' && c.kind !== 'income' ? 'invalidType'
+      : c.parentId !== undefined && (c.parentId === c.id || !isKnownId(c.parentId, parentIds)) ? 'unknownCategory'
+      : null, dropped);
+  const categoryIds = new Set([...extraCategoryIds, ...categories.map(c => c.id)]);
+
+  const events = filterValid<BackupData['events'][number]>(data.events, 'events', e => e.name, e =>
+    !isNonEmptyString(e.name) ? 'missingText' : !isPositiveAmount(e.budget) ? 'invalidAmount' : checkCurrency(e), dropped);
+  const eventIds = new Set([...extraEventIds, ...events.map(e => e.id)]);
+
+  /** Checks the category reference of a transaction or rule. Expenses must have one. */
+  const checkCategory = (record: RawRecord): InvalidRecordReason | null => {
+    if (record.categoryId !== undefined && record.categoryId !== null && !isKnownId(record.categoryId, categoryIds)) return 'unknownCategory';
+    if (record.type === 'expense' && !record.categoryId) return 'unknownCategory';
+    return null;
+  };
+
+  const transactions = filterValid<BackupData['transactions'][number]>(data.transactions, 'transactions', tr => tr.description || tr.id, tr => {
+    if (tr.type !== 'income' && tr.type !== 'expense') return 'invalidType';
+    if (!isPositiveAmount(tr.amount)) return 'invalidAmount';
+    if (checkCurrency(tr)) return 'invalidCurrency';
+    if (!isValidDate(tr.date)) return 'invalidDate';
+    if (typeof tr.description !== 'string') return 'missingText';
+    if (tr.eventId && !isKnownId(tr.eventId, eventIds)) return 'unknownEvent';
+    if (tr.splits !== undefined) {
+      // Only expenses are split, into two or more lines adding up to the amount
+      if (tr.type !== 'expense' || !Array.isArray(tr.splits) || tr.splits.length < 2) return 'invalidType';
+      const splits: unknown[] = tr.splits;
+      if (splits.some(split => !isRawRecord(split) || !isKnownId(split.categoryId, categoryIds))) return 'unknownCategory';
+      if (splits.some(split => !isRawRecord(split) || !isPositiveAmount(split.amount))) return 'invalidAmount';
+      if (!isSplitBalanced(tr.amount, splits as TransactionSplit[])) return 'invalidAmount';
+    }
+    return checkCategory(tr);
+  }, dropped);
+
+  const recurringRules = filterValid<BackupData['recurringRules'][number]>(data.recurringRules, 'recurringRules', r => r.description || r.id, r => {
+    if (r.type !== 'income' && r.type !== 'expense') return 'invalidType';
+    if (!isPositiveAmount(r.amount)) return 'invalidAmount';
+    if (checkCurrency(r)) return 'invalidCurrency';
+    if (typeof r.frequency !== 'string' || !FREQUENCIES.includes(r.frequency)) return 'invalidFrequency';
+    if (!isValidDate(r.startDate) || (r.endDate && !isValidDate(r.endDate))) return 'invalidDate';
+    if (!isNonEmptyString(r.description)) return 'missingText';
+    return checkCategory(r);
+  }, dropped);
+
+  const categoryRules = filterValid<BackupData['categoryRules'][number]>(data.categoryRules, 'categoryRules', r => r.descriptionContains || r.id, r => {
+    if (r.type !== 'income' && r.type !== 'expense' && r.type !== 'any') return 'invalidType';
+    if ([r.minAmount, r.maxAmount].some(amount => amount !== undefined && (typeof amount !== 'number' || !isFinite(amount) || amount < 0))) return 'invalidAmount';
+    if (r.descriptionContains !== undefined && typeof r.descriptionContains !== 'string') return 'missingText';
+    return isKnownId(r.categoryId, categoryIds) ? null : 'unknownCategory';
+  }, dropped);
+
+  /** Checks a single budget amount and its category reference. */
+  const checkBudget = (b: unknown): InvalidRecordReason | null => !isRawRecord(b) || !isKnownId(b.categoryId, categoryIds) ? 'unknownCategory'
+    : typeof b.amount !== 'number' || !isFinite(b.amount) || b.amount < 0 ? 'invalidAmount'
+    : b.percentOfIncome !== undefined && (typeof b.percentOfIncome !== 'number' || !(b.percentOfIncome > 0 && b.percentOfIncome <= 100)) ? 'invalidAmount' : null;
+
+  const budgetTemplates = filterValid<BackupData['budgetTemplates'][number]>(data.budgetTemplates, 'budgetTemplates', bt => bt.name || bt.id, bt => {
+    if (!isNonEmptyString(bt.name)) return 'missingText';
+    if (!Array.isArray(bt.budgets)) return 'invalidAmount';
+    const templateBudgets: unknown[] = bt.budgets;
+    return templateBudgets.map(checkBudget).find(reason => reason) || null;
+  }, dropped);
+
+  const budgets: BackupData['budgets'] = {};
+  Object.entries(data.budgets).forEach(([month, monthBudgets]) => {
+    if (!MONTH_PATTERN.test(month) || !Array.isArray(monthBudgets)) {
+      dropped.push({ entity: 'budgets', label: month, reason: 'invalidMonth' });
+      return;
+    }
+    budgets[month] = monthBudgets.filter(b => {
+      const reason = checkBudget(b);
+      if (reason) {
+        dropped.push({ entity: 'budgets', label: `${month} · ${b?.categoryId ?? '?'}`, reason });
+      }
+      return !reason;
+    });
+  });
+
+  const settings = validateSettings(data.settings, dropped);
+
+  return { data: { ...data, categories, events, transactions, recurringRules, categoryRules, budgets, budgetTemplates, settings }, dropped };
+}
+
+/**
+ * Merges two lists of records by ID. Incoming records replace existing ones with
+ * the same ID, new ones are appended, and existing records not in the backup are kept.
+ */
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingById = new Map(incoming.map(record => [record.id, record]));
+  const currentIds = new Set(current.map(record => record.id));
+  return [
+    ...current.map(record => incomingById.get(record.id) || record),
+    ...incoming.filter(record => !currentIds.has(record.id)),
+  ];
+};
+
+/**
+ * Compares two lists of records by ID and counts added, changed and removed records.
+ */
+const diffById = <T extends { id: string }>(current: T[], next: T[]): EntityDiff => {
+  const currentById = new Map(current.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+  let added = 0;
+  let changed = 0;
+  next.forEach(record => {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      added++;
+    } else if (JSON.stringify(existing) !== JSON.stringify(record)) {
+      changed++;
+    }
+  });
+  const removed = current.filter(record => !nextIds.has(record.id)).length;
+  return { added, changed, removed };
+};
+
+/**
+ * Flattens the budget record into a list keyed by month and category, so budgets
+ * can be merged and compared like other records.
+ */
+const flattenBudgets = (budgets: BackupData['budgets']) =>
+  Object.entries(budgets).flatMap(([month, monthBudgets]) => monthBudgets.map(b => ({ ...b, id: `${month}|${b.categoryId}` })));
+
+/**
+ * Rebuilds the budget record from its flattened form.
+ */
+const unflattenBudgets = (flat: ReturnType<typeof flattenBudgets>): BackupData['budgets'] => {
+  const budgets: BackupData['budgets'] = {};
+  flat.forEach(({ id, ...budget }) => {
+    const month = id.split('|')[0];
+    budgets[month] = [...(budgets[month] || []), budget];
+  });
+  return budgets;
+};
+
+/**
+ * Prepares an import: validates the backup, applies it to the current data in the
+ * chosen mode, and works out what will be added, changed and removed.
+ * In 'merge' mode the user's current preferences are kept; in 'replace' mode the
+ * preferences stored in the backup are applied.
+ *
+ * @param {BackupData} current - The current application data.
+ * @param {BackupData} incoming - The migrated backup being imported.
+ * @param {ImportMode} mode - Whether to replace or merge.
+ * @returns {ImportPlan} The resulting data, the diff, and the dropped records.
+ */
+export function planImport(current: BackupData, incoming: BackupData, mode: ImportMode): ImportPlan {
+  const isMerge = mode === 'merge';
+  const { data: valid, dropped } = validateBackup(
+    incoming,
+    new Set(isMerge ? current.categories.map(c => c.id) : []),
+    new Set(isMerge ? current.events.map(e => e.id) : []),
+  );
+
+  const result: BackupData = isMerge
+    ? {
+        ...current,
+        transactions: mergeById(current.transactions, valid.transactions),
+        events: mergeById(current.events, valid.events),
+        categories: mergeById(current.categories, valid.categories),
+        recurringRules: mergeById(current.recurringRules, valid.recurringRules),
+        categoryRules: mergeById(current.categoryRules, valid.categoryRules),
+        budgets: unflattenBudgets(mergeById(flattenBudgets(current.budgets), flattenBudgets(valid.budgets))),
+        budgetTemplates: mergeById(current.budgetTemplates, valid.budgetTemplates),
+        settings: {},
+      }
+    : valid;
+
+  return {
+    result,
+    dropped,
+    diff: {
+      transactions: diffById(current.transactions, result.transactions),
+      events: diffById(current.events, result.events),
+      categories: diffById(current.categories, result.categories),
+      budgets: diffById(flattenBudgets(current.budgets), flattenBudgets(result.budgets)),
+      budgetTemplates: diffById(current.budgetTemplates, result.budgetTemplates),
+      recurringRules: diffById(current.recurringRules, result.recurringRules),
+      categoryRules: diffById(current.categoryRules, result.categoryRules),
+    },
+  };
+}
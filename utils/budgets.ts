@@ -0,0 +1,118 @@
+/**
+ * @file Utility functions for carrying budgets from one month to the next: copying
+ * last month's budgets into a new month, and rolling unspent (or overspent) amounts
+ * over into the next month for categories with rollover turned on. Also resolves
+ * budgets set as a percentage of income into amounts.
+ */
+
+import { Budget, Converter, Transaction } from '../types';
+import { addMonths } from './date';
+import { getCategoryAmounts } from './splits';
+
+/** How many months back a rollover chain is followed, as a safeguard. */
+const MAX_ROLLOVER_MONTHS = 120;
+
+/**
+ * Adds up the income of each month.
+ * @param {Transaction[]} transactions - The main transactions (excluding event transactions).
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @returns {Map<string, number>} The total income for each month key (YYYY-MM).
+ */
+export function getMonthlyIncome(transactions: Transaction[], convert: Converter): Map<string, number> {
+  const income = new Map<string, number>();
+  transactions.forEach(transaction => {
+    if (transaction.type !== 'income') return;
+    const monthKey = transaction.date.slice(0, 7);
+    income.set(monthKey, (income.get(monthKey) || 0) + convert(transaction.amount, transaction.currency));
+  });
+  return income;
+}
+
+/**
+ * Calculates the amount of a percentage budget from a month's income.
+ * @param {number} percentOfIncome - The percentage (e.g., 30 for 30%).
+ * @param {number} income - The month's income, in the base currency.
+ * @returns {number} The budgeted amount, rounded to cents.
+ */
+export function getPercentAmount(percentOfIncome: number, income: number): number {
+  return Math.round(percentOfIncome * income) / 100;
+}
+
+/**
+ * Recalculates the amount of every budget set as a percentage of income from the
+ * income of its month. Months without percentage budgets are returned as they are.
+ * @param {Record<string, Budget[]>} budgets - The budgets, keyed by month (YYYY-MM).
+ * @param {Transaction[]} transactions - The main transactions (excluding event transactions).
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @returns {Record<string, Budget[]>} The budgets with up-to-date amounts.
+ */
+export function resolveBudgets(budgets: Record<string, Budget[]>, transactions: Transaction[], convert: Converter): Record<string, Budget[]> {
+  const income = getMonthlyIncome(transactions, convert);
+  return Object.keys(budgets).reduce((acc, monthKey) => {
+    const monthBudgets = budgets[monthKey];
+    acc[monthKey] = monthBudgets.some(b => b.percentOfIncome !== undefined)
+      ? monthBudgets.map(b => (b.percentOfIncome !== undefined ? { ...b, amount: getPercentAmount(b.percentOfIncome, income.get(monthKey) || 0) } : b))
+      : monthBudgets;
+    return acc;
+  }, {} as Record<string, Budget[]>);
+}
+
+/**
+ * Finds the latest month before a given month that has budgets set.
+ * @param {Record<string, Budget[]>} budgets - The budgets, keyed by month (YYYY-MM).
+ * @param {string} monthKey - The month in YYYY-MM format.
+ * @returns {string | undefined} The month key, or undefined if no earlier month has budgets.
+ */
+export function findPreviousBudgetMonth(budgets: Record<string, Budget[]>, monthKey: string): string | undefined {
+  return Object.keys(budgets)
+    .filter(key => key < monthKey && budgets[key].length > 0)
+    .sort()
+    .pop();
+}
+
+/**
+ * Calculates the amount carried over into a month for each category with rollover
+ * turned on in that month. The amount is what was left of the previous month's
+ * budget (including what that month carried over itself, if rollover was on there
+ * too) minus what was spent; it is negative when the previous month was overspent.
+ * @param {Record<string, Budget[]>} budgets - The budgets, keyed by month (YYYY-MM).
+ * @param {Transaction[]} transactions - The main transactions (excluding event transactions).
+ * @param {string} monthKey - The month in YYYY-MM format.
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @returns {Map<string, number>} The carried-over amount for each category ID with rollover on.
+ */
+export function getCarryOver(budgets: Record<string, Budget[]>, transactions: Transaction[], monthKey: string, convert: Converter): Map<string, number> {
+  // Spending per month and category, computed once for the whole chain
+  const spent = new Map<string, number>();
+  transactions.forEach(transaction => {
+    if (transaction.type !== 'expense') return;
+    getCategoryAmounts(transaction).forEach(part => {
+      if (!part.categoryId) return;
+      const key = `${transaction.date.slice(0, 7)}|${part.categoryId}`;
+      spent.set(key, (spent.get(key) || 0) + convert(part.amount, transaction.currency));
+    });
+  });
+
+  /**
+   * Follows the chain of rollover months backwards from a month.
+   * @param {string} month - The month receiving the carry-over.
+   * @param {string} categoryId - The category.
+   * @param {number} depth - How many months have been followed so far.
+   * @returns {number} The amount carried into the month.
+   */
+  const carryInto = (month: string, categoryId: string, depth: number): number => {
+    const previousMonth = addMonths(month, -1);
+    const previous = (budgets[previousMonth] || []).find(b => b.categoryId === categoryId);
+    if (!previous || depth >= MAX_ROLLOVER_MONTHS) return 0;
+    const previousCarry = previous.rollover ? carryInto(previousMonth, categoryId, depth + 1) : 0;
+    return previous.amount + previousCarry - (spent.get(`${previousMonth}|${categoryId}`) || 0);
+  };
+
+  const carryOver = new Map<string, number>();
+  (budgets[monthKey] || []).forEach(budget => {
+    if (budget.rollover) {
+      carryOver.set(budget.categoryId, carryInto(monthKey, budget.categoryId, 0));
+    }
+  });
+  return carryOver;
+}
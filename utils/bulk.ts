@@ -0,0 +1,102 @@
+/**
+ * @file Utility functions for changing many transactions at once: deleting them,
+ * moving them to another category or event, shifting their dates, or changing their
+ * type. An action only touches the transactions it makes sense for (events hold
+ * expenses only, and categories are either for expenses or for income); the others
+ * are skipped and left as they are.
+ */
+
+import { Category, Converter, Transaction } from '../types';
+import { addDays } from './date';
+import { getCategoryKind } from './categories';
+
+/**
+ * An action applied to every selected transaction.
+ */
+export type BulkAction =
+  | { kind: 'delete' }
+  | { kind: 'category'; categoryId: string }
+  /** Moves into an event, or out of any event when `eventId` is undefined. */
+  | { kind: 'event'; eventId?: string }
+  | { kind: 'shiftDate'; days: number }
+  | { kind: 'type'; type: 'income' | 'expense' };
+
+/**
+ * The totals of a set of transactions, for confirming a bulk action.
+ */
+export interface TransactionTotals {
+  /** The number of transactions. */
+  count: number;
+  /** The total income, in the base currency. */
+  income: number;
+  /** The total expenses, in the base currency. */
+  expenses: number;
+}
+
+/**
+ * Checks whether an action applies to a transaction.
+ * @param {Transaction} transaction - The transaction.
+ * @param {BulkAction} action - The action.
+ * @param {Category[]} categories - The list of all categories.
+ * @returns {boolean} False if the transaction would be skipped.
+ */
+export function canApplyBulkAction(transaction: Transaction, action: BulkAction, categories: Category[]): boolean {
+  switch (action.kind) {
+    case 'category': {
+      const category = categories.find(c => c.id === action.categoryId);
+      return !!category && getCategoryKind(category) === transaction.type;
+    }
+    case 'event':
+      return action.eventId ? transaction.type === 'expense' && transaction.eventId !== action.eventId : !!transaction.eventId;
+    case 'shiftDate':
+      return action.days !== 0;
+    case 'type':
+      // Events hold expenses only, so event transactions can't become income
+      return transaction.type !== action.type && !(action.type === 'income' && transaction.eventId);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Applies an action other than deletion to a transaction.
+ * @param {Transaction} transaction - The transaction, which the action must apply to.
+ * @param {Exclude<BulkAction, { kind: 'delete' }>} action - The action.
+ * @param {Category[]} categories - The list of all categories.
+ * @returns {Transaction} The updated transaction.
+ */
+export function applyBulkAction(transaction: Transaction, action: Exclude<BulkAction, { kind: 'delete' }>, categories: Category[]): Transaction {
+  switch (action.kind) {
+    case 'category': {
+      // A single category replaces any split lines
+      const { splits, ...rest } = transaction;
+      return { ...rest, categoryId: action.categoryId };
+    }
+    case 'event':
+      return { ...transaction, eventId: action.eventId };
+    case 'shiftDate':
+      return { ...transaction, date: addDays(transaction.date, action.days) };
+    case 'type': {
+      const { splits, ...rest } = transaction;
+      const category = categories.find(c => c.id === transaction.categoryId);
+      // Keep the category only if it is of the new kind; expenses need one, so they fall back to 'Other'
+      const keepCategory = category && getCategoryKind(category) === action.type;
+      return { ...rest, type: action.type, categoryId: keepCategory ? category.id : action.type === 'expense' ? 'other' : undefined };
+    }
+  }
+}
+
+/**
+ * Adds up the income and expenses of a set of transactions.
+ * @param {Transaction[]} transactions - The transactions.
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @returns {TransactionTotals} The totals.
+ */
+export function getTransactionTotals(transactions: Transaction[], convert: Converter): TransactionTotals {
+  return transactions.reduce((totals, transaction) => {
+    const amount = convert(transaction.amount, transaction.currency);
+    return transaction.type === 'income'
+      ? { ...totals, count: totals.count + 1, income: totals.income + amount }
+      : { ...totals, count: totals.count + 1, expenses: totals.expenses + amount };
+  }, { count: 0, income: 0, expenses: 0 } as TransactionTotals);
+}
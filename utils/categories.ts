@@ -0,0 +1,88 @@
+/**
+ * @file Utility functions for the category hierarchy. A category can be nested under
+ * a parent category to form a group (e.g., "Food" → groceries, restaurants). Groups
+ * are one level deep: a category whose parent is missing, or is itself nested, is
+ * treated as a top-level category. Categories are also either for expenses or for
+ * income, and each kind has its own pickers and lists.
+ */
+
+import { Category } from '../types';
+
+/**
+ * A top-level category with the categories nested under it.
+ */
+export interface CategoryGroup {
+  /** The top-level category. */
+  parent: Category;
+  /** The categories nested under it, in their original order. */
+  children: Category[];
+}
+
+/**
+ * Gets whether a category is for expenses or income.
+ * @param {Category} category - The category.
+ * @returns {'expense' | 'income'} The kind; categories saved before income categories existed are for expenses.
+ */
+export function getCategoryKind(category: Category): 'expense' | 'income' {
+  return category.kind || 'expense';
+}
+
+/**
+ * Keeps the categories of one kind.
+ * @param {Category[]} categories - The list of all categories.
+ * @param {'expense' | 'income'} kind - The kind to keep.
+ * @returns {Category[]} The categories of that kind, in their original order.
+ */
+export function filterCategoriesByKind(categories: Category[], kind: 'expense' | 'income'): Category[] {
+  return categories.filter(c => getCategoryKind(c) === kind);
+}
+
+/**
+ * Gets the parent of a category, if it is validly nested.
+ * @param {Category[]} categories - The list of all categories.
+ * @param {Category} category - The category.
+ * @returns {Category | undefined} The parent, or undefined for a top-level category.
+ */
+export function getParentCategory(categories: Category[], category: Category): Category | undefined {
+  if (!category.parentId || category.parentId === category.id) return undefined;
+  const parent = categories.find(c => c.id === category.parentId);
+  return parent && !parent.parentId ? parent : undefined;
+}
+
+/**
+ * Groups categories under their parents, keeping the order of the top-level categories.
+ * @param {Category[]} categories - The list of all categories.
+ * @returns {CategoryGroup[]} The groups; categories without children form a group of their own.
+ */
+export function getCategoryGroups(categories: Category[]): CategoryGroup[] {
+  const groups = new Map<string, CategoryGroup>();
+  categories.forEach(category => {
+    if (!getParentCategory(categories, category)) groups.set(category.id, { parent: category, children: [] });
+  });
+  categories.forEach(category => {
+    const parent = getParentCategory(categories, category);
+    if (parent) groups.get(parent.id)?.children.push(category);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Orders categories so that each one is directly followed by the categories nested under it.
+ * @param {Category[]} categories - The list of all categories.
+ * @returns {Category[]} The ordered categories.
+ */
+export function sortCategoriesByGroup(categories: Category[]): Category[] {
+  return getCategoryGroups(categories).flatMap(group => [group.parent, ...group.children]);
+}
+
+/**
+ * Lists the categories another category can be nested under: top-level categories
+ * other than itself and 'Other'. A category that already has children can't be nested.
+ * @param {Category[]} categories - The list of all categories.
+ * @param {string} [categoryId] - The ID of the category being edited, if any.
+ * @returns {Category[]} The possible parents; empty if the category has children.
+ */
+export function getPossibleParents(categories: Category[], categoryId?: string): Category[] {
+  if (categoryId && categories.some(c => c.parentId === categoryId)) return [];
+  return categories.filter(c => c.id !== categoryId && c.id !== 'other' && !c.parentId);
+}
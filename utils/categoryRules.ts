@@ -0,0 +1,83 @@
+/**
+ * @file Utility functions for rule-based auto-categorisation of transactions.
+ * Rules are checked in order and the first one a transaction matches decides its
+ * category, both for suggestions while typing and when categorising in bulk.
+ */
+
+import { Category, CategoryRule, Converter, Transaction } from '../types';
+import { normalizeText } from './text';
+import { isSplit } from './splits';
+import { getCategoryKind } from './categories';
+
+/** The transaction details a rule is matched against. */
+type RuleInput = Pick<Transaction, 'type' | 'amount' | 'currency' | 'description'>;
+
+/**
+ * Checks whether a transaction meets every condition of a rule.
+ * @param {CategoryRule} rule - The rule to check.
+ * @param {RuleInput} transaction - The transaction details.
+ * @param {Converter} convert - Converts the transaction's amount into the base currency.
+ * @returns {boolean} True if the transaction matches the rule.
+ */
+export function ruleMatches(rule: CategoryRule, transaction: RuleInput, convert: Converter): boolean {
+  if (rule.type !== 'any' && rule.type !== transaction.type) return false;
+  if (rule.descriptionContains && !normalizeText(transaction.description).includes(normalizeText(rule.descriptionContains))) return false;
+  if (rule.minAmount !== undefined || rule.maxAmount !== undefined) {
+    const amount = convert(transaction.amount, transaction.currency);
+    if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the first rule a transaction matches.
+ * @param {CategoryRule[]} rules - The rules, in the order they are checked.
+ * @param {RuleInput} transaction - The transaction details.
+ * @param {Converter} convert - Converts the transaction's amount into the base currency.
+ * @returns {CategoryRule | undefined} The matching rule, if any.
+ */
+export function findMatchingRule(rules: CategoryRule[], transaction: RuleInput, convert: Converter): CategoryRule | undefined {
+  return rules.find(rule => ruleMatches(rule, transaction, convert));
+}
+
+/**
+ * Checks whether a transaction still needs a category: it has none, is filed under
+ * 'Other', or points to a category that no longer exists. Split expenses are never
+ * uncategorised, as their lines were filed by hand.
+ * @param {Transaction} transaction - The transaction to check.
+ * @param {Set<string>} categoryIds - The IDs of all existing categories.
+ * @returns {boolean} True if the transaction is uncategorised.
+ */
+export function isUncategorised(transaction: Transaction, categoryIds: Set<string>): boolean {
+  if (isSplit(transaction)) return false;
+  return !transaction.categoryId || transaction.categoryId === 'other' || !categoryIds.has(transaction.categoryId);
+}
+
+/**
+ * Applies the rules to every uncategorised transaction. A rule only applies to
+ * transactions of its category's kind, so income is never filed under an expense
+ * category or the reverse. Transactions that already have a category, or match no
+ * rule, are returned unchanged.
+ * @param {Transaction[]} transactions - The transactions to categorise.
+ * @param {CategoryRule[]} rules - The rules, in the order they are checked.
+ * @param {Category[]} categories - All existing categories.
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @returns The updated transactions and how many of them were categorised.
+ */
+export function applyCategoryRules(transactions: Transaction[], rules: CategoryRule[], categories: Category[], convert: Converter): { transactions: Transaction[]; count: number } {
+  const categoryById = new Map(categories.map(c => [c.id, c]));
+  const categoryIds = new Set(categoryById.keys());
+  let count = 0;
+  const updated = transactions.map(transaction => {
+    if (!isUncategorised(transaction, categoryIds)) return transaction;
+    const rule = rules.find(rule => {
+      const category = categoryById.get(rule.categoryId);
+      return !!category && getCategoryKind(category) === transaction.type && ruleMatches(rule, transaction, convert);
+    });
+    if (!rule || rule.categoryId === transaction.categoryId) return transaction;
+    count++;
+    return { ...transaction, categoryId: rule.categoryId };
+  });
+  return { transactions: updated, count };
+}
@@ -0,0 +1,58 @@
+/**
+ * @file Types and scale helpers shared by the SVG charts.
+ */
+
+/**
+ * A named series of values, one per point on the chart's horizontal axis.
+ */
+export interface ChartSeries {
+  /** A unique identifier for the series. */
+  id: string;
+  /** The label shown in the legend and tooltip. */
+  label: string;
+  /**
+   * The color of the series: a category color (e.g., '#FF6B6B') or a theme color
+   * read from the CSS variables (e.g., 'hsl(var(--success))').
+   */
+  color: string;
+  /** The values, in the same order as the chart's labels. */
+  values: number[];
+  /** Whether to draw the series as a dashed line, for targets such as budgets. */
+  dashed?: boolean;
+}
+
+/**
+ * Rounds a maximum value up to a "nice" number (1, 2, 2.5 or 5 times a power of ten),
+ * so the axis ticks land on round values.
+ * @param {number} value - The largest value plotted.
+ * @returns {number} The top of the value axis.
+ */
+export function getNiceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 2.5, 5, 10].find(multiple => multiple * magnitude >= value)!;
+  return step * magnitude;
+}
+
+/**
+ * Splits the value axis into evenly spaced ticks from zero to the maximum.
+ * @param {number} max - The top of the value axis.
+ * @param {number} [count=4] - The number of intervals.
+ * @returns {number[]} The tick values, from zero upwards.
+ */
+export function getTicks(max: number, count: number = 4): number[] {
+  return Array.from({ length: count + 1 }, (_, index) => (max / count) * index);
+}
+
+/**
+ * Adds up the values of several series point by point, as stacked charts do.
+ * @param {ChartSeries[]} series - The series to stack, bottom first.
+ * @returns {number[][]} For each series, the running total at each point.
+ */
+export function stackSeries(series: ChartSeries[]): number[][] {
+  const totals: number[] = [];
+  return series.map(s => s.values.map((value, index) => {
+    totals[index] = (totals[index] || 0) + value;
+    return totals[index];
+  }));
+}
@@ -0,0 +1,303 @@
+/**
+ * @file Utility functions for reading bank statements exported as CSV files.
+ * Parsing happens entirely on the device: the file is split into rows, and amount
+ * and date cells are interpreted using the formats chosen in the import wizard.
+ */
+
+import { Transaction } from '../types';
+import { getDaysInMonth } from './date';
+
+/** The decimal separators supported when parsing amounts. */
+export type DecimalSeparator = '.' | ',';
+
+/** The date layouts supported when parsing dates. */
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/** The date layouts in the order they are offered and guessed. */
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+/** The transaction fields a statement column can be mapped to. */
+export type CsvField = 'amount' | 'date' | 'description' | 'type';
+
+/**
+ * Maps each transaction field to the index of the column it is read from.
+ * Null means the field is not mapped. The `type` column is optional: without it,
+ * negative amounts are expenses and positive amounts are income.
+ */
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+/** The reasons a statement row can fail to become a transaction. */
+export type CsvRowError = 'invalidAmount' | 'invalidDate' | 'missingDescription';
+
+/**
+ * A statement row after applying the column mapping and formats.
+ */
+export interface CsvImportRow {
+  /** The 1-based position of the row in the file, not counting empty lines. */
+  line: number;
+  /** The parsed transaction details, if the row is valid. */
+  transaction?: Pick<Transaction, 'type' | 'amount' | 'date' | 'description'>;
+  /** Why the row could not be parsed, if it is invalid. */
+  error?: CsvRowError;
+  /** Whether a matching transaction (same date, type, amount and description) already exists. */
+  duplicate: boolean;
+}
+
+/** Header names (English and Spanish) recognized when guessing the column mapping. */
+const HEADER_PATTERNS: Record<CsvField, RegExp> = {
+  amount: /amount|importe|monto|valor|cantidad/i,
+  date: /date|fecha/i,
+  description: /description|descripci[oó]n|concept|detail|detalle|memo|payee|narrative/i,
+  type: /^(type|tipo)|debit.*credit|d[eé]bito.*cr[eé]dito/i,
+};
+
+/** The delimiters considered when detecting how a file separates its columns. */
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Detects the column delimiter of a CSV file by checking which candidate appears
+ * most often, outside of quoted text, in its first line.
+ * @param {string} text - The contents of the file.
+ * @returns {string} The detected delimiter, defaulting to a comma.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  DELIMITERS.forEach(delimiter => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Parses CSV text into rows of cells. Supports quoted cells containing delimiters,
+ * line breaks and escaped quotes (""), Windows line endings, and a leading byte order mark.
+ * Empty lines are skipped.
+ * @param {string} text - The contents of the file.
+ * @param {string} [delimiter] - The column delimiter. Detected from the file when omitted.
+ * @returns {string[][]} The rows of the file, each as an array of trimmed cells.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Parses an amount as written in a bank statement. Currency symbols, letters and
+ * spaces are ignored, the other separator is treated as a thousands separator, and
+ * negative amounts may be written with a leading or trailing minus sign or in parentheses.
+ * @param {string} value - The cell value (e.g., "-1.234,56 €" or "(45.00)").
+ * @param {DecimalSeparator} decimalSeparator - The character that separates decimals.
+ * @returns {number | null} The signed amount, or null if the value is not a number.
+ */
+export function parseAmount(value: string, decimalSeparator: DecimalSeparator): number | null {
+  let text = value.trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/-\s*$/.test(text)) {
+    negative = true;
+  }
+  if (/^[^\d]*-/.test(text)) {
+    negative = true;
+  }
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const digits = text
+    .replace(/[^\d.,]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+  if (!/^\d*\.?\d+$/.test(digits)) return null;
+
+  const amount = parseFloat(digits);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parses a date in one of the supported layouts into a date key. Day, month and
+ * year may be separated by "/", "-" or "."; two-digit years are read as 20xx.
+ * Any time that follows the date is ignored.
+ * @param {string} value - The cell value (e.g., "31/01/2024").
+ * @param {CsvDateFormat} format - The layout of the date.
+ * @returns {string | null} The date in YYYY-MM-DD format, or null if the value is not a valid date.
+ */
+export function parseDate(value: string, format: CsvDateFormat): string | null {
+  const match = value.trim().match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+  if (!match) return null;
+  const [first, second, third] = match.slice(1).map(Number);
+
+  let year: number, month: number, day: number;
+  if (format === 'YYYY-MM-DD') {
+    [year, month, day] = [first, second, third];
+  } else if (format === 'DD/MM/YYYY') {
+    [day, month, year] = [first, second, third];
+  } else {
+    [month, day, year] = [first, second, third];
+  }
+  if (year < 100) year += 2000;
+
+  if (year < 1900 || month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month - 1)) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Guesses the layout of a date column by picking the first format that can parse
+ * every non-empty sample value.
+ * @param {string[]} values - Sample values from the column.
+ * @returns {CsvDateFormat} The guessed layout, defaulting to day-first.
+ */
+export function guessDateFormat(values: string[]): CsvDateFormat {
+  const samples = values.filter(value => value.trim() !== '');
+  return CSV_DATE_FORMATS.find(format => samples.length > 0 && samples.every(value => parseDate(value, format) !== null)) || 'DD/MM/YYYY';
+}
+
+/**
+ * Interprets a "type" cell from a statement, such as "Debit" or "Abono".
+ * @param {string} value - The cell value.
+ * @returns {'income' | 'expense' | null} The transaction type, or null if it is not recognized.
+ */
+export function parseTransactionType(value: string): 'income' | 'expense' | null {
+  const text = value.trim().toLowerCase();
+  if (/^(income|credit|cr|deposit|ingreso|cr[eé]dito|abono|dep[oó]sito)/.test(text)) return 'income';
+  if (/^(expense|debit|dr|withdrawal|payment|gasto|d[eé]bito|cargo|retiro|pago)/.test(text)) return 'expense';
+  return null;
+}
+
+/**
+ * Guesses which column holds each field by matching the header names.
+ * @param {string[]} header - The first row of the file.
+ * @returns {CsvColumnMapping} The guessed mapping; fields without a matching header are null.
+ */
+export function guessColumnMapping(header: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = { amount: null, date: null, description: null, type: null };
+  (Object.keys(HEADER_PATTERNS) as CsvField[]).forEach(field => {
+    const index = header.findIndex((name, i) => HEADER_PATTERNS[field].test(name) && !Object.values(mapping).includes(i));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+/**
+ * Builds the key used to recognize the same transaction in a statement and in the app.
+ * @param {Pick<Transaction, 'type' | 'amount' | 'date' | 'description'>} transaction - The transaction.
+ * @returns {string} The duplicate-detection key.
+ */
+const getDuplicateKey = (transaction: Pick<Transaction, 'type' | 'amount' | 'date' | 'description'>): string =>
+  [transaction.date, transaction.type, transaction.amount.toFixed(2), transaction.description.trim().toLowerCase().replace(/\s+/g, ' ')].join('|');
+
+/**
+ * Converts statement rows into transactions using the chosen column mapping and formats,
+ * and flags rows that duplicate existing transactions. Identical rows within the same file
+ * are only flagged as duplicates as many times as the matching transaction already exists,
+ * so two genuine identical purchases on the same day are both kept.
+ * @param {string[][]} rows - The data rows of the file, without the header.
+ * @param {CsvColumnMapping} mapping - Which column each field is read from.
+ * @param {object} formats - How dates and amounts are written in the file.
+ * @param {CsvDateFormat} formats.dateFormat - The layout of the date column.
+ * @param {DecimalSeparator} formats.decimalSeparator - The decimal separator of the amount column.
+ * @param {Transaction[]} existing - The transactions already in the app.
+ * @param {number} [firstLine=1] - The position of the first row in the file, used in error reports.
+ * @returns {CsvImportRow[]} One entry per row, in file order.
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  formats: { dateFormat: CsvDateFormat; decimalSeparator: DecimalSeparator },
+  existing: Transaction[],
+  firstLine: number = 1,
+): CsvImportRow[] {
+  const existingCounts = new Map<string, number>();
+  existing.forEach(transaction => {
+    const key = getDuplicateKey(transaction);
+    existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+  });
+
+  const cell = (row: string[], field: CsvField) => (mapping[field] === null ? '' : row[mapping[field] as number] || '');
+
+  return rows.map((row, index) => {
+    const line = firstLine + index;
+    const signedAmount = parseAmount(cell(row, 'amount'), formats.decimalSeparator);
+    if (signedAmount === null || signedAmount === 0) return { line, error: 'invalidAmount', duplicate: false };
+    const date = parseDate(cell(row, 'date'), formats.dateFormat);
+    if (!date) return { line, error: 'invalidDate', duplicate: false };
+    const description = cell(row, 'description').trim();
+    if (!description) return { line, error: 'missingDescription', duplicate: false };
+
+    const type = parseTransactionType(cell(row, 'type')) || (signedAmount < 0 ? 'expense' : 'income');
+    const transaction = { type, amount: Math.abs(signedAmount), date, description };
+
+    // Each existing transaction can only account for one duplicate row
+    const key = getDuplicateKey(transaction);
+    const remaining = existingCounts.get(key) || 0;
+    if (remaining > 0) existingCounts.set(key, remaining - 1);
+    return { line, transaction, duplicate: remaining > 0 };
+  });
+}
+
+/**
+ * Matches text a spreadsheet app would read as a formula: text starting with `=`, `+`,
+ * `-` or `@`, or with a tab or carriage return.
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Serializes rows of values as CSV text. Cells containing the delimiter, quotes or
+ * line breaks are quoted, and a byte order mark is added so spreadsheet apps read
+ * accented characters correctly. Text cells that would be read as a formula (e.g., a
+ * description starting with "=") are prefixed with an apostrophe, so user-entered
+ * text can't run as a formula; number cells are written as they are.
+ * @param {(string | number)[][]} rows - The rows to write; the first row is usually a header.
+ * @param {string} [delimiter=','] - The column delimiter.
+ * @returns {string} The CSV text.
+ */
+export function toCsv(rows: (string | number)[][], delimiter: string = ','): string {
+  const escapeCell = (value: string | number) => {
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return '\uFEFF' + rows.map(row => row.map(escapeCell).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,117 @@
+/**
+ * @file Utility functions for converting and formatting monetary amounts.
+ */
+
+import { DEFAULT_CURRENCY } from '../constants';
+import { Budget, BudgetTemplate, CategoryRule } from '../types';
+
+/**
+ * A cache of `Intl.NumberFormat` instances, keyed by locale, currency and options.
+ * Creating formatters is relatively expensive, and lists can format hundreds of amounts.
+ */
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Returns a cached currency formatter for the given locale and currency.
+ * @param {string} locale - The BCP 47 locale to format for (e.g., 'en', 'es').
+ * @param {string} currency - The ISO 4217 currency code.
+ * @param {Intl.NumberFormatOptions} [options] - Additional formatting options.
+ * @returns {Intl.NumberFormat} The formatter.
+ */
+const getFormatter = (locale: string, currency: string, options?: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const cacheKey = `${locale}|${currency}|${JSON.stringify(options || {})}`;
+  let formatter = formatterCache.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency, ...options });
+    formatterCache.set(cacheKey, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Formats an amount as a localized currency string using `Intl.NumberFormat`.
+ * @param {number} amount - The amount to format.
+ * @param {string} currency - The ISO 4217 currency code.
+ * @param {string} locale - The locale to format for.
+ * @param {Intl.NumberFormatOptions} [options] - Additional options, such as `signDisplay`.
+ * @returns {string} The formatted amount (e.g., "₡1,250.00" or "1.250,00 €").
+ */
+export function formatCurrency(amount: number, currency: string, locale: string, options?: Intl.NumberFormatOptions): string {
+  return getFormatter(locale, currency, options).format(amount);
+}
+
+/**
+ * Gets the localized symbol for a currency (e.g., "$" for USD in English).
+ * @param {string} currency - The ISO 4217 currency code.
+ * @param {string} locale - The locale to resolve the symbol for.
+ * @returns {string} The currency symbol, or the code itself if no symbol is available.
+ */
+export function getCurrencySymbol(currency: string, locale: string): string {
+  const part = getFormatter(locale, currency).formatToParts(0).find(p => p.type === 'currency');
+  return part?.value || currency;
+}
+
+/**
+ * Gets the localized display name of a currency (e.g., "US Dollar").
+ * @param {string} currency - The ISO 4217 currency code.
+ * @param {string} locale - The locale to translate the name into.
+ * @returns {string} The currency name, or the code itself if names are not supported.
+ */
+export function getCurrencyName(currency: string, locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'currency' }).of(currency) || currency;
+  } catch {
+    return currency;
+  }
+}
+
+/**
+ * Converts an amount between two currencies using a table of rates.
+ * Rates are expressed as units of each currency per 1 USD, so any pair can be
+ * converted through USD. If either rate is missing, the amount is returned unchanged.
+ *
+ * @param {number} amount - The amount to convert.
+ * @param {string | undefined} from - The source currency. Defaults to `DEFAULT_CURRENCY` for legacy data.
+ * @param {string} to - The target currency.
+ * @param {Record<string, number>} rates - The exchange-rate table.
+ * @returns {number} The converted amount.
+ */
+export function convertAmount(amount: number, from: string | undefined, to: string, rates: Record<string, number>): number {
+  const source = from || DEFAULT_CURRENCY;
+  if (source === to) return amount;
+  const fromRate = rates[source];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return amount;
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * The data whose amounts are stored in the base currency rather than in a currency of their own.
+ */
+export interface BaseCurrencyData {
+  budgets: Record<string, Budget[]>;
+  budgetTemplates: BudgetTemplate[];
+  categoryRules: CategoryRule[];
+}
+
+/**
+ * Re-expresses the amounts stored in the base currency in a new base currency, so a
+ * budget keeps its value rather than its number when the base currency changes.
+ * Converted amounts are rounded to cents; percentages of income are left as they are.
+ * @param {BaseCurrencyData} data - The budgets, templates and rules to convert.
+ * @param {(amount: number) => number} convertToNew - Converts an amount from the old base currency into the new one.
+ * @returns {BaseCurrencyData} The data with every amount converted.
+ */
+export function convertBaseCurrencyData(data: BaseCurrencyData, convertToNew: (amount: number) => number): BaseCurrencyData {
+  const convertRounded = (amount: number) => Math.round(convertToNew(amount) * 100) / 100;
+  const convertBudget = (budget: Budget): Budget => ({ ...budget, amount: convertRounded(budget.amount) });
+  return {
+    budgets: Object.fromEntries(Object.entries(data.budgets).map(([month, monthBudgets]) => [month, monthBudgets.map(convertBudget)])),
+    budgetTemplates: data.budgetTemplates.map(template => ({ ...template, budgets: template.budgets.map(convertBudget) })),
+    categoryRules: data.categoryRules.map(rule => (rule.minAmount === undefined && rule.maxAmount === undefined ? rule : {
+      ...rule,
+      ...(rule.minAmount !== undefined ? { minAmount: convertRounded(rule.minAmount) } : {}),
+      ...(rule.maxAmount !== undefined ? { maxAmount: convertRounded(rule.maxAmount) } : {}),
+    })),
+  };
+}
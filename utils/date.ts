@@ -0,0 +1,84 @@
+/**
+ * @file Utility functions for working with the date keys stored on transactions.
+ * Dates are stored as ISO strings (YYYY-MM-DD) and handled in UTC so that date
+ * arithmetic is never shifted by the user's timezone or daylight saving changes.
+ */
+
+/**
+ * Gets today's date as a date key, matching how new transactions are dated.
+ * @returns {string} Today's date in YYYY-MM-DD format.
+ */
+export function getTodayKey(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a date key into a `Date` at midnight UTC.
+ * @param {string} dateKey - A date in YYYY-MM-DD format.
+ * @returns {Date} The parsed date.
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Formats a `Date` as a date key, using its UTC calendar date.
+ * @param {Date} date - The date to format.
+ * @returns {string} The date in YYYY-MM-DD format.
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Adds a number of days to a date key.
+ * @param {string} dateKey - The starting date in YYYY-MM-DD format.
+ * @param {number} days - The number of days to add (may be negative).
+ * @returns {string} The resulting date key.
+ */
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Gets the number of days in a month.
+ * @param {number} year - The full year (e.g., 2024).
+ * @param {number} monthIndex - The zero-based month index (0 = January).
+ * @returns {number} The number of days in that month.
+ */
+export function getDaysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * Gets the current month as a month key, matching how budgets are stored.
+ * @returns {string} The current month in YYYY-MM format.
+ */
+export function getCurrentMonthKey(): string {
+  return getTodayKey().slice(0, 7);
+}
+
+/**
+ * Adds a number of months to a month key.
+ * @param {string} monthKey - The starting month in YYYY-MM format.
+ * @param {number} months - The number of months to add (may be negative).
+ * @returns {string} The resulting month key.
+ */
+export function addMonths(monthKey: string, months: number): string {
+  const [year, month] = monthKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Formats a month key as a localized month name and year (e.g., "July 2023").
+ * @param {string} monthKey - The month in YYYY-MM format.
+ * @param {string} locale - The locale to format for.
+ * @param {'long' | 'short'} [monthStyle='long'] - How the month name is written.
+ * @returns {string} The formatted month.
+ */
+export function formatMonthKey(monthKey: string, locale: string, monthStyle: 'long' | 'short' = 'long'): string {
+  return parseDateKey(`${monthKey}-01`).toLocaleString(locale, { month: monthStyle, year: 'numeric', timeZone: 'UTC' });
+}
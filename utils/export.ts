@@ -0,0 +1,94 @@
+/**
+ * @file Utility functions for exporting transactions to files that can be shared
+ * outside the app, such as a flat table for an accountant.
+ */
+
+import { Category, Converter, Event, Transaction } from '../types';
+import { TranslationKey } from '../locales/en';
+import { DEFAULT_CURRENCY } from '../constants';
+import { CellValue } from './xlsx';
+import { getCategoryAmounts } from './splits';
+
+/**
+ * The inputs needed to build a transaction export.
+ */
+interface TransactionTableOptions {
+  /** The transactions to export, including those linked to events. */
+  transactions: Transaction[];
+  /** The list of all categories, used to resolve category names. */
+  categories: Category[];
+  /** The list of all events, used to resolve event names. */
+  events: Event[];
+  /** The first date to include, in YYYY-MM-DD format. */
+  from: string;
+  /** The last date to include, in YYYY-MM-DD format. */
+  to: string;
+  /** The translation function, used for headers, types and default category names. */
+  t: (key: TranslationKey, replacements?: Record<string, string | number>) => string;
+  /** Converts an amount into the base currency. */
+  convert: Converter;
+  /** The base currency, shown in the converted amount header. */
+  baseCurrency: string;
+}
+
+/**
+ * Filters transactions to a date range and sorts them from oldest to newest.
+ * @param {Transaction[]} transactions - The transactions to filter.
+ * @param {string} from - The first date to include, in YYYY-MM-DD format.
+ * @param {string} to - The last date to include, in YYYY-MM-DD format.
+ * @returns {Transaction[]} The transactions within the range.
+ */
+export function filterByDateRange(transactions: Transaction[], from: string, to: string): Transaction[] {
+  return transactions
+    .filter(t => t.date >= from && t.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Builds a flat table of transactions within a date range, with a header row.
+ * Category and event IDs are resolved to their names, and amounts are given both
+ * in the transaction's own currency and converted into the base currency.
+ * @param {TransactionTableOptions} options - The transactions and helpers to use.
+ * @returns {CellValue[][]} The header row followed by one row per transaction.
+ */
+export function buildTransactionTable({ transactions, categories, events, from, to, t, convert, baseCurrency }: TransactionTableOptions): CellValue[][] {
+  const categoryNames = new Map(categories.map(c => [c.id, c.name.startsWith('category_') ? t(c.name as TranslationKey) : c.name]));
+  const eventNames = new Map(events.map(e => [e.id, e.name]));
+
+  const header = [
+    t('date'),
+    t('type'),
+    t('description'),
+    t('category'),
+    t('exportColumnEvent'),
+    t('amount'),
+    t('currency'),
+    t('exportColumnAmountIn', { currency: baseCurrency }),
+  ];
+  const rows = filterByDateRange(transactions, from, to).map(transaction => [
+    transaction.date,
+    t(transaction.type),
+    transaction.description,
+    // Split expenses list the category of every line
+    getCategoryAmounts(transaction).map(part => (part.categoryId ? categoryNames.get(part.categoryId) || '' : '')).join(' / '),
+    transaction.eventId ? eventNames.get(transaction.eventId) || '' : '',
+    transaction.amount,
+    transaction.currency || DEFAULT_CURRENCY,
+    Math.round(convert(transaction.amount, transaction.currency) * 100) / 100,
+  ]);
+  return [header, ...rows];
+}
+
+/**
+ * Triggers a download of a file in the browser.
+ * @param {Blob} blob - The file contents.
+ * @param {string} fileName - The name to save the file as.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
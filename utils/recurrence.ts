@@ -0,0 +1,114 @@
+/**
+ * @file The catch-up engine for recurring transactions.
+ * It works out which occurrences of each recurring rule have fallen due since the
+ * rule was last posted, and builds the `Transaction` instances for them.
+ */
+
+import { RecurringRule, Transaction } from '../types';
+import { addDays, getDaysInMonth, parseDateKey, toDateKey } from './date';
+
+/**
+ * Builds the ID of the transaction posted for a rule occurrence.
+ * IDs are deterministic so that the same occurrence can never be added twice,
+ * even if the catch-up runs more than once before state has been saved.
+ * @param {string} ruleId - The ID of the recurring rule.
+ * @param {string} date - The occurrence date in YYYY-MM-DD format.
+ * @returns {string} The transaction ID.
+ */
+export const getRecurringTransactionId = (ruleId: string, date: string): string => `recurring-${ruleId}-${date}`;
+
+/**
+ * Gets the date of a monthly or yearly occurrence, clamping the day to the
+ * length of the month (e.g., the 31st becomes the 28th or 29th in February).
+ * @param {number} year - The full year.
+ * @param {number} monthIndex - The zero-based month index.
+ * @param {number} day - The preferred day of the month.
+ * @returns {string} The occurrence date key.
+ */
+const getClampedDate = (year: number, monthIndex: number, day: number): string => {
+  const clampedDay = Math.min(day, getDaysInMonth(year, monthIndex));
+  return toDateKey(new Date(Date.UTC(year, monthIndex, clampedDay)));
+};
+
+/**
+ * Lists the occurrence dates of a rule from its start date up to and including `untilDate`,
+ * stopping early at the rule's end date if it has one.
+ * @param {RecurringRule} rule - The recurring rule.
+ * @param {string} untilDate - The last date to include, in YYYY-MM-DD format.
+ * @returns {string[]} The occurrence dates in chronological order.
+ */
+export function getOccurrenceDates(rule: RecurringRule, untilDate: string): string[] {
+  const lastDate = rule.endDate && rule.endDate < untilDate ? rule.endDate : untilDate;
+  const dates: string[] = [];
+  if (rule.startDate > lastDate) return dates;
+
+  if (rule.frequency === 'daily' || rule.frequency === 'weekly') {
+    const step = rule.frequency === 'daily' ? 1 : 7;
+    for (let date = rule.startDate; date <= lastDate; date = addDays(date, step)) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  const start = parseDateKey(rule.startDate);
+  const monthStep = rule.frequency === 'monthly' ? 1 : 12;
+  const day = rule.frequency === 'monthly' ? (rule.dayOfMonth || start.getUTCDate()) : start.getUTCDate();
+  for (let offset = 0; ; offset += monthStep) {
+    const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + offset) / 12);
+    const monthIndex = (start.getUTCMonth() + offset) % 12;
+    const date = getClampedDate(year, monthIndex, day);
+    if (date > lastDate) break;
+    // The first month's occurrence can fall before the start date when dayOfMonth is earlier
+    if (date >= rule.startDate) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Finds the next occurrence of a rule after a given date.
+ * @param {RecurringRule} rule - The recurring rule.
+ * @param {string} afterDate - The date after which to look, in YYYY-MM-DD format.
+ * @returns {string | null} The next occurrence date, or null if the rule has ended.
+ */
+export function getNextOccurrence(rule: RecurringRule, afterDate: string): string | null {
+  // A year and a bit is always enough to contain the next occurrence of any frequency
+  const horizon = toDateKey(new Date(parseDateKey(afterDate > rule.startDate ? afterDate : rule.startDate).getTime() + 400 * 86400000));
+  return getOccurrenceDates(rule, horizon).find(date => date > afterDate) || null;
+}
+
+/**
+ * Creates the transactions for every occurrence of every rule that is due by `today`
+ * and has not been posted yet. An occurrence counts as posted once the rule's
+ * `lastPostedDate` has reached it, so occurrences the user deleted are not recreated.
+ *
+ * @param {RecurringRule[]} rules - All recurring rules.
+ * @param {string} today - Today's date in YYYY-MM-DD format.
+ * @returns The new transactions, and the new `lastPostedDate` of each rule that posted any.
+ */
+export function collectDueRecurringTransactions(rules: RecurringRule[], today: string): { transactions: Transaction[]; lastPostedDates: Record<string, string> } {
+  const transactions: Transaction[] = [];
+  const lastPostedDates: Record<string, string> = {};
+
+  rules.forEach(rule => {
+    const dueDates = getOccurrenceDates(rule, today).filter(date => !rule.lastPostedDate || date > rule.lastPostedDate);
+    if (dueDates.length === 0) return;
+
+    dueDates.forEach(date => {
+      transactions.push({
+        id: getRecurringTransactionId(rule.id, date),
+        type: rule.type,
+        amount: rule.amount,
+        currency: rule.currency,
+        description: rule.description,
+        date,
+        categoryId: rule.categoryId,
+        recurringRuleId: rule.id,
+      });
+    });
+    lastPostedDates[rule.id] = dueDates[dueDates.length - 1];
+  });
+
+  return { transactions, lastPostedDates };
+}
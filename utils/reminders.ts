@@ -0,0 +1,107 @@
+/**
+ * @file Utility functions for the budget reminder subsystem.
+ * They decide when a reminder is due for the user's chosen frequency and build
+ * the digest shown in the notification (or the in-app banner).
+ */
+
+import { Budget, Category, Converter, NotificationFrequency, Transaction } from '../types';
+import { TranslationKey } from '../locales/en';
+import { getParentCategory } from './categories';
+import { parseDateKey, toDateKey } from './date';
+import { getCategoryAmounts } from './splits';
+
+/**
+ * The content of a reminder, shared by system notifications and the in-app banner.
+ */
+export interface ReminderMessage {
+  /** The reminder's title. */
+  title: string;
+  /** The lines of the digest, in display order. */
+  lines: string[];
+}
+
+/**
+ * Checks whether a reminder is due, given when the last one was sent.
+ * Daily reminders are due once per calendar day, weekly ones seven days after
+ * the last, and monthly ones once per calendar month.
+ *
+ * @param {NotificationFrequency} frequency - The user's chosen frequency.
+ * @param {string} lastSentAt - The ISO timestamp of the last reminder.
+ * @param {Date} now - The current time.
+ * @returns {boolean} True if a new reminder should be sent.
+ */
+export function isReminderDue(frequency: NotificationFrequency, lastSentAt: string, now: Date): boolean {
+  const today = toDateKey(now);
+  const lastSentDay = lastSentAt.slice(0, 10);
+  switch (frequency) {
+    case 'daily':
+      return lastSentDay < today;
+    case 'weekly':
+      return parseDateKey(today).getTime() - parseDateKey(lastSentDay).getTime() >= 7 * 86400000;
+    case 'monthly':
+      return lastSentDay.slice(0, 7) < today.slice(0, 7);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Builds the budget digest for the current month: spending so far against the
+ * month's budget, the categories that are over budget, and a nudge to log today's
+ * expenses if nothing has been recorded yet today. As on the budget screen, a budget
+ * set on a group also covers the spending in the categories nested under it.
+ *
+ * @param {object} params - The data to summarize.
+ * @param {Transaction[]} params.transactions - The current month's transactions, excluding event transactions.
+ * @param {Budget[]} params.budget - The budget for the current month (`budgets[currentMonthKey]`).
+ * @param {Category[]} params.categories - All categories, to name the ones over budget and find their groups.
+ * @param {string} params.today - Today's date in YYYY-MM-DD format.
+ * @param {Function} params.t - The translation function.
+ * @param {Function} params.convert - Converts an amount into the base currency.
+ * @param {Function} params.format - Formats an amount in the base currency.
+ * @returns {ReminderMessage} The digest.
+ */
+export function buildBudgetDigest({ transactions, budget, categories, today, t, convert, format }: {
+  transactions: Transaction[];
+  budget: Budget[];
+  categories: Category[];
+  today: string;
+  t: (key: TranslationKey, replacements?: Record<string, string | number>) => string;
+  convert: Converter;
+  format: (amount: number) => string;
+}): ReminderMessage {
+  const expenses = transactions.filter(tr => tr.type === 'expense');
+  const spent = expenses.reduce((sum, tr) => sum + convert(tr.amount, tr.currency), 0);
+  const budgeted = budget.reduce((sum, b) => sum + b.amount, 0);
+  const lines: string[] = [];
+
+  lines.push(budgeted > 0
+    ? t('reminderSpentOfBudget', { spent: format(spent), budget: format(budgeted) })
+    : t('reminderSpent', { spent: format(spent) }));
+
+  // Spending per category, with each category's spending also added to its group
+  const parentIds = new Map(categories.map(c => [c.id, getParentCategory(categories, c)?.id]));
+  const spentByCategory = new Map<string, number>();
+  expenses.forEach(tr => getCategoryAmounts(tr).forEach(({ categoryId, amount }) => {
+    if (!categoryId) return;
+    const converted = convert(amount, tr.currency);
+    const parentId = parentIds.get(categoryId);
+    [categoryId, ...(parentId ? [parentId] : [])].forEach(id => spentByCategory.set(id, (spentByCategory.get(id) || 0) + converted));
+  }));
+
+  const overBudgetNames = budget
+    .filter(b => (spentByCategory.get(b.categoryId) || 0) > b.amount)
+    .map(b => {
+      const name = categories.find(c => c.id === b.categoryId)?.name || b.categoryId;
+      return name.startsWith('category_') ? t(name as TranslationKey) : name;
+    });
+  if (overBudgetNames.length > 0) {
+    lines.push(t('reminderOverBudget', { categories: overBudgetNames.join(', ') }));
+  }
+
+  if (!transactions.some(tr => tr.date === today)) {
+    lines.push(t('reminderLogToday'));
+  }
+
+  return { title: t('reminderTitle'), lines };
+}
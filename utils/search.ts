@@ -0,0 +1,145 @@
+/**
+ * @file Utility functions for searching transactions: matching a text query against
+ * descriptions, filtering by category, event, type, amount and date, and adding up
+ * the matching transactions month by month.
+ */
+
+import { Category, Converter, Transaction } from '../types';
+import { getParentCategory } from './categories';
+import { getCategoryAmounts } from './splits';
+import { normalizeText } from './text';
+
+/**
+ * The filters of a transaction search. Empty strings leave a filter off.
+ */
+export interface TransactionFilters {
+  /** Words that must all appear in the description, in any order and case. */
+  query: string;
+  /** The category to match; a group also matches the categories nested under it. */
+  categoryId: string;
+  /** The event to match, or 'none' for transactions outside any event. */
+  eventId: string;
+  /** The type of transaction to match. */
+  type: 'all' | 'income' | 'expense';
+  /** The smallest amount to match, in the base currency. */
+  minAmount: string;
+  /** The largest amount to match, in the base currency. */
+  maxAmount: string;
+  /** The first date to match (YYYY-MM-DD). */
+  startDate: string;
+  /** The last date to match (YYYY-MM-DD). */
+  endDate: string;
+}
+
+/** Filters that match every transaction. */
+export const EMPTY_TRANSACTION_FILTERS: TransactionFilters = {
+  query: '',
+  categoryId: '',
+  eventId: '',
+  type: 'all',
+  minAmount: '',
+  maxAmount: '',
+  startDate: '',
+  endDate: '',
+};
+
+/**
+ * The matching transactions of one month with their totals.
+ */
+export interface SearchResultMonth {
+  /** The month key (YYYY-MM). */
+  month: string;
+  /** The total income of the matching transactions, in the base currency. */
+  income: number;
+  /** The total expenses of the matching transactions, in the base currency. */
+  expenses: number;
+  /** The matching transactions, newest first. */
+  transactions: Transaction[];
+}
+
+/**
+ * Gets whether any filter other than the text query is set.
+ * @param {TransactionFilters} filters - The filters.
+ * @returns {boolean} True if the results are narrowed by a filter.
+ */
+export function hasActiveFilters(filters: TransactionFilters): boolean {
+  return (Object.keys(filters) as (keyof TransactionFilters)[])
+    .some(key => key !== 'query' && filters[key] !== EMPTY_TRANSACTION_FILTERS[key]);
+}
+
+/**
+ * Gets the categories a category filter matches: the category itself and, for a
+ * group, the categories nested under it.
+ * @param {string} categoryId - The filtered category, or an empty string for none.
+ * @param {Category[]} categories - The list of all categories.
+ * @returns {Set<string> | undefined} The matching category IDs, or undefined if no category is filtered.
+ */
+export function getMatchingCategoryIds(categoryId: string, categories: Category[]): Set<string> | undefined {
+  if (!categoryId) return undefined;
+  return new Set([categoryId, ...categories.filter(c => getParentCategory(categories, c)?.id === categoryId).map(c => c.id)]);
+}
+
+/**
+ * Keeps the transactions that match every filter.
+ * @param {Transaction[]} transactions - The transactions to search, including event transactions.
+ * @param {TransactionFilters} filters - The filters.
+ * @param {Category[]} categories - The list of all categories, used to expand groups.
+ * @param {Converter} convert - Converts amounts into the base currency for the amount range.
+ * @returns {Transaction[]} The matching transactions, in their original order.
+ */
+export function filterTransactions(transactions: Transaction[], filters: TransactionFilters, categories: Category[], convert: Converter): Transaction[] {
+  const words = normalizeText(filters.query).split(/\s+/).filter(Boolean);
+  const categoryIds = getMatchingCategoryIds(filters.categoryId, categories);
+  const minAmount = parseFloat(filters.minAmount);
+  const maxAmount = parseFloat(filters.maxAmount);
+
+  return transactions.filter(transaction => {
+    if (words.length > 0) {
+      const description = normalizeText(transaction.description);
+      if (!words.every(word => description.includes(word))) return false;
+    }
+    if (filters.type !== 'all' && transaction.type !== filters.type) return false;
+    if (categoryIds && !getCategoryAmounts(transaction).some(part => part.categoryId && categoryIds.has(part.categoryId))) return false;
+    if (filters.eventId === 'none' && transaction.eventId) return false;
+    if (filters.eventId && filters.eventId !== 'none' && transaction.eventId !== filters.eventId) return false;
+    if (filters.startDate && transaction.date < filters.startDate) return false;
+    if (filters.endDate && transaction.date > filters.endDate) return false;
+    if (!isNaN(minAmount) || !isNaN(maxAmount)) {
+      const amount = convert(transaction.amount, transaction.currency);
+      if ((!isNaN(minAmount) && amount < minAmount) || (!isNaN(maxAmount) && amount > maxAmount)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Groups transactions by month and adds up each month's income and expenses. When the
+ * search filters by category, only the split lines in the matching categories count,
+ * so the totals agree with the category breakdown in Analytics.
+ * @param {Transaction[]} transactions - The transactions to group.
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @param {Set<string>} [categoryIds] - The categories the search matches, from `getMatchingCategoryIds`.
+ * @returns {SearchResultMonth[]} The months, newest first.
+ */
+export function groupTransactionsByMonth(transactions: Transaction[], convert: Converter, categoryIds?: Set<string>): SearchResultMonth[] {
+  const months = new Map<string, SearchResultMonth>();
+  transactions.forEach(transaction => {
+    const monthKey = transaction.date.slice(0, 7);
+    if (!months.has(monthKey)) months.set(monthKey, { month: monthKey, income: 0, expenses: 0, transactions: [] });
+    const month = months.get(monthKey)!;
+    const amount = categoryIds
+      ? getCategoryAmounts(transaction)
+          .filter(part => part.categoryId && categoryIds.has(part.categoryId))
+          .reduce((sum, part) => sum + convert(part.amount, transaction.currency), 0)
+      : convert(transaction.amount, transaction.currency);
+    if (transaction.type === 'income') {
+      month.income += amount;
+    } else {
+      month.expenses += amount;
+    }
+    month.transactions.push(transaction);
+  });
+  return [...months.values()]
+    .sort((a, b) => b.month.localeCompare(a.month))
+    .map(month => ({ ...month, transactions: month.transactions.sort((a, b) => b.date.localeCompare(a.date)) }));
+}
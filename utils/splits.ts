@@ -0,0 +1,54 @@
+/**
+ * @file Utility functions for split expenses, which divide one payment across several
+ * categories. Anything that adds up spending per category goes through
+ * `getCategoryAmounts`, so each line counts in its own category.
+ */
+
+import { Transaction, TransactionSplit } from '../types';
+
+/** The most the lines of a split may differ from the payment, to allow for rounding. */
+const SPLIT_TOLERANCE = 0.005;
+
+/**
+ * Lists the amount of a transaction in each of its categories.
+ * @param {Transaction} transaction - The transaction.
+ * @returns {{ categoryId: string | undefined; amount: number }[]} One entry per split line,
+ * or a single entry with the whole amount for a transaction that isn't split. Amounts are in
+ * the transaction's currency.
+ */
+export function getCategoryAmounts(transaction: Transaction): { categoryId: string | undefined; amount: number }[] {
+  return isSplit(transaction)
+    ? transaction.splits!.map(split => ({ categoryId: split.categoryId, amount: split.amount }))
+    : [{ categoryId: transaction.categoryId, amount: transaction.amount }];
+}
+
+/**
+ * Adds up the part of a transaction that belongs to a category.
+ * @param {Transaction} transaction - The transaction.
+ * @param {string} categoryId - The ID of the category.
+ * @returns {number} The amount in that category, in the transaction's currency; 0 if none.
+ */
+export function getCategoryAmount(transaction: Transaction, categoryId: string): number {
+  return getCategoryAmounts(transaction)
+    .filter(part => part.categoryId === categoryId)
+    .reduce((sum, part) => sum + part.amount, 0);
+}
+
+/**
+ * Checks whether a transaction is split across several categories.
+ * @param {Transaction} transaction - The transaction.
+ * @returns {boolean} True if it has split lines.
+ */
+export function isSplit(transaction: Transaction): boolean {
+  return !!transaction.splits && transaction.splits.length > 0;
+}
+
+/**
+ * Checks whether the lines of a split add up to the payment.
+ * @param {number} amount - The amount of the payment.
+ * @param {TransactionSplit[]} splits - The lines.
+ * @returns {boolean} True if the lines add up to the amount, allowing for rounding.
+ */
+export function isSplitBalanced(amount: number, splits: TransactionSplit[]): boolean {
+  return Math.abs(splits.reduce((sum, split) => sum + split.amount, 0) - amount) < SPLIT_TOLERANCE;
+}
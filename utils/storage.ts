@@ -0,0 +1,188 @@
+/**
+ * @file The app's persistent storage. The saved data is loaded into memory once,
+ * before the app renders, so it can be read synchronously; changes are written back
+ * in the background. Data is kept in IndexedDB, falling back to localStorage where
+ * IndexedDB is unavailable. Data saved in localStorage by earlier versions of the
+ * app is moved to IndexedDB the first time it opens.
+ */
+
+import {
+  StorageAdapter,
+  StoredRecord,
+  createIndexedDbAdapter,
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  isLocalStorageAvailable,
+} from './storageAdapters';
+
+/**
+ * Every key the app stores a value under.
+ */
+export const STORAGE_KEYS = [
+  'transactions',
+  'events',
+  'categories',
+  'categoryRules',
+  'recurringRules',
+  'budgets',
+  'budgetTemplates',
+  'theme',
+  'language',
+  'baseCurrency',
+  'exchangeRates',
+  'notificationFrequency',
+  'autoCopyBudgets',
+  'incomeCategoriesAdded',
+  'lastReminderAt',
+] as const;
+
+/** A key the app stores a value under. */
+export type StorageKey = typeof STORAGE_KEYS[number];
+
+/**
+ * The keys holding collections of records with IDs, which are stored record by record.
+ */
+const COLLECTION_KEYS: ReadonlySet<StorageKey> = new Set<StorageKey>(['transactions', 'events', 'categories', 'categoryRules', 'recurringRules', 'budgetTemplates']);
+
+/** Marks that the data saved in localStorage has been moved to IndexedDB. */
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+
+// --- Storage Problem Reporting ---
+
+/**
+ * A problem with the browser's storage that the user should know about.
+ */
+export interface StorageProblem {
+  /** Storage is unavailable, a saved value could not be read, or a change could not be saved. */
+  reason: 'unavailable' | 'corrupted' | 'saveFailed';
+  /** The key of the value concerned, if the problem is about a single value. */
+  key?: string;
+}
+
+type StorageProblemListener = (problem: StorageProblem) => void;
+
+/** The listener shown storage problems, such as the app's toast notifications. */
+let problemListener: StorageProblemListener | null = null;
+
+/** Problems found before a listener subscribed (e.g., while loading the data). */
+let pendingProblems: StorageProblem[] = [];
+
+/**
+ * Reports a storage problem to the listener. Delivery is deferred, so that the
+ * listener never updates state while a component is rendering.
+ * @param {StorageProblem} problem - The problem to report.
+ */
+const reportStorageProblem = (problem: StorageProblem) => {
+  if (problemListener) {
+    const listener = problemListener;
+    queueMicrotask(() => listener(problem));
+  } else {
+    pendingProblems.push(problem);
+  }
+};
+
+/**
+ * Subscribes to storage problems. Problems found before anyone subscribed are delivered
+ * right away. Only one listener is kept; subscribing again replaces it.
+ * @param {StorageProblemListener} listener - Called with each problem.
+ * @returns {() => void} A function that unsubscribes the listener.
+ */
+export const onStorageProblem = (listener: StorageProblemListener): (() => void) => {
+  problemListener = listener;
+  const pending = pendingProblems;
+  pendingProblems = [];
+  pending.forEach(reportStorageProblem);
+  return () => {
+    if (problemListener === listener) problemListener = null;
+  };
+};
+
+// --- Loading and Saving ---
+
+/** Where the data is saved; nothing is saved until `initStorage` has run. */
+let adapter: StorageAdapter = createMemoryAdapter();
+
+/** The saved data, by key. */
+const cache = new Map<string, unknown>();
+
+/**
+ * Moves the data saved in localStorage by earlier versions of the app to IndexedDB,
+ * once. The localStorage copies are removed afterwards, freeing their space.
+ * @param {StorageAdapter} indexedDb - The IndexedDB adapter.
+ * @param {Map<string, unknown>} stored - What IndexedDB holds already.
+ */
+const migrateFromLocalStorage = async (indexedDb: StorageAdapter, stored: Map<string, unknown>) => {
+  if (stored.has(MIGRATED_KEY) || !isLocalStorageAvailable()) return;
+  const { values, corruptedKeys } = await createLocalStorageAdapter(STORAGE_KEYS).loadAll();
+  corruptedKeys.forEach(key => reportStorageProblem({ reason: 'corrupted', key }));
+
+  for (const [key, value] of values) {
+    if (COLLECTION_KEYS.has(key as StorageKey)) {
+      if (!Array.isArray(value) || !value.every(record => typeof record?.id === 'string')) {
+        reportStorageProblem({ reason: 'corrupted', key });
+        continue;
+      }
+      await indexedDb.saveCollection(key, value);
+    } else {
+      await indexedDb.save(key, value);
+    }
+    stored.set(key, value);
+  }
+  await indexedDb.save(MIGRATED_KEY, true);
+  STORAGE_KEYS.forEach(key => window.localStorage.removeItem(key));
+};
+
+/**
+ * Opens the storage and loads the saved data. Call it once, before rendering the app.
+ * It never fails: if no storage is available, the app runs with its data kept in
+ * memory only, and the problem is reported.
+ */
+export const initStorage = async (): Promise<void> => {
+  try {
+    const indexedDb = await createIndexedDbAdapter();
+    const { values } = await indexedDb.loadAll();
+    // If moving the data fails, the localStorage copies are kept and used this time,
+    // and moving them is tried again next time
+    await migrateFromLocalStorage(indexedDb, values);
+    values.forEach((value, key) => cache.set(key, value));
+    adapter = indexedDb;
+    return;
+  } catch (error) {
+    console.warn('IndexedDB is unavailable, falling back to localStorage:', error);
+  }
+
+  if (isLocalStorageAvailable()) {
+    const localStorageAdapter = createLocalStorageAdapter(STORAGE_KEYS);
+    const { values, corruptedKeys } = await localStorageAdapter.loadAll();
+    corruptedKeys.forEach(key => reportStorageProblem({ reason: 'corrupted', key }));
+    values.forEach((value, key) => cache.set(key, value));
+    adapter = localStorageAdapter;
+  } else {
+    reportStorageProblem({ reason: 'unavailable' });
+  }
+};
+
+/**
+ * Reads a saved value.
+ * @param {StorageKey} key - The key of the value.
+ * @returns {T | undefined} The saved value, or undefined if none was saved.
+ */
+export const readStoredValue = <T,>(key: StorageKey): T | undefined => cache.get(key) as T | undefined;
+
+/**
+ * Saves a value in the background; nothing is written if it hasn't changed.
+ * A failed write is reported as a storage problem.
+ * @param {StorageKey} key - The key of the value.
+ * @param {unknown} value - The value to save.
+ */
+export const writeStoredValue = (key: StorageKey, value: unknown): void => {
+  if (cache.has(key) && cache.get(key) === value) return;
+  cache.set(key, value);
+  const write = COLLECTION_KEYS.has(key) && Array.isArray(value)
+    ? adapter.saveCollection(key, value as StoredRecord[])
+    : adapter.save(key, value);
+  write.catch(error => {
+    console.error(`Error saving "${key}" to ${adapter.name}:`, error);
+    reportStorageProblem({ reason: 'saveFailed' });
+  });
+};
@@ -0,0 +1,297 @@
+/**
+ * @file The storage adapters behind the app's persistence: IndexedDB, which stores
+ * each record of a collection (such as a transaction) on its own so a change only
+ * rewrites what changed, localStorage as a fallback, and an in-memory adapter for
+ * when neither is available.
+ */
+
+/**
+ * A record of a collection, identified by its ID.
+ */
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * The values read from storage.
+ */
+export interface LoadedData {
+  /** Every stored value by key, with collections as arrays in their saved order. */
+  values: Map<string, unknown>;
+  /** The keys whose stored values could not be read. */
+  corruptedKeys: string[];
+}
+
+/**
+ * Reads and writes the app's persisted values. Writes are applied in the order they
+ * are made.
+ */
+export interface StorageAdapter {
+  /** The kind of storage, for logs. */
+  readonly name: 'indexedDB' | 'localStorage' | 'memory';
+  /** Reads every stored value. */
+  loadAll: () => Promise<LoadedData>;
+  /** Saves a value, replacing the one stored under the key. */
+  save: (key: string, value: unknown) => Promise<void>;
+  /** Saves a collection of records; the adapter may write only the records that changed. */
+  saveCollection: (key: string, records: StoredRecord[]) => Promise<void>;
+}
+
+// --- IndexedDB ---
+
+const DB_NAME = 'meme-budget';
+const DB_VERSION = 1;
+/** Holds plain values by key. */
+const VALUES_STORE = 'values';
+/** Holds the records of every collection, keyed by [collection, id]. */
+const RECORDS_STORE = 'records';
+
+/**
+ * Stored in the values store under a collection's key, so an empty collection
+ * is told apart from one that was never saved.
+ */
+const COLLECTION_MARKER = { collection: true };
+
+/**
+ * A record as kept in the records store.
+ */
+interface RecordRow {
+  collection: string;
+  id: string;
+  /** Orders the records of a collection; it increases along the array. */
+  seq: number;
+  value: StoredRecord;
+}
+
+/**
+ * What is known to be stored for a record: the saved object and its position.
+ */
+interface RecordEntry {
+  record: StoredRecord;
+  seq: number;
+}
+
+/**
+ * The writes needed to store a new version of a collection.
+ */
+export interface RecordWritePlan {
+  /** The records to write, with their positions. */
+  puts: { record: StoredRecord; seq: number }[];
+  /** The IDs of the records to delete. */
+  deletes: string[];
+  /** What is stored for each record once the writes are applied. */
+  entries: Map<string, RecordEntry>;
+  /** The next unused position. */
+  nextSeq: number;
+}
+
+/**
+ * Works out which records of a collection need writing. Records are compared by
+ * reference, as the app never mutates them, so only new and edited ones are written.
+ * Records keep their position while the order is unchanged; new records, and any
+ * that now come after a moved or inserted one, are given fresh positions.
+ * @param {Map<string, RecordEntry>} previous - What is stored for each record now.
+ * @param {StoredRecord[]} records - The new version of the collection.
+ * @param {number} nextSeq - The next unused position.
+ * @returns {RecordWritePlan} The records to write and delete.
+ */
+export const planRecordWrites = (previous: Map<string, RecordEntry>, records: StoredRecord[], nextSeq: number): RecordWritePlan => {
+  const puts: RecordWritePlan['puts'] = [];
+  const entries = new Map<string, RecordEntry>();
+  let lastSeq = -Infinity;
+  records.forEach(record => {
+    const existing = previous.get(record.id);
+    let seq: number;
+    if (existing && existing.seq > lastSeq) {
+      seq = existing.seq;
+      if (existing.record !== record) puts.push({ record, seq });
+    } else {
+      seq = nextSeq++;
+      puts.push({ record, seq });
+    }
+    entries.set(record.id, { record, seq });
+    lastSeq = seq;
+  });
+  const deletes = [...previous.keys()].filter(id => !entries.has(id));
+  return { puts, deletes, entries, nextSeq };
+};
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Wraps an IndexedDB transaction in a promise that resolves once it has committed.
+ */
+const transactionToPromise = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+});
+
+/**
+ * Opens the app's database, creating its stores on first use.
+ */
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(VALUES_STORE);
+    db.createObjectStore(RECORDS_STORE, { keyPath: ['collection', 'id'] });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB is blocked by another tab'));
+});
+
+/**
+ * Opens IndexedDB storage.
+ * @returns {Promise<StorageAdapter>} The adapter.
+ * @throws If IndexedDB is unavailable (e.g., disabled in private browsing).
+ */
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  if (typeof window === 'undefined' || !window.indexedDB) throw new Error('IndexedDB is not supported');
+  const db = await openDatabase();
+
+  // What is stored for each collection, to work out the writes a change needs.
+  // A collection missing here is rewritten in full (e.g., after a failed write).
+  const collections = new Map<string, { entries: Map<string, RecordEntry>; nextSeq: number }>();
+
+  return {
+    name: 'indexedDB',
+
+    loadAll: async () => {
+      const transaction = db.transaction([VALUES_STORE, RECORDS_STORE], 'readonly');
+      const valueStore = transaction.objectStore(VALUES_STORE);
+      const [keys, storedValues, rows] = await Promise.all([
+        requestToPromise(valueStore.getAllKeys()),
+        requestToPromise(valueStore.getAll()),
+        requestToPromise(transaction.objectStore(RECORDS_STORE).getAll() as IDBRequest<RecordRow[]>),
+      ]);
+
+      const rowsByCollection = new Map<string, RecordRow[]>();
+      rows.forEach(row => rowsByCollection.set(row.collection, [...(rowsByCollection.get(row.collection) || []), row]));
+
+      const values = new Map<string, unknown>();
+      keys.forEach((key, i) => {
+        const value = storedValues[i];
+        if (typeof key !== 'string') return;
+        if (value && typeof value === 'object' && (value as typeof COLLECTION_MARKER).collection === true) {
+          const collectionRows = (rowsByCollection.get(key) || []).sort((a, b) => a.seq - b.seq);
+          collections.set(key, {
+            entries: new Map(collectionRows.map(row => [row.id, { record: row.value, seq: row.seq }])),
+            nextSeq: collectionRows.length > 0 ? collectionRows[collectionRows.length - 1].seq + 1 : 0,
+          });
+          values.set(key, collectionRows.map(row => row.value));
+        } else {
+          values.set(key, value);
+        }
+      });
+      return { values, corruptedKeys: [] };
+    },
+
+    save: async (key, value) => {
+      const transaction = db.transaction(VALUES_STORE, 'readwrite');
+      transaction.objectStore(VALUES_STORE).put(value, key);
+      await transactionToPromise(transaction);
+    },
+
+    saveCollection: async (key, records) => {
+      const known = collections.get(key);
+      const plan = planRecordWrites(known?.entries || new Map(), records, known?.nextSeq || 0);
+      // Record the new state right away, so the next change is planned against it
+      collections.set(key, { entries: plan.entries, nextSeq: plan.nextSeq });
+
+      const transaction = db.transaction([VALUES_STORE, RECORDS_STORE], 'readwrite');
+      const recordStore = transaction.objectStore(RECORDS_STORE);
+      if (!known) {
+        // Nothing is known about what is stored, so replace the whole collection
+        transaction.objectStore(VALUES_STORE).put(COLLECTION_MARKER, key);
+        recordStore.delete(IDBKeyRange.bound([key], [key, []]));
+      }
+      plan.deletes.forEach(id => recordStore.delete([key, id]));
+      plan.puts.forEach(({ record, seq }) => {
+        const row: RecordRow = { collection: key, id: record.id, seq, value: record };
+        recordStore.put(row);
+      });
+      try {
+        await transactionToPromise(transaction);
+      } catch (error) {
+        // What is stored is uncertain now; the next change rewrites the collection
+        collections.delete(key);
+        throw error;
+      }
+    },
+  };
+};
+
+// --- localStorage ---
+
+/**
+ * Checks if localStorage is available and writable.
+ * @returns {boolean} True if localStorage is available, false otherwise.
+ */
+export const isLocalStorageAvailable = (): boolean => {
+  try {
+    const testKey = '__storage_test__';
+    window.localStorage.setItem(testKey, testKey);
+    window.localStorage.removeItem(testKey);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Creates localStorage storage, which keeps each value as JSON under its key. It is
+ * also where data was kept before IndexedDB, so it reads the data to migrate.
+ * @param {readonly string[]} keys - The keys the app stores.
+ * @returns {StorageAdapter} The adapter.
+ */
+export const createLocalStorageAdapter = (keys: readonly string[]): StorageAdapter => {
+  const save = async (key: string, value: unknown) => {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  };
+
+  return {
+    name: 'localStorage',
+
+    loadAll: async () => {
+      const values = new Map<string, unknown>();
+      const corruptedKeys: string[] = [];
+      keys.forEach(key => {
+        const item = window.localStorage.getItem(key);
+        if (item === null) return;
+        try {
+          values.set(key, JSON.parse(item));
+        } catch (error) {
+          console.error(`Error parsing localStorage key "${key}":`, error);
+          corruptedKeys.push(key);
+        }
+      });
+      return { values, corruptedKeys };
+    },
+
+    save,
+    // localStorage can only store the whole array
+    saveCollection: save,
+  };
+};
+
+// --- Memory ---
+
+/**
+ * Creates storage that keeps nothing, for when the browser offers no storage at all.
+ * The app then works as usual, but its data is lost when it is closed.
+ * @returns {StorageAdapter} The adapter.
+ */
+export const createMemoryAdapter = (): StorageAdapter => ({
+  name: 'memory',
+  loadAll: async () => ({ values: new Map(), corruptedKeys: [] }),
+  save: async () => {},
+  saveCollection: async () => {},
+});
@@ -0,0 +1,109 @@
+/**
+ * @file Utility functions for suggesting transaction descriptions learned from history.
+ * Suggestions are built locally from the existing transactions and ranked so that
+ * descriptions used often, and used recently, come first.
+ */
+
+import { Transaction } from '../types';
+import { normalizeText } from './text';
+import { parseDateKey } from './date';
+
+/** After this many days, a past use of a description counts half as much in the ranking. */
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/**
+ * A description used before, with the details of its most recent use.
+ */
+export interface DescriptionSuggestion {
+  /** The description as it was last written. */
+  description: string;
+  /** The type of transaction it was used for. */
+  type: Transaction['type'];
+  /** The category of the most recent transaction with this description. */
+  categoryId?: string;
+  /** The amount of the most recent transaction with this description. */
+  amount: number;
+  /** The currency of the most recent transaction with this description. */
+  currency?: string;
+  /** The ranking score: each past use counts for less the older it is. */
+  score: number;
+}
+
+/**
+ * Builds the list of known descriptions from the transaction history, one entry per
+ * distinct description and type, ordered from the highest ranking score to the lowest.
+ * @param {Transaction[]} transactions - The transaction history.
+ * @param {string} today - Today's date in YYYY-MM-DD format, used to weigh recency.
+ * @returns {DescriptionSuggestion[]} The known descriptions, best first.
+ */
+export function buildDescriptionIndex(transactions: Transaction[], today: string): DescriptionSuggestion[] {
+  const todayTime = parseDateKey(today).getTime();
+  const entries = new Map<string, DescriptionSuggestion & { lastDate: string }>();
+
+  transactions.forEach(transaction => {
+    const normalized = normalizeText(transaction.description);
+    if (!normalized) return;
+    const ageDays = Math.max(0, (todayTime - parseDateKey(transaction.date).getTime()) / 86400000);
+    const weight = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+    const key = `${transaction.type}|${normalized}`;
+    const entry = entries.get(key);
+    if (!entry) {
+      entries.set(key, {
+        description: transaction.description.trim(),
+        type: transaction.type,
+        categoryId: transaction.categoryId,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        score: weight,
+        lastDate: transaction.date,
+      });
+      return;
+    }
+    entry.score += weight;
+    // Keep the details of the most recent use
+    if (transaction.date >= entry.lastDate) {
+      Object.assign(entry, {
+        description: transaction.description.trim(),
+        categoryId: transaction.categoryId,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        lastDate: transaction.date,
+      });
+    }
+  });
+
+  return [...entries.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ lastDate, ...suggestion }) => suggestion);
+}
+
+/**
+ * Finds the known descriptions that match what the user has typed so far.
+ * Descriptions starting with the text come before those that only contain it;
+ * within each group the ranking order is kept.
+ * @param {DescriptionSuggestion[]} index - The known descriptions, from `buildDescriptionIndex`.
+ * @param {string} query - The text typed so far.
+ * @param {Transaction['type']} type - The type of the transaction being entered.
+ * @param {number} [limit=5] - The maximum number of suggestions.
+ * @returns {DescriptionSuggestion[]} The matching suggestions.
+ */
+export function getDescriptionSuggestions(index: DescriptionSuggestion[], query: string, type: Transaction['type'], limit: number = 5): DescriptionSuggestion[] {
+  const normalizedQuery = normalizeText(query);
+  if (!normalizedQuery) return [];
+
+  const startsWith: DescriptionSuggestion[] = [];
+  const contains: DescriptionSuggestion[] = [];
+  index.forEach(suggestion => {
+    if (suggestion.type !== type) return;
+    const normalized = normalizeText(suggestion.description);
+    // Nothing left to complete once the text matches exactly
+    if (normalized === normalizedQuery) return;
+    if (normalized.startsWith(normalizedQuery)) {
+      startsWith.push(suggestion);
+    } else if (normalized.includes(normalizedQuery)) {
+      contains.push(suggestion);
+    }
+  });
+  return [...startsWith, ...contains].slice(0, limit);
+}
@@ -0,0 +1,13 @@
+/**
+ * @file Utility functions for comparing user-entered text.
+ */
+
+/**
+ * Normalizes text for matching: lowercase, without accents, with surrounding
+ * spaces removed and inner runs of whitespace collapsed.
+ * @param {string} text - The text to normalize.
+ * @returns {string} The normalized text.
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,69 @@
+/**
+ * @file Utility functions for month-by-month trends of income, expenses and budgets,
+ * as plotted by the trend charts in the analytics view.
+ */
+
+import { Budget, Converter, Transaction } from '../types';
+import { addMonths } from './date';
+import { getCategoryAmounts } from './splits';
+
+/**
+ * The totals of a single month, in the base currency.
+ */
+export interface MonthlyTrend {
+  /** The month in YYYY-MM format. */
+  monthKey: string;
+  /** The total income of the month. */
+  income: number;
+  /** The total expenses of the month. */
+  expenses: number;
+  /** The total budget set for the month. */
+  budget: number;
+  /** The expenses of the month for each category ID. */
+  expensesByCategory: Record<string, number>;
+}
+
+/**
+ * Lists a number of consecutive months ending with a given month.
+ * @param {string} lastMonthKey - The last month in YYYY-MM format.
+ * @param {number} count - How many months to list.
+ * @returns {string[]} The month keys, oldest first.
+ */
+export function getTrailingMonthKeys(lastMonthKey: string, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => addMonths(lastMonthKey, index - count + 1));
+}
+
+/**
+ * Adds up income, expenses and budgets for each of the given months.
+ * @param {Transaction[]} transactions - The transactions to add up.
+ * @param {Record<string, Budget[]>} budgets - The budgets, keyed by month (YYYY-MM).
+ * @param {string[]} monthKeys - The months to include, in display order.
+ * @param {Converter} convert - Converts amounts into the base currency.
+ * @returns {MonthlyTrend[]} The totals of each month, in the same order as `monthKeys`.
+ */
+export function buildMonthlyTrends(transactions: Transaction[], budgets: Record<string, Budget[]>, monthKeys: string[], convert: Converter): MonthlyTrend[] {
+  const trends = new Map<string, MonthlyTrend>(monthKeys.map(monthKey => [monthKey, {
+    monthKey,
+    income: 0,
+    expenses: 0,
+    budget: (budgets[monthKey] || []).reduce((sum, budget) => sum + budget.amount, 0),
+    expensesByCategory: {},
+  }]));
+
+  transactions.forEach(transaction => {
+    const trend = trends.get(transaction.date.slice(0, 7));
+    if (!trend) return;
+    const amount = convert(transaction.amount, transaction.currency);
+    if (transaction.type === 'income') {
+      trend.income += amount;
+    } else {
+      trend.expenses += amount;
+      getCategoryAmounts(transaction).forEach(part => {
+        const categoryId = part.categoryId || 'other';
+        trend.expensesByCategory[categoryId] = (trend.expensesByCategory[categoryId] || 0) + convert(part.amount, transaction.currency);
+      });
+    }
+  });
+
+  return monthKeys.map(monthKey => trends.get(monthKey)!);
+}